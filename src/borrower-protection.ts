@@ -0,0 +1,200 @@
+import { Signer } from '@ajna-finance/sdk';
+import { BigNumber, constants } from 'ethers';
+import {
+  CollateralType,
+  KeeperConfig,
+  PoolConfig,
+  ProtectionAction,
+} from './config-types';
+import {
+  approveErc20,
+  convertTokenDecimalsToWad,
+  convertWadToTokenDecimals,
+  getAllowanceOfErc20,
+  getBalanceOfErc20,
+  getDecimalsErc20,
+} from './erc20';
+import { recordLedgerEntry } from './ledger';
+import { logger } from './logging';
+import { recordGasSpent, recordLoanProtection } from './metrics';
+import { resolvePrice, TakeProfitConfig } from './take-profit';
+import { poolPledgeCollateral, poolRepayDebt } from './transactions';
+import {
+  AjnaPool,
+  decimaledToWei,
+  RequireFields,
+  weiToDecimaled,
+} from './utils';
+
+/** Loan values in WAD, as returned by `pool.getLoan`. */
+export interface ProtectedLoan {
+  debt: BigNumber;
+  collateral: BigNumber;
+  thresholdPrice: BigNumber;
+}
+
+interface HandleBorrowerProtectionParams {
+  pool: AjnaPool;
+  poolConfig: RequireFields<PoolConfig, 'borrowerProtection'>;
+  signer: Signer;
+  config: Pick<KeeperConfig, 'dryRun'> & TakeProfitConfig;
+}
+
+/**
+ * Collateral to pledge, or debt to repay, in WAD, bringing a loan's threshold
+ * price down to `targetPrice`. The threshold price is proportional to debt
+ * over collateral, and both amounts are rounded so the target is reached.
+ */
+export function getProtectionAmount(
+  action: ProtectionAction,
+  { debt, collateral, thresholdPrice }: ProtectedLoan,
+  targetPrice: BigNumber
+): BigNumber {
+  if (targetPrice.isZero() || thresholdPrice.lte(targetPrice)) {
+    return constants.Zero;
+  }
+  if (action === ProtectionAction.ADD_COLLATERAL) {
+    const collateralAtTarget = collateral
+      .mul(thresholdPrice)
+      .add(targetPrice)
+      .sub(1)
+      .div(targetPrice);
+    return collateralAtTarget.sub(collateral);
+  }
+  return debt.sub(debt.mul(targetPrice).div(thresholdPrice));
+}
+
+/**
+ * Keeps the configured borrowers' loans from becoming kickable. A loan is
+ * protected once its threshold price reaches `triggerRatio` of the lower of
+ * LUP and the pool's `price`, by pledging collateral or repaying debt from the
+ * keeper's wallet until it is back at `targetRatio`. When the wallet holds
+ * less than needed, the loan is topped up with what there is.
+ */
+export async function handleBorrowerProtection({
+  pool,
+  poolConfig,
+  signer,
+  config,
+}: HandleBorrowerProtectionParams) {
+  const { borrowers, triggerRatio, targetRatio, action } =
+    poolConfig.borrowerProtection;
+  if (
+    poolConfig.collateralType === CollateralType.ERC721 &&
+    action === ProtectionAction.ADD_COLLATERAL
+  ) {
+    logger.warn(
+      `Not protecting loans in pool ${pool.name}: addCollateral is not supported in ERC721 pools`
+    );
+    return;
+  }
+  const [{ lup }, marketPrice] = await Promise.all([
+    pool.getPrices(),
+    resolvePrice(poolConfig.price, pool, await signer.getChainId(), config),
+  ]);
+  const referencePrice = Math.min(weiToDecimaled(lup), marketPrice);
+
+  for (const borrower of borrowers) {
+    const loan: ProtectedLoan = await pool.getLoan(borrower);
+    if (loan.debt.isZero()) continue;
+    const thresholdPrice = weiToDecimaled(loan.thresholdPrice);
+    if (thresholdPrice < referencePrice * triggerRatio) {
+      logger.debug(
+        `Loan is safe. pool: ${pool.name}, borrower: ${borrower}, TP: ${thresholdPrice}, LUP: ${weiToDecimaled(lup)}, price: ${marketPrice}`
+      );
+      continue;
+    }
+
+    logger.warn(
+      `Loan at risk of being kicked. pool: ${pool.name}, borrower: ${borrower}, TP: ${thresholdPrice}, LUP: ${weiToDecimaled(lup)}, price: ${marketPrice}`
+    );
+    const amount = getProtectionAmount(
+      action,
+      loan,
+      decimaledToWei(referencePrice * targetRatio)
+    );
+    await protectLoan({ pool, signer, config, action, borrower, amount });
+  }
+}
+
+interface ProtectLoanParams extends Omit<
+  HandleBorrowerProtectionParams,
+  'poolConfig'
+> {
+  action: ProtectionAction;
+  borrower: string;
+  /** In WAD. */
+  amount: BigNumber;
+}
+
+async function protectLoan({
+  pool,
+  signer,
+  config,
+  action,
+  borrower,
+  amount,
+}: ProtectLoanParams) {
+  const isRepay = action === ProtectionAction.REPAY;
+  const token = isRepay ? pool.quoteAddress : pool.collateralAddress;
+  const decimals = await getDecimalsErc20(signer, token);
+  const balance = convertTokenDecimalsToWad(
+    await getBalanceOfErc20(signer, token),
+    decimals
+  );
+  if (balance.lt(amount)) {
+    logger.warn(
+      `Insufficient balance to fully protect loan. pool: ${pool.name}, borrower: ${borrower}, needed: ${weiToDecimaled(amount)}, balance: ${weiToDecimaled(balance)}`
+    );
+    amount = balance;
+  }
+  const tokenAmount = convertWadToTokenDecimals(amount, decimals);
+  amount = convertTokenDecimalsToWad(tokenAmount, decimals);
+  if (amount.isZero()) return;
+
+  if (config.dryRun) {
+    logger.info(
+      `DryRun - Would ${isRepay ? 'repay' : 'pledge'} ${weiToDecimaled(amount)} - pool: ${pool.name}, borrower: ${borrower}`
+    );
+    return;
+  }
+
+  try {
+    recordLoanProtection(pool.name, action, 'attempted');
+    const allowance = await getAllowanceOfErc20(
+      signer,
+      token,
+      pool.poolAddress
+    );
+    if (allowance.lt(tokenAmount)) {
+      const receipt = await approveErc20(
+        signer,
+        token,
+        pool.poolAddress,
+        tokenAmount
+      );
+      recordGasSpent(pool.name, 'approve', receipt);
+    }
+
+    const receipt = isRepay
+      ? await poolRepayDebt(pool, signer, borrower, amount)
+      : await poolPledgeCollateral(pool, signer, borrower, amount);
+    recordLoanProtection(pool.name, action, 'confirmed');
+    recordGasSpent(pool.name, action, receipt);
+    await recordLedgerEntry({
+      action: 'protectLoan',
+      strategy: `protect:${action}`,
+      pool,
+      receipt,
+      ...(isRepay
+        ? { quoteDelta: -weiToDecimaled(amount) }
+        : { collateralDelta: -weiToDecimaled(amount) }),
+    });
+  } catch (error) {
+    recordLoanProtection(pool.name, action, 'failed');
+    logger.error(
+      `Failed to protect loan. pool: ${pool.name}, borrower: ${borrower}`,
+      error
+    );
+  }
+}
@@ -1,13 +1,15 @@
-import { FungiblePool, Signer } from '@ajna-finance/sdk';
+import { Signer } from '@ajna-finance/sdk';
 import { constants } from 'ethers';
 import { KeeperConfig, PoolConfig } from './config-types';
 import { logger } from './logging';
 import { poolWithdrawBonds } from './transactions';
-import { weiToDecimaled } from './utils';
+import { recordGasSpent } from './metrics';
+import { recordLedgerEntry } from './ledger';
+import { AjnaPool, weiToDecimaled } from './utils';
 import { tryReactiveSettlement } from './settlement';
 
 interface CollectBondParams {
-  pool: FungiblePool;
+  pool: AjnaPool;
   signer: Signer;
   poolConfig: PoolConfig; // Changed to include full poolConfig for settlement access
   config: Pick<KeeperConfig, 'dryRun' | 'subgraphUrl' | 'delayBetweenActions'>;
@@ -34,7 +36,15 @@ export async function collectBondFromPool({
         `Withdrawing bond. pool: ${pool.name}. bondSize: ${weiToDecimaled(claimable)}`
       );
       try {
-        await poolWithdrawBonds(pool, signer);
+        const receipt = await poolWithdrawBonds(pool, signer);
+        recordGasSpent(pool.name, 'withdrawBonds', receipt);
+        await recordLedgerEntry({
+          action: 'bondWithdrawal',
+          strategy: 'kick',
+          pool,
+          receipt,
+          quoteDelta: weiToDecimaled(claimable),
+        });
         logger.info(
           `Withdrew bond. pool: ${pool.name}. bondSize: ${weiToDecimaled(claimable)}`
         );
@@ -72,7 +82,15 @@ export async function collectBondFromPool({
             );
           } else {
             try {
-              await poolWithdrawBonds(pool, signer);
+              const receipt = await poolWithdrawBonds(pool, signer);
+              recordGasSpent(pool.name, 'withdrawBonds', receipt);
+              await recordLedgerEntry({
+                action: 'bondWithdrawal',
+                strategy: 'kick',
+                pool,
+                receipt,
+                quoteDelta: weiToDecimaled(newClaimable),
+              });
               logger.info(
                 `Withdrew bond after settlement. pool: ${pool.name}. bondSize: ${weiToDecimaled(newClaimable)}`
               );
@@ -13,6 +13,7 @@ import {
   ERC20Pool,
 } from '@ajna-finance/sdk/dist/types/contracts/ERC20Pool';
 import { BigNumber, constants } from 'ethers';
+import path from 'path';
 import {
   KeeperConfig,
   PoolConfig,
@@ -20,7 +21,10 @@ import {
   TokenToCollect,
 } from './config-types';
 import { logger } from './logging';
+import { recordGasSpent } from './metrics';
+import { recordLedgerEntry } from './ledger';
 import { RewardActionTracker } from './reward-action-tracker';
+import { JsonStateStore } from './state-store';
 import {
   bucketRemoveCollateralToken,
   bucketRemoveQuoteToken,
@@ -28,6 +32,20 @@ import {
 import { decimaledToWei, weiToDecimaled } from './utils';
 import { FungibleBucket } from '@ajna-finance/sdk/dist/classes/FungibleBucket';
 
+/** Block range per eth_getLogs request when backfilling, to stay under common RPC limits. */
+const BACKFILL_BLOCK_RANGE = 5000;
+
+type AwardRole = 'taker' | 'kicker';
+
+export interface LpRewardState {
+  /** Every BucketTakeLPAwarded event up to and including this block is reflected in `rewards`. */
+  scannedThroughBlock?: number;
+  /** Events after `scannedThroughBlock` which are already reflected in `rewards`, keyed by event id. */
+  processedEvents: { [eventId: string]: number };
+  /** Uncollected reward LP by bucket index. */
+  rewards: { [bucketIndex: string]: string };
+}
+
 /**
  * Collects lp rewarded from BucketTakes without collecting the user's deposits or loans.
  */
@@ -38,12 +56,17 @@ export class LpCollector {
   public takerAwardEvt: Promise<BucketTakeLPAwardedEventFilter>;
 
   private started: boolean = false;
+  private store?: JsonStateStore<LpRewardState>;
+  private scannedThroughBlock?: number;
+  private processedEvents: Map<string, number> = new Map();
+  /** Ids of every award event handled this session, so backfill and subscription never count one twice. */
+  private seenEvents: Set<string> = new Set();
 
   constructor(
     private pool: FungiblePool,
     private signer: Signer,
     private poolConfig: Required<Pick<PoolConfig, 'collectLpReward'>>,
-    private config: Pick<KeeperConfig, 'dryRun'>,
+    private config: Pick<KeeperConfig, 'dryRun' | 'stateDir'>,
     private exchangeTracker: RewardActionTracker
   ) {
     const poolContract = ERC20Pool__factory.connect(
@@ -61,20 +84,36 @@ export class LpCollector {
     })();
   }
 
+  /**
+   * Restores persisted rewards, subscribes to new awards, then backfills awards
+   * missed while the keeper was not running and reconciles them with the
+   * signer's bucket positions.
+   */
   public async startSubscription() {
     if (!this.started) {
+      await this.loadState();
       await this.subscribeToLpRewards();
       this.started = true;
+      await this.backfillLpRewards();
+      await this.reconcileRewards();
     }
   }
 
   public async stopSubscription() {
     if (this.started) {
-      this.stopSubscriptionToLpRewards();
+      await this.stopSubscriptionToLpRewards();
+      await this.store?.flush();
       this.started = false;
     }
   }
 
+  /** Applies reloaded settings, e.g. new minimum amounts or reward actions, from the next collection. */
+  public updatePoolConfig(
+    poolConfig: Required<Pick<PoolConfig, 'collectLpReward'>>
+  ) {
+    this.poolConfig = poolConfig;
+  }
+
   public async collectLpRewards() {
     if (!this.started)
       throw new Error('Must start subscriptions before collecting rewards');
@@ -206,7 +245,8 @@ export class LpCollector {
         const signerAddress = await this.signer.getAddress();
         const { lpBalance: lpBalanceBefore } = await bucket.getPosition(signerAddress);
         
-        await bucketRemoveQuoteToken(bucket, this.signer, quoteToWithdraw);
+        const receipt = await bucketRemoveQuoteToken(bucket, this.signer, quoteToWithdraw);
+        recordGasSpent(this.pool.name, 'collectLpReward', receipt);
         
         // Get LP balance after the transaction
         const { lpBalance: lpBalanceAfter } = await bucket.getPosition(signerAddress);
@@ -214,6 +254,14 @@ export class LpCollector {
         logger.info(
           `Collected LP reward as quote. pool: ${this.pool.name}, amount: ${weiToDecimaled(quoteToWithdraw)}`
         );
+        await recordLedgerEntry({
+          action: 'lpRedemption',
+          strategy: 'lpReward',
+          pool: this.pool,
+          receipt,
+          quoteDelta: weiToDecimaled(quoteToWithdraw),
+          lpDelta: -weiToDecimaled(lpBalanceBefore.sub(lpBalanceAfter)),
+        });
 
         if (rewardActionQuote) {
           this.exchangeTracker.addToken(
@@ -271,11 +319,12 @@ export class LpCollector {
         const signerAddress = await this.signer.getAddress();
         const { lpBalance: lpBalanceBefore } = await bucket.getPosition(signerAddress);
         
-        await bucketRemoveCollateralToken(
+        const receipt = await bucketRemoveCollateralToken(
           bucket,
           this.signer,
           collateralToWithdraw
         );
+        recordGasSpent(this.pool.name, 'collectLpReward', receipt);
         
         // Get LP balance after the transaction
         const { lpBalance: lpBalanceAfter } = await bucket.getPosition(signerAddress);
@@ -283,6 +332,14 @@ export class LpCollector {
         logger.info(
           `Collected LP reward as collateral. pool: ${this.pool.name}, token: ${this.pool.collateralSymbol}, amount: ${weiToDecimaled(collateralToWithdraw)}`
         );
+        await recordLedgerEntry({
+          action: 'lpRedemption',
+          strategy: 'lpReward',
+          pool: this.pool,
+          receipt,
+          collateralDelta: weiToDecimaled(collateralToWithdraw),
+          lpDelta: -weiToDecimaled(lpBalanceBefore.sub(lpBalanceAfter)),
+        });
 
         if (rewardActionCollateral) {
           this.exchangeTracker.addToken(
@@ -334,8 +391,7 @@ export class LpCollector {
     lpAwardedKicker,
     evt
   ) => {
-    const bucketIndex = await this.getBucketTakeBucketIndex(evt);
-    this.addReward(bucketIndex, lpAwardedTaker);
+    await this.handleAwardEvent(evt, 'taker', lpAwardedTaker);
   };
 
   private onKickerAwardEvent: TypedListener<BucketTakeLPAwardedEvent> = async (
@@ -345,10 +401,147 @@ export class LpCollector {
     lpAwardedKicker,
     evt
   ) => {
-    const bucketIndex = await this.getBucketTakeBucketIndex(evt);
-    this.addReward(bucketIndex, lpAwardedKicker);
+    await this.handleAwardEvent(evt, 'kicker', lpAwardedKicker);
   };
 
+  private async handleAwardEvent(
+    evt: BucketTakeLPAwardedEvent,
+    role: AwardRole,
+    rewardLp: BigNumber
+  ) {
+    const eventId = `${evt.transactionHash}:${evt.logIndex}:${role}`;
+    if (this.seenEvents.has(eventId)) return;
+    this.seenEvents.add(eventId);
+    try {
+      const bucketIndex = await this.getBucketTakeBucketIndex(evt);
+      if (bucketIndex === undefined) {
+        logger.warn(
+          `Skipping LP award with no BucketTake in its transaction. pool: ${this.pool.name}, tx: ${evt.transactionHash}`
+        );
+      } else {
+        this.addReward(bucketIndex, rewardLp);
+      }
+    } catch (error) {
+      this.seenEvents.delete(eventId);
+      throw error;
+    }
+    if (
+      this.scannedThroughBlock === undefined ||
+      evt.blockNumber > this.scannedThroughBlock
+    ) {
+      this.processedEvents.set(eventId, evt.blockNumber);
+    }
+    this.saveState();
+  }
+
+  /**
+   * Scans for awards since the last scanned block, or `backfillFromBlock` on the first start.
+   * Needs `stateDir`: without persisted progress, a rescan would count already redeemed awards again.
+   */
+  private async backfillLpRewards() {
+    const fromBlock =
+      this.scannedThroughBlock !== undefined
+        ? this.scannedThroughBlock + 1
+        : this.poolConfig.collectLpReward.backfillFromBlock;
+    if (fromBlock === undefined) return;
+    if (!this.store) {
+      logger.warn(
+        `Ignoring backfillFromBlock since stateDir is not set. pool: ${this.pool.name}`
+      );
+      return;
+    }
+
+    const toBlock = await this.poolContract.provider.getBlockNumber();
+    logger.info(
+      `Backfilling LP rewards from block ${fromBlock} to ${toBlock}. pool: ${this.pool.name}`
+    );
+    const [takerFilter, kickerFilter] = await Promise.all([
+      this.takerAwardEvt,
+      this.kickerAwardEvt,
+    ]);
+    for (
+      let start = fromBlock;
+      start <= toBlock;
+      start += BACKFILL_BLOCK_RANGE
+    ) {
+      const end = Math.min(start + BACKFILL_BLOCK_RANGE - 1, toBlock);
+      const [takerEvents, kickerEvents] = await Promise.all([
+        this.poolContract.queryFilter(takerFilter, start, end),
+        this.poolContract.queryFilter(kickerFilter, start, end),
+      ]);
+      for (const evt of takerEvents) {
+        await this.handleAwardEvent(evt, 'taker', evt.args.lpAwardedTaker);
+      }
+      for (const evt of kickerEvents) {
+        await this.handleAwardEvent(evt, 'kicker', evt.args.lpAwardedKicker);
+      }
+    }
+
+    this.scannedThroughBlock = toBlock;
+    for (const [eventId, blockNumber] of Array.from(
+      this.processedEvents.entries()
+    )) {
+      if (blockNumber <= toBlock) this.processedEvents.delete(eventId);
+    }
+    this.saveState();
+  }
+
+  /**
+   * Caps each bucket's reward at the signer's LP balance in that bucket, in case
+   * LP was redeemed or moved outside of the keeper.
+   */
+  private async reconcileRewards() {
+    const signerAddress = await this.signer.getAddress();
+    for (const [bucketIndex, rewardLp] of Array.from(this.lpMap.entries())) {
+      const bucket = this.pool.getBucketByIndex(bucketIndex);
+      const { lpBalance } = await bucket.getPosition(signerAddress);
+      if (lpBalance.lt(rewardLp)) {
+        logger.warn(
+          `LP reward exceeds position, reducing to position. pool: ${this.pool.name}, bucketIndex: ${bucketIndex}, rewardLp: ${rewardLp}, lpBalance: ${lpBalance}`
+        );
+        this.subtractReward(bucketIndex, rewardLp.sub(lpBalance));
+      }
+    }
+  }
+
+  private async loadState() {
+    if (!this.config.stateDir) return;
+    const chainId = await this.signer.getChainId();
+    this.store = new JsonStateStore(
+      path.join(
+        this.config.stateDir,
+        `lp-rewards-${chainId}-${this.pool.poolAddress.toLowerCase()}.json`
+      )
+    );
+    const state = await this.store.load();
+    if (!state) return;
+    this.scannedThroughBlock = state.scannedThroughBlock;
+    this.processedEvents = new Map(Object.entries(state.processedEvents));
+    this.processedEvents.forEach((_, eventId) => this.seenEvents.add(eventId));
+    this.lpMap = new Map(
+      Object.entries(state.rewards).map(([bucketIndex, rewardLp]) => [
+        parseInt(bucketIndex),
+        BigNumber.from(rewardLp),
+      ])
+    );
+    logger.info(
+      `Restored LP rewards in ${this.lpMap.size} buckets. pool: ${this.pool.name}`
+    );
+  }
+
+  private saveState() {
+    this.store?.saveInBackground({
+      scannedThroughBlock: this.scannedThroughBlock,
+      processedEvents: Object.fromEntries(this.processedEvents),
+      rewards: Object.fromEntries(
+        Array.from(this.lpMap.entries()).map(([bucketIndex, rewardLp]) => [
+          bucketIndex,
+          rewardLp.toString(),
+        ])
+      ),
+    });
+  }
+
   private addReward(index: BigNumber, rewardLp: BigNumber) {
     if (rewardLp.eq(constants.Zero)) return;
     const bucketIndex = parseInt(index.toString());
@@ -368,25 +561,35 @@ export class LpCollector {
     } else {
       this.lpMap.set(bucketIndex, newReward);
     }
+    this.saveState();
   }
 
-  private getBucketTakeBucketIndex = async (evt: BucketTakeLPAwardedEvent) => {
-    const poolContract = ERC20Pool__factory.connect(
-      this.pool.poolAddress,
-      this.signer
-    );
-    const tx = await evt.getTransaction();
-    const parsedTransaction = poolContract.interface.parseTransaction(tx);
-    if (parsedTransaction.functionFragment.name !== 'bucketTake') {
-      throw new Error(
-        `Cannot get bucket index from transaction: ${parsedTransaction.functionFragment.name}`
-      );
+  /**
+   * The bucket of the take which made an award, from the pool's `BucketTake`
+   * event in the same receipt, since takers and multicall contracts call the
+   * pool from a transaction of their own. The pool emits `BucketTake` after
+   * the award, so the first one following it is the award's.
+   */
+  private getBucketTakeBucketIndex = async (
+    evt: BucketTakeLPAwardedEvent
+  ): Promise<BigNumber | undefined> => {
+    const receipt = await evt.getTransactionReceipt();
+    let previous: BigNumber | undefined;
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.pool.poolAddress.toLowerCase()) {
+        continue;
+      }
+      let index: BigNumber;
+      try {
+        const parsed = this.pool.contract.interface.parseLog(log);
+        if (parsed.name !== 'BucketTake') continue;
+        index = parsed.args.index;
+      } catch (error) {
+        continue;
+      }
+      if (log.logIndex > evt.logIndex) return index;
+      previous = index;
     }
-    const [borrower, depositTake, index] = parsedTransaction.args as [
-      string,
-      boolean,
-      BigNumber,
-    ];
-    return index;
+    return previous;
   };
 }
@@ -9,6 +9,7 @@ import { logger } from './logging';
 import { getWethToken } from './uniswap';
 import { JsonRpcProvider } from './provider';
 import { ethers } from 'ethers';
+import { ConfigValidationError, validateConfig } from './keeper-config-schema';
 
 export interface AjnaConfigParams {
   erc20PoolFactory: Address;
@@ -83,6 +84,10 @@ export interface KickSettings {
   minDebt: number;
   /** Will only kick when NP * priceFactor > price. (Should be less than one). */
   priceFactor: number;
+  /** If set, will only kick when the expected bond reward after gas is at least this much quote token, best kicks across pools first. Replaces the priceFactor check. */
+  minExpectedReturn?: number;
+  /** Price of the chain's native token in quote token, to value gas. Defaults to 1 when the quote token is tokenAddresses.weth. */
+  nativeTokenPrice?: PriceOrigin;
 }
 
 // should match LiquiditySource enum in AjnaKeeperTaker.sol
@@ -100,15 +105,30 @@ export enum CurvePoolType {
   CRYPTO = 'crypto'   // CryptoSwap/TriCrypto pools (uint256 indices)
 }
 
+export enum CollateralType {
+  ERC20 = 'erc20',
+  ERC721 = 'erc721',
+}
+
 export interface TakeSettings {
   /** Minimum amount of collateral in liquidation to take/arbTake. */
   minCollateral?: number;
   /** Will only arbTake when auctionPrice < hpb * hpbPriceFactor. */
   hpbPriceFactor?: number;
-  /** Determines market price used to assess takeability */
+  /** Determines market price used to assess takeability. Not used in ERC721 pools, which take with the keeper's quote token. */
   liquiditySource?: LiquiditySource;
-  /** Will only take when auctionPrice < marketPrice * marketPriceFactor. */
+  /** Will only take when auctionPrice < marketPrice * marketPriceFactor. In ERC721 pools the market price is the pool's price. */
   marketPriceFactor?: number;
+  /** Will only take/arbTake when the expected profit after gas is at least this much quote token. */
+  minProfit?: number;
+  /** Will only take/arbTake when the expected profit after gas is worth at least this many USD. Requires quoteUsdPrice. */
+  minProfitUsd?: number;
+  /** Price of the chain's native token in quote token, to value gas. Defaults to 1 when the quote token is tokenAddresses.weth. */
+  nativeTokenPrice?: PriceOrigin;
+  /** Price of the quote token in USD, for minProfitUsd. */
+  quoteUsdPrice?: PriceOrigin;
+  /** When the whole collateral isn't takeable, halves the search for the largest takeable amount this many times. Partial takes are off when unset. */
+  partialTakeSteps?: number;
 }
 
 export interface CollectSettings {
@@ -172,8 +192,63 @@ interface CollectLpRewardSettings {
   /** What to do with Collected LP Rewards. If unset will leave rewards in wallet. */
   rewardActionQuote?: RewardAction;
   rewardActionCollateral?: RewardAction;
+  /** On first start with `stateDir` set, scan BucketTakeLPAwarded events from this block for unredeemed rewards. */
+  backfillFromBlock?: number;
+}
+
+
+export interface ReserveAuctionSettings {
+  /** Will kick a reserve auction once claimable reserves reach this much quote token. Unset to only take auctions kicked by others. */
+  minKickReserves?: number;
+  /** Price of AJNA in the pool's quote token. */
+  ajnaPrice: PriceOrigin;
+  /** Will only take reserves when the AJNA burned is worth at most this share of the quote token received. Unset to only kick. */
+  takePriceFactor?: number;
+  /** Most AJNA to burn in one take. Defaults to the keeper's AJNA balance. */
+  maxAjnaPerTake?: number;
+}
+
+export enum RateDirection {
+  UP = 'up',
+  DOWN = 'down',
+  ANY = 'any',
+}
+
+export interface UpdateInterestSettings {
+  /** Will update the rate once this many seconds passed since its last update. Ajna only moves it after 12 hours. Defaults to 12 hours. */
+  minAge?: number;
+  /** Will only update when the rate is expected to move this way. Defaults to `any`. */
+  direction?: RateDirection;
+}
+
+export enum ProtectionAction {
+  ADD_COLLATERAL = 'addCollateral',
+  REPAY = 'repay',
+}
+
+export interface BorrowerProtectionSettings {
+  /** Borrowers whose loans are topped up from the keeper's wallet. */
+  borrowers: Address[];
+  /** Will protect a loan once its threshold price reaches this share of the lower of LUP and the pool's price, e.g. 0.9. */
+  triggerRatio: number;
+  /** Tops a loan up until its threshold price is this share of the lower of LUP and the pool's price. Must be below triggerRatio. */
+  targetRatio: number;
+  /** Pledge collateral or repay debt. Only `repay` is supported in ERC721 pools. */
+  action: ProtectionAction;
 }
 
+export interface LenderGuardSettings {
+  /** Buckets holding the keeper's deposits. Buckets deposits are moved to are watched too, until restart. */
+  bucketIndexes: number[];
+  /** Price deposits are kept above, `lup` or `htp`. Defaults to `lup`. */
+  reference?: PriceOriginPoolReference.LUP | PriceOriginPoolReference.HTP;
+  /** A deposit is at risk once its bucket is at most this many buckets above the reference price's bucket, or below it. */
+  riskOffset: number;
+  /** Deposits at risk are moved to this many buckets above the reference price's bucket. Must be above riskOffset. */
+  targetOffset: number;
+  /** Will only move deposits of at least this much quote token. */
+  minAmount?: number;
+}
 
 export interface SettlementConfig {
   enabled: boolean;
@@ -188,6 +263,8 @@ export interface PoolConfig {
   name: string;
   address: Address;
   price: PriceOrigin;
+  /** `erc721` for pools with NFT collateral, either subset or collection pools. Defaults to `erc20`. */
+  collateralType?: CollateralType;
   /** Will only kick if settings are provided. */
   kick?: KickSettings;
   /** Will only take if settings are provided. */
@@ -200,6 +277,14 @@ export interface PoolConfig {
   collectLpReward?: CollectLpRewardSettings;
   /** Will do settlement if settings are provided. */
   settlement?: SettlementConfig;
+  /** Will kick and take reserve auctions if settings are provided. */
+  reserveAuction?: ReserveAuctionSettings;
+  /** Will call updateInterest when the pool's rate is stale if settings are provided. */
+  updateInterest?: UpdateInterestSettings;
+  /** Will keep the listed borrowers' loans from becoming kickable if settings are provided. */
+  borrowerProtection?: BorrowerProtectionSettings;
+  /** Will move the keeper's deposits away from LUP or HTP if settings are provided. */
+  lenderGuard?: LenderGuardSettings;
 }
 
 export interface UniswapV3Overrides {
@@ -246,15 +331,69 @@ export interface CurveRouterOverrides {
   wethAddress?: string; 
 }
 
+export interface SubgraphFallbackSettings {
+  /** Switch to on-chain discovery when the subgraph's indexed block is more than this many blocks behind the RPC head. */
+  maxLagBlocks: number;
+  /** Block to start scanning pool events from. Borrowers who last drew debt before this block are not found. */
+  fromBlock: number;
+}
+
+export interface RpcFailoverSettings {
+  /** More RPC urls for the same chain, tried in order when `ethRpcUrl` fails or is rate limited. */
+  fallbackUrls: string[];
+  /** How many endpoints must return the same auction status or loan info before it is used. Defaults to 1. */
+  quorum?: number;
+  /** If true, transactions are sent to every endpoint at once instead of only the one in use. */
+  broadcastTransactions?: boolean;
+}
+
+export interface StuckTransactionSettings {
+  /** Seconds to wait for a transaction to be mined before resending it with higher fees. */
+  timeoutSeconds: number;
+  /** Percent added to the fees with each resend. Nodes need at least 10 to accept a replacement. Defaults to 20. */
+  bumpPercent?: number;
+  /** Resends with higher fees before the transaction is cancelled with a zero-value transfer to self. Defaults to 3. */
+  maxBumps?: number;
+}
+
+/** Kinds of transactions with their own gas price ceiling. */
+export type GasAction =
+  | 'kick'
+  | 'take'
+  | 'settle'
+  | 'reserveAuction'
+  | 'updateInterest'
+  | 'borrowerProtection'
+  | 'lenderGuard'
+  | 'lpRedeem'
+  | 'rewardSwap';
+
+export interface GasPolicySettings {
+  /** Highest gas price in gwei paid on this chain. Fees are capped to it, and actions wait while the network price is above it. */
+  maxGasPriceGwei?: number;
+  /** Ceilings in gwei by action, used in place of `maxGasPriceGwei`, even above it. An action waits while the network gas price is above its ceiling, and its transactions' fees are capped at it. */
+  actionMaxGasPriceGwei?: { [action in GasAction]?: number };
+  /** Native token which may be spent on gas per UTC day. Once spent, LP redemptions and reward swaps wait for the next day. */
+  dailyBudget?: number;
+}
+
 export interface KeeperConfig {
   /** The url of RPC endpoint. Should include API key. example: https://avax-mainnet.g.alchemy.com/v2/asf... */
   ethRpcUrl: string;
+  /** If set, requests fail over between `ethRpcUrl` and these endpoints. */
+  rpcFailover?: RpcFailoverSettings;
   /** The log level of the keeper. */
   logLevel: string;
-  /** The url of the subgraph. */
-  subgraphUrl: string;
+  /** The url of the subgraph, or a list of urls serving the same subgraph to fail over between. */
+  subgraphUrl: string | string[];
+  /** If set, borrowers and auctions are found from pool events while the subgraph is down or lagging. */
+  subgraphFallback?: SubgraphFallbackSettings;
   /** Path to encrypted keystore json file. See README for instructions on how to create this file.*/
   keeperKeystore: string;
+  /** If set, transactions which are not mined in time are resent with higher fees, then cancelled. */
+  stuckTransactions?: StuckTransactionSettings;
+  /** Gas price ceilings and a daily gas budget. Gas prices are not limited if unset. */
+  gasPolicy?: GasPolicySettings;
   /** Contract used for atomically taking liquidations with external liquidity */
   keeperTaker?: string;
   /** NEW: Factory contract for routing to multiple taker implementations */
@@ -281,6 +420,16 @@ export interface KeeperConfig {
   delayBetweenActions: number;
   /** The time between each run of the Kick and ArbTake loops. */
   delayBetweenRuns: number;
+  /** If set, serves /healthz, /status and /pools over HTTP on this port. */
+  statusServerPort?: number;
+  /** Seconds to wait on SIGTERM/SIGINT for loops and in-flight transactions to finish before forcing exit. Defaults to 60. */
+  shutdownTimeout?: number;
+  /** If set, appends every confirmed keeper action to this JSON-lines file for the `report` command. */
+  ledgerFile?: string;
+  /** Directory where state which must survive restarts, such as uncollected LP rewards, is kept. Not persisted if unset. */
+  stateDir?: string;
+  /** Reload pool settings when the config file changes, without restarting. Defaults to true. */
+  watchConfig?: boolean;
   /** 1inch list of routers */
   oneInchRouters?: { [chainId: number]: string };
   /** List of token addresses */
@@ -326,40 +475,46 @@ export function validatePostAuctionDex(dexProvider: PostAuctionDex, config: Keep
 
 export async function readConfigFile(filePath: string): Promise<KeeperConfig> {
   try {
-    if (filePath.endsWith('.ts')) {
-      // FIXME: this prevents users from reading config files from other folders
-      const imported = await import('../' + filePath);
-      const config = imported.default;
-      // await validateUniswapAddresses(config);
-      return config;
-    } else {
-      const absolutePath = path.resolve(filePath);
-      const fileContents = await fs.readFile(absolutePath, 'utf-8');
-      const parsedFile = JSON.parse(fileContents);
-      assertIsValidConfig(parsedFile);
-      // await validateUniswapAddresses(parsedFile);
-      return parsedFile;
-    }
+    return await importConfigFile(filePath);
   } catch (error) {
     logger.error('Error reading config file:', error);
     process.exit(1);
   }
 }
 
+/**
+ * Loads a config file, throwing if it cannot be read. `.ts` configs are
+ * evicted from the module cache first, so each call sees the latest version.
+ */
+export async function importConfigFile(filePath: string): Promise<KeeperConfig> {
+  if (filePath.endsWith('.ts')) {
+    // FIXME: this prevents users from reading config files from other folders
+    const modulePath = '../' + filePath;
+    delete require.cache[require.resolve(modulePath)];
+    const imported = await import(modulePath);
+    const config = imported.default;
+    assertIsValidConfig(config);
+    // await validateUniswapAddresses(config);
+    return config;
+  } else {
+    const absolutePath = path.resolve(filePath);
+    const fileContents = await fs.readFile(absolutePath, 'utf-8');
+    const parsedFile = JSON.parse(fileContents);
+    assertIsValidConfig(parsedFile);
+    // await validateUniswapAddresses(parsedFile);
+    return parsedFile;
+  }
+}
+
+/**
+ * Throws a ConfigValidationError listing every problem with the config.
+ */
 export function assertIsValidConfig(
   config: Partial<KeeperConfig>
 ): asserts config is KeeperConfig {
-  expectProperty(config, 'ethRpcUrl');
-  expectProperty(config, 'subgraphUrl');
-  expectProperty(config, 'keeperKeystore');
-  expectProperty(config, 'ajna');
-  // coinGeckoApiKey is now optional - will fallback to Alchemy Prices API
-  expectProperty(config, 'pools');
-}
-
-function expectProperty<T, K extends keyof T>(config: T, key: K): void {
-  if (!(config as Object).hasOwnProperty(key)) {
-    throw new Error(`Missing ${String(key)} key from config`);
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
   }
 }
 
@@ -398,15 +553,24 @@ export function configureAjna(ajnaConfig: AjnaConfigParams): void {
 // }
 
 
-export function validateTakeSettings(config: TakeSettings, keeperConfig: KeeperConfig): void {
+export function validateTakeSettings(
+  config: TakeSettings,
+  keeperConfig: KeeperConfig,
+  collateralType: CollateralType = CollateralType.ERC20
+): void {
+  const isErc721 = collateralType === CollateralType.ERC721;
+  if (isErc721 && config.liquiditySource !== undefined) {
+    throw new Error('TakeSettings: liquiditySource is not supported in ERC721 pools, NFTs are taken with the keeper\'s quote token');
+  }
+
   const hasArbTake = config.minCollateral !== undefined && config.hpbPriceFactor !== undefined;
-  const hasTake = config.liquiditySource !== undefined && config.marketPriceFactor !== undefined;
+  const hasTake = (isErc721 || config.liquiditySource !== undefined) && config.marketPriceFactor !== undefined;
 
   if (!hasArbTake && !hasTake) {
     throw new Error('TakeSettings: Must configure arbTake (minCollateral, hpbPriceFactor) or take (liquiditySource, marketPriceFactor)');
   }
 
-  if (hasTake) {
+  if (hasTake && !isErc721) {
     // Fix 1: Proper validation for multiple DEX sources
     if (config.liquiditySource === LiquiditySource.NONE) {
       throw new Error('TakeSettings: liquiditySource cannot be NONE');
@@ -470,4 +634,8 @@ export function validateTakeSettings(config: TakeSettings, keeperConfig: KeeperC
       throw new Error('TakeSettings: hpbPriceFactor must be positive');
     }
   }
+
+  if (config.minProfitUsd !== undefined && !config.quoteUsdPrice) {
+    throw new Error('TakeSettings: quoteUsdPrice required when minProfitUsd is set');
+  }
 }
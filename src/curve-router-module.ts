@@ -3,6 +3,7 @@
 import { Contract, BigNumber, Signer, providers, ethers } from 'ethers';
 import { logger } from './logging';
 import { NonceTracker } from './nonce';
+import { preflight } from './preflight';
 import { weiToDecimaled } from './utils';
 import { getTokenFromAddress } from './uniswap';
 import { CurvePoolType } from './config-types';
@@ -146,6 +147,9 @@ export async function swapWithCurveRouter(
     if (currentAllowance.lt(amount)) {
       logger.info(`Approving Curve pool to spend ${tokenToSwap.symbol}`);
       await NonceTracker.queueTransaction(signer, async (nonce) => {
+        await preflight('approve', tokenAddress, () =>
+          tokenContract.callStatic.approve(poolAddress, ethers.constants.MaxUint256)
+        );
         const approveTx = await tokenContract.approve(poolAddress, ethers.constants.MaxUint256, { nonce });
         logger.info(`Curve approval transaction sent: ${approveTx.hash}`);
         const receipt = await approveTx.wait();
@@ -166,6 +170,11 @@ export async function swapWithCurveRouter(
 
     // Execute swap using NonceTracker (same pattern as SushiSwap)
     const receipt = await NonceTracker.queueTransaction(signer, async (nonce) => {
+      await preflight('swap', `Curve pool ${poolAddress}`, () =>
+        poolType === CurvePoolType.STABLE
+          ? poolContract.callStatic.exchange(tokenInIndex, tokenOutIndex, amount, minAmountOutWithSlippage)
+          : poolContract.callStatic.exchange(tokenInIndex, tokenOutIndex, amount, minAmountOutWithSlippage, false, signerAddress)
+      );
       let swapTx;
       
       if (poolType === CurvePoolType.STABLE) {
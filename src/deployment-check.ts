@@ -0,0 +1,260 @@
+import { Contract, providers, VoidSigner, Wallet } from 'ethers';
+import { promises as fs } from 'fs';
+import {
+  CollateralType,
+  CurvePoolType,
+  KeeperConfig,
+  LiquiditySource,
+} from './config-types';
+import { getDecimalsErc20 } from './erc20';
+import { SmartDexManager } from './smart-dex-manager';
+
+const CURVE_COINS_ABI = [
+  'function coins(uint256 i) external view returns (address)',
+];
+const V3_FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)',
+];
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+/** Curve pools hold at most 8 coins. */
+const MAX_CURVE_COINS = 8;
+
+export interface CheckResult {
+  /** What was checked, e.g. `pool WETH/USDC` or `keystore`. */
+  check: string;
+  ok: boolean;
+  detail: string;
+}
+
+/** The parts of an Ajna pool the checks need. */
+export interface LoadedPool {
+  collateralAddress: string;
+  quoteAddress: string;
+}
+
+export interface DeploymentCheckParams {
+  config: KeeperConfig;
+  provider: providers.Provider;
+  /** Resolves a pool address, e.g. with `loadPool`. */
+  getPool: (
+    address: string,
+    collateralType?: CollateralType
+  ) => Promise<LoadedPool>;
+  /** Asks for the keystore password. The keystore is not checked if omitted. */
+  getPassword?: () => Promise<string>;
+}
+
+/**
+ * Checks the config against the chain it points at: pools resolve, takers are
+ * registered, DEX pools exist and the keystore decrypts. Checks never throw,
+ * failures are reported in the results.
+ */
+export async function checkDeployment({
+  config,
+  provider,
+  getPool,
+  getPassword,
+}: DeploymentCheckParams): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  const loadedPools = new Map<string, LoadedPool>();
+
+  for (const poolConfig of config.pools) {
+    const check = `pool ${poolConfig.name} (${poolConfig.address})`;
+    const result = await runCheck(check, async () => {
+      const pool = await getPool(
+        poolConfig.address,
+        poolConfig.collateralType
+      );
+      loadedPools.set(poolConfig.address, pool);
+      const quoteDecimals = await getDecimalsErc20(provider, pool.quoteAddress);
+      if (poolConfig.collateralType === CollateralType.ERC721) {
+        return `NFT collateral ${pool.collateralAddress}, quote ${pool.quoteAddress} (${quoteDecimals} decimals)`;
+      }
+      const collateralDecimals = await getDecimalsErc20(
+        provider,
+        pool.collateralAddress
+      );
+      return `collateral ${pool.collateralAddress} (${collateralDecimals} decimals), quote ${pool.quoteAddress} (${quoteDecimals} decimals)`;
+    });
+    results.push(result);
+  }
+
+  results.push(await checkTakers(config, provider));
+  results.push(...(await checkCurvePools(config, provider)));
+  results.push(...(await checkV3Pools(config, provider, loadedPools)));
+
+  if (getPassword) {
+    results.push(await checkKeystore(config.keeperKeystore, getPassword));
+  }
+  return results;
+}
+
+async function runCheck(
+  check: string,
+  fn: () => Promise<string>
+): Promise<CheckResult> {
+  try {
+    return { check, ok: true, detail: await fn() };
+  } catch (error: any) {
+    return {
+      check,
+      ok: false,
+      detail: error?.reason ?? error?.message ?? String(error),
+    };
+  }
+}
+
+async function checkTakers(
+  config: KeeperConfig,
+  provider: providers.Provider
+): Promise<CheckResult> {
+  return runCheck('taker contracts', async () => {
+    const manager = new SmartDexManager(
+      new VoidSigner(ZERO_ADDRESS, provider),
+      config
+    );
+    const deploymentType = await manager.detectDeploymentType();
+    const { valid, errors } = await manager.validateDeploymentOnChain(provider);
+    if (!valid) throw new Error(errors.join('; '));
+    return `${deploymentType} deployment`;
+  });
+}
+
+/**
+ * Each `poolConfigs` key names two tokens from `tokenAddresses`, e.g.
+ * `usdc-usdt`, both of which must be coins of the configured pool.
+ */
+async function checkCurvePools(
+  config: KeeperConfig,
+  provider: providers.Provider
+): Promise<CheckResult[]> {
+  const poolConfigs = config.curveRouterOverrides?.poolConfigs ?? {};
+  const results: CheckResult[] = [];
+  for (const [pair, { address, poolType }] of Object.entries(poolConfigs)) {
+    const result = await runCheck(
+      `curve pool ${pair} (${address})`,
+      async () => {
+        const tokens = pair.split('-').map((symbol) => {
+          const tokenAddress = config.tokenAddresses?.[symbol];
+          if (!tokenAddress)
+            throw new Error(`${symbol} is missing from tokenAddresses`);
+          return { symbol, tokenAddress };
+        });
+        const coins = await getCurveCoins(address, provider);
+        const missing = tokens.filter(
+          ({ tokenAddress }) => !coins.includes(tokenAddress.toLowerCase())
+        );
+        if (missing.length > 0) {
+          throw new Error(
+            `pool does not hold ${missing.map(({ symbol }) => symbol).join(', ')}, its coins are ${coins.join(', ') || 'none'}`
+          );
+        }
+        return `${poolType === CurvePoolType.STABLE ? 'stable' : 'crypto'} pool with ${coins.length} coins`;
+      }
+    );
+    results.push(result);
+  }
+  return results;
+}
+
+async function getCurveCoins(
+  address: string,
+  provider: providers.Provider
+): Promise<string[]> {
+  const pool = new Contract(address, CURVE_COINS_ABI, provider);
+  const coins: string[] = [];
+  for (let i = 0; i < MAX_CURVE_COINS; i++) {
+    try {
+      const coin: string = await pool.coins(i);
+      coins.push(coin.toLowerCase());
+    } catch (error) {
+      break; // No more coins in pool
+    }
+  }
+  return coins;
+}
+
+/**
+ * Pools taking with Uniswap V3 or SushiSwap need a DEX pool for their
+ * collateral and quote tokens at the configured fee tier.
+ */
+async function checkV3Pools(
+  config: KeeperConfig,
+  provider: providers.Provider,
+  loadedPools: Map<string, LoadedPool>
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  for (const poolConfig of config.pools) {
+    const pool = loadedPools.get(poolConfig.address);
+    const source = poolConfig.take?.liquiditySource;
+    if (!pool) continue;
+    let dex: { name: string; factoryAddress?: string; feeTier: number };
+    if (source === LiquiditySource.UNISWAPV3) {
+      dex = {
+        name: 'uniswap',
+        factoryAddress: config.universalRouterOverrides?.poolFactoryAddress,
+        feeTier: config.universalRouterOverrides?.defaultFeeTier || 3000,
+      };
+    } else if (source === LiquiditySource.SUSHISWAP) {
+      dex = {
+        name: 'sushiswap',
+        factoryAddress: config.sushiswapRouterOverrides?.factoryAddress,
+        feeTier: config.sushiswapRouterOverrides?.defaultFeeTier || 500,
+      };
+    } else {
+      continue;
+    }
+    const result = await runCheck(
+      `${dex.name} pool for ${poolConfig.name}`,
+      async () => {
+        if (!dex.factoryAddress)
+          throw new Error(`no ${dex.name} factory address is configured`);
+        const factory = new Contract(
+          dex.factoryAddress,
+          V3_FACTORY_ABI,
+          provider
+        );
+        const address: string = await factory.getPool(
+          pool.collateralAddress,
+          pool.quoteAddress,
+          dex.feeTier
+        );
+        if (address === ZERO_ADDRESS) {
+          throw new Error(
+            `no pool for ${pool.collateralAddress}/${pool.quoteAddress} at fee tier ${dex.feeTier}`
+          );
+        }
+        return `${address} at fee tier ${dex.feeTier}`;
+      }
+    );
+    results.push(result);
+  }
+  return results;
+}
+
+async function checkKeystore(
+  keystorePath: string,
+  getPassword: () => Promise<string>
+): Promise<CheckResult> {
+  return runCheck(`keystore ${keystorePath}`, async () => {
+    const json = await fs.readFile(keystorePath, 'utf-8');
+    const wallet = Wallet.fromEncryptedJsonSync(json, await getPassword());
+    return `decrypts to ${wallet.address}`;
+  });
+}
+
+/**
+ * Renders check results as plain text, one line per check.
+ */
+export function formatCheckResults(results: CheckResult[]): string {
+  const failures = results.filter(({ ok }) => !ok).length;
+  return [
+    ...results.map(
+      ({ check, ok, detail }) => `${ok ? 'OK  ' : 'FAIL'} ${check}: ${detail}`
+    ),
+    '',
+    failures === 0
+      ? `All ${results.length} checks passed.`
+      : `${failures} of ${results.length} checks failed.`,
+  ].join('\n');
+}
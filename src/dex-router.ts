@@ -10,6 +10,8 @@ import { swapWithUniversalRouter } from './universal-router-module';
 import { swapWithSushiswapRouter } from './sushiswap-router-module';
 import { swapWithCurveRouter } from './curve-router-module';
 import { NonceTracker } from './nonce';
+import { preflight } from './preflight';
+import { recordSwap } from './metrics';
 import { PostAuctionDex, CurvePoolType } from './config-types';
 
 export class DexRouter {
@@ -222,12 +224,14 @@ export class DexRouter {
         const provider = this.signer.provider as providers.Provider;
         let gasEstimate;
         try {
-          gasEstimate = await provider.estimateGas({
-            to: tx.to,
-            data: tx.data,
-            value: tx.value || '0',
-            from: fromAddress,
-          });
+          gasEstimate = await preflight('swap', '1inch', () =>
+            provider.estimateGas({
+              to: tx.to,
+              data: tx.data,
+              value: tx.value || '0',
+              from: fromAddress,
+            })
+          );
           tx.gasLimit = gasEstimate.add(gasEstimate.div(10));
         } catch (gasError) {
           logger.error(`Failed to estimate gas: ${gasError}`);
@@ -409,6 +413,15 @@ export class DexRouter {
   }
 
   public async swap(
+    ...args: Parameters<DexRouter['swapWithProvider']>
+  ): Promise<{ success: boolean; error?: string }> {
+    const result = await this.swapWithProvider(...args);
+    const dexProvider = args[5];
+    recordSwap(dexProvider, result.success);
+    return result;
+  }
+
+  private async swapWithProvider(
     chainId: number,
     amount: BigNumber,
     tokenIn: string,
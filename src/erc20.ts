@@ -4,6 +4,7 @@ import Erc20Abi from './abis/erc20.abi.json';
 import { NonceTracker } from './nonce';
 import { TransactionResponse } from '@ethersproject/abstract-provider';
 import { logger } from './logging';
+import { preflight } from './preflight';
 
 // TODO: Remove caching. This performance improvement is not worth the complexity.
 const cachedDecimals: Map<string, number> = new Map(); // Map of address to int decimals.
@@ -56,6 +57,9 @@ export async function approveErc20(
   return await NonceTracker.queueTransaction(signer, async (nonce: number) => {
     const contractUnconnected = new Contract(tokenAddress, Erc20Abi, signer);
     const contract = contractUnconnected.connect(signer);
+    await preflight('approve', tokenAddress, () =>
+      contract.callStatic.approve(allowedAddress, amount)
+    );
     const tx = await contract.approve(allowedAddress, amount, { nonce: nonce.toString() });
     const receipt = await tx.wait();
     logger.info(`Approved token ${tokenAddress} for ${allowedAddress} | tx: ${receipt.transactionHash}`);
@@ -73,6 +77,9 @@ export async function transferErc20(
   return await NonceTracker.queueTransaction(signer, async (nonce: number) => {
     const contractUnconnected = new Contract(tokenAddress, Erc20Abi, signer);
     const contract = contractUnconnected.connect(signer);
+    await preflight('transfer', tokenAddress, () =>
+      contract.callStatic.transfer(recipient, amount)
+    );
     const tx = await contract.transfer(recipient, amount, {
       nonce: nonce.toString()
     });
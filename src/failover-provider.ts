@@ -0,0 +1,257 @@
+import { BigNumber, providers, utils } from 'ethers';
+import { RpcFailoverSettings } from './config-types';
+import { logger } from './logging';
+import { rpcDuration, timed } from './metrics';
+import { JsonRpcProvider } from './provider';
+
+/** How long a failed endpoint is passed over before it is tried again. */
+const RETRY_AFTER_MS = 30_000;
+
+/** Requests taking longer than this count as failed. */
+const REQUEST_TIMEOUT_MS = 30_000;
+
+/** JSON-RPC error codes which nodes return for rate limits and overload. */
+const RATE_LIMIT_CODES = new Set([-32005, -32029, 429]);
+
+/**
+ * Reads which decide whether to kick or take: auction status and loan info,
+ * from PoolInfoUtils and from the pool itself.
+ */
+const QUORUM_SELECTORS = new Set(
+  [
+    'auctionStatus(address,address)',
+    'borrowerInfo(address,address)',
+    'auctionInfo(address)',
+    'borrowerInfo(address)',
+  ].map((signature) => utils.id(signature).slice(0, 10))
+);
+
+interface RpcEndpoint {
+  name: string;
+  provider: providers.JsonRpcProvider;
+  unhealthyUntil: number;
+}
+
+/**
+ * True if the endpoint, rather than the request, is at fault: no response,
+ * a timeout, an HTTP error or a rate limit. JSON-RPC errors such as reverts
+ * would fail on every endpoint, so they are not.
+ */
+function isEndpointFailure(error: any): boolean {
+  // ethers wraps JSON-RPC error responses in a "processing response error".
+  const rpcError = error?.error ?? error;
+  if (typeof rpcError?.code !== 'number') return true;
+  return (
+    RATE_LIMIT_CODES.has(rpcError.code) ||
+    /rate limit|too many requests/i.test(rpcError.message ?? '')
+  );
+}
+
+/** Short description of an error, without the request url, which may contain an API key. */
+function describeError(error: any): string {
+  const cause = error?.error ?? error;
+  return cause?.reason ?? cause?.message ?? String(cause);
+}
+
+function describeUrl(url: string, i: number): string {
+  try {
+    return `#${i + 1} (${new URL(url).host})`;
+  } catch (error) {
+    return `#${i + 1}`;
+  }
+}
+
+/**
+ * Sends requests to the first healthy of several endpoints for the same chain,
+ * failing over to the next one on errors and rate limits. Auction status and
+ * loan reads can require a quorum of endpoints to agree, and transactions can
+ * be broadcast to every endpoint.
+ */
+export class FailoverJsonRpcProvider extends JsonRpcProvider {
+  private endpoints: RpcEndpoint[];
+  private current?: RpcEndpoint;
+  private quorum: number;
+
+  constructor(
+    urls: string[],
+    private settings: Pick<
+      RpcFailoverSettings,
+      'quorum' | 'broadcastTransactions'
+    > = {}
+  ) {
+    super(urls[0]);
+    this.endpoints = urls.map((url, i) => ({
+      name: describeUrl(url, i),
+      provider: new providers.JsonRpcProvider({
+        url,
+        timeout: REQUEST_TIMEOUT_MS,
+        // Fail over on a rate limit instead of backing off on the same endpoint.
+        throttleLimit: 1,
+      }),
+      unhealthyUntil: 0,
+    }));
+    this.quorum = Math.min(settings.quorum ?? 1, urls.length);
+  }
+
+  async send(method: string, params: Array<any>): Promise<any> {
+    return timed(rpcDuration, { method }, () => {
+      if (
+        method === 'eth_sendRawTransaction' &&
+        this.settings.broadcastTransactions
+      ) {
+        return this.broadcast(params);
+      }
+      if (method === 'eth_call' && this.quorum > 1 && isQuorumRead(params)) {
+        return this.sendWithQuorum(method, params);
+      }
+      return this.sendWithFailover(method, params);
+    });
+  }
+
+  /** Healthy endpoints in config order, then the others as a last resort. */
+  private ordered(): RpcEndpoint[] {
+    const now = Date.now();
+    const healthy = this.endpoints.filter(
+      (endpoint) => endpoint.unhealthyUntil <= now
+    );
+    const unhealthy = this.endpoints
+      .filter((endpoint) => endpoint.unhealthyUntil > now)
+      .sort((a, b) => a.unhealthyUntil - b.unhealthyUntil);
+    return [...healthy, ...unhealthy];
+  }
+
+  private async sendWithFailover(method: string, params: Array<any>) {
+    let lastError: unknown;
+    for (const endpoint of this.ordered()) {
+      try {
+        const result = await endpoint.provider.send(method, params);
+        this.use(endpoint);
+        return result;
+      } catch (error) {
+        if (!isEndpointFailure(error)) throw error;
+        this.markUnhealthy(endpoint, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Asks as many endpoints as are needed for `quorum` of them to return the
+   * same result, one more for each that disagrees. Calls at `latest` are
+   * pinned to one block first: auction prices change with every block, so
+   * endpoints a block apart would never agree.
+   */
+  private async sendWithQuorum(method: string, params: Array<any>) {
+    const endpoints = this.ordered();
+    const [call, blockTag = 'latest'] = params;
+    if (blockTag === 'latest') {
+      const blockNumber = await this.getQuorumBlock(
+        endpoints.slice(0, this.quorum)
+      );
+      params = [call, utils.hexValue(blockNumber)];
+    }
+    const votes = new Map<string, { result: any; count: number }>();
+    let lastError: unknown;
+    let asked = 0;
+    while (asked < endpoints.length) {
+      const agreeing = Math.max(
+        0,
+        ...Array.from(votes.values()).map(({ count }) => count)
+      );
+      const batch = endpoints.slice(asked, asked + this.quorum - agreeing);
+      asked += batch.length;
+      const results = await Promise.all(
+        batch.map((endpoint) =>
+          endpoint.provider.send(method, params).then(
+            (result) => ({ result }),
+            (error) => {
+              if (!isEndpointFailure(error)) throw error;
+              this.markUnhealthy(endpoint, error);
+              lastError = error;
+              return undefined;
+            }
+          )
+        )
+      );
+      for (const answer of results) {
+        if (!answer) continue;
+        const key = JSON.stringify(answer.result);
+        const vote = votes.get(key) ?? { result: answer.result, count: 0 };
+        vote.count += 1;
+        votes.set(key, vote);
+        if (vote.count >= this.quorum) return vote.result;
+      }
+    }
+    if (votes.size === 0) throw lastError;
+    throw new Error(
+      `RPC endpoints disagree on ${method}, no result was returned by ${this.quorum} of them`
+    );
+  }
+
+  /**
+   * The lowest head of `endpoints`, so none of them is asked for a block it
+   * has not seen yet. Falls back to the endpoint in use if none answers.
+   */
+  private async getQuorumBlock(endpoints: RpcEndpoint[]): Promise<number> {
+    const heads = await Promise.all(
+      endpoints.map((endpoint) =>
+        endpoint.provider.send('eth_blockNumber', []).then(
+          (head: string) => BigNumber.from(head).toNumber(),
+          (error) => {
+            this.markUnhealthy(endpoint, error);
+            return undefined;
+          }
+        )
+      )
+    );
+    const answered = heads.filter((head): head is number => head !== undefined);
+    if (answered.length > 0) return Math.min(...answered);
+    const head = await this.sendWithFailover('eth_blockNumber', []);
+    return BigNumber.from(head).toNumber();
+  }
+
+  /** Sends a signed transaction to every endpoint, succeeding if any accepts it. */
+  private async broadcast(params: Array<any>) {
+    const endpoints = this.ordered();
+    const outcomes = await Promise.all(
+      endpoints.map((endpoint) =>
+        endpoint.provider.send('eth_sendRawTransaction', params).then(
+          (result) => ({ endpoint, result, error: undefined }),
+          (error) => ({ endpoint, result: undefined, error })
+        )
+      )
+    );
+    for (const { endpoint, error } of outcomes) {
+      if (error && isEndpointFailure(error)) {
+        this.markUnhealthy(endpoint, error);
+      }
+    }
+    const accepted = outcomes.find(({ error }) => !error);
+    if (!accepted) throw outcomes[0].error;
+    this.use(accepted.endpoint);
+    return accepted.result;
+  }
+
+  private markUnhealthy(endpoint: RpcEndpoint, error: unknown) {
+    logger.warn(
+      `RPC endpoint ${endpoint.name} failed, passing it over for ${RETRY_AFTER_MS / 1000}s: ${describeError(error)}`
+    );
+    endpoint.unhealthyUntil = Date.now() + RETRY_AFTER_MS;
+  }
+
+  private use(endpoint: RpcEndpoint) {
+    endpoint.unhealthyUntil = 0;
+    if (this.current !== endpoint) {
+      if (this.current) {
+        logger.info(`Using RPC endpoint ${endpoint.name}`);
+      }
+      this.current = endpoint;
+    }
+  }
+}
+
+function isQuorumRead(params: Array<any>): boolean {
+  const data = params[0]?.data;
+  return typeof data === 'string' && QUORUM_SELECTORS.has(data.slice(0, 10));
+}
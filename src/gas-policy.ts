@@ -0,0 +1,190 @@
+import { BigNumber, providers, Signer, utils } from 'ethers';
+import path from 'path';
+import { GasAction, GasPolicySettings, KeeperConfig } from './config-types';
+import { logger } from './logging';
+import { getGasCost } from './metrics';
+import { JsonStateStore } from './state-store';
+
+/** Actions paused once the daily gas budget is spent. */
+const NON_CRITICAL_ACTIONS: GasAction[] = ['lpRedeem', 'rewardSwap'];
+
+interface GasBudgetState {
+  /** UTC day, YYYY-MM-DD. */
+  day: string;
+  /** Native token spent on gas that day. */
+  spent: number;
+}
+
+export interface GasBudgetStatus extends GasBudgetState {
+  budget: number;
+}
+
+type FeeFields = {
+  gasPrice?: BigNumber | null;
+  maxFeePerGas?: BigNumber | null;
+  maxPriorityFeePerGas?: BigNumber | null;
+};
+
+let policy: GasPolicySettings = {};
+let budgetState: GasBudgetState = { day: today(), spent: 0 };
+let store: JsonStateStore<GasBudgetState> | undefined;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function gweiToWei(gwei: number): BigNumber {
+  return utils.parseUnits(gwei.toFixed(9), 'gwei');
+}
+
+function min(a: BigNumber, b: BigNumber): BigNumber {
+  return a.lt(b) ? a : b;
+}
+
+/**
+ * Applies `gasPolicy`, and restores today's gas spend from `stateDir` if set.
+ * Without a policy, fees are not capped and no action is deferred.
+ */
+export async function configureGasPolicy(
+  config: Pick<KeeperConfig, 'gasPolicy' | 'stateDir'>,
+  chainId: number
+) {
+  policy = config.gasPolicy ?? {};
+  budgetState = { day: today(), spent: 0 };
+  store =
+    config.stateDir && policy.dailyBudget !== undefined
+      ? new JsonStateStore(
+          path.join(config.stateDir, `gas-budget-${chainId}.json`)
+        )
+      : undefined;
+  const saved = await store?.load();
+  if (saved?.day === budgetState.day) {
+    budgetState = saved;
+  }
+  if (config.gasPolicy) {
+    logger.info(
+      `Gas policy: max gas price ${policy.maxGasPriceGwei ?? 'unlimited'} gwei, daily budget ${policy.dailyBudget ?? 'unlimited'}, spent today ${budgetState.spent}`
+    );
+  }
+}
+
+/**
+ * Caps the gas price and max fee at the ceiling of `action`, or at the
+ * chain's `maxGasPriceGwei` for transactions of no known action, and the
+ * priority fee at the max fee.
+ */
+export function capFeeData<T extends FeeFields>(
+  feeData: T,
+  action?: GasAction
+): T {
+  const ceiling = getCeiling(action);
+  if (!ceiling) return feeData;
+  const capped = { ...feeData };
+  if (capped.gasPrice) capped.gasPrice = min(capped.gasPrice, ceiling);
+  if (capped.maxFeePerGas) {
+    capped.maxFeePerGas = min(capped.maxFeePerGas, ceiling);
+    if (capped.maxPriorityFeePerGas) {
+      capped.maxPriorityFeePerGas = min(
+        capped.maxPriorityFeePerGas,
+        capped.maxFeePerGas
+      );
+    }
+  }
+  return capped;
+}
+
+/**
+ * The action's gas price ceiling in wei if it has one, else the chain's, if
+ * any. An action's own ceiling wins even above the chain's, so actions such
+ * as `borrowerProtection` can be kept running through a fee spike. Used both
+ * to defer the action and to cap its fees, so the two always agree.
+ */
+function getCeiling(action?: GasAction): BigNumber | undefined {
+  const gwei =
+    (action && policy.actionMaxGasPriceGwei?.[action]) ??
+    policy.maxGasPriceGwei;
+  return gwei === undefined ? undefined : gweiToWei(gwei);
+}
+
+/**
+ * Whether `action` should be skipped this run: because the network gas price
+ * is above its ceiling, or because it is non-critical and the daily gas
+ * budget is spent. If the gas price cannot be read the action goes ahead.
+ */
+export async function shouldDeferForGas(
+  action: GasAction,
+  signer: Signer
+): Promise<boolean> {
+  if (
+    NON_CRITICAL_ACTIONS.includes(action) &&
+    policy.dailyBudget !== undefined &&
+    getSpentToday() >= policy.dailyBudget
+  ) {
+    logger.info(
+      `Deferring ${action}: daily gas budget of ${policy.dailyBudget} is spent`
+    );
+    return true;
+  }
+
+  const ceiling = getCeiling(action);
+  if (!ceiling) return false;
+  let gasPrice: BigNumber;
+  try {
+    gasPrice = await signer.getGasPrice();
+  } catch (error) {
+    logger.warn(`Could not read gas price before ${action}:`, error);
+    return false;
+  }
+  if (gasPrice.gt(ceiling)) {
+    logger.info(
+      `Deferring ${action}: gas price ${utils.formatUnits(gasPrice, 'gwei')} gwei is above its ceiling of ${utils.formatUnits(ceiling, 'gwei')} gwei`
+    );
+    return true;
+  }
+  return false;
+}
+
+function getSpentToday(): number {
+  if (budgetState.day !== today()) {
+    budgetState = { day: today(), spent: 0 };
+  }
+  return budgetState.spent;
+}
+
+/** Adds the gas paid by `receipt` to today's spend. */
+export function recordGasSpend(receipt?: providers.TransactionReceipt) {
+  if (!receipt) return;
+  const gasCost = getGasCost(receipt);
+  if (gasCost === undefined) return;
+  budgetState = { day: today(), spent: getSpentToday() + gasCost };
+  store?.saveInBackground(budgetState);
+}
+
+/** Today's gas spend against the daily budget, or undefined without a budget. */
+export function getGasBudgetStatus(): GasBudgetStatus | undefined {
+  if (policy.dailyBudget === undefined) return undefined;
+  return { day: today(), spent: getSpentToday(), budget: policy.dailyBudget };
+}
+
+/**
+ * Adds the gas of every transaction `signer` sends to today's spend once it
+ * is mined, including transactions which reverted or were cancelled.
+ */
+export function trackGasSpend(signer: Signer): void {
+  const sendTransaction = signer.sendTransaction.bind(signer);
+  signer.sendTransaction = async (transaction) => {
+    const tx = await sendTransaction(transaction);
+    const wait = tx.wait.bind(tx);
+    tx.wait = async (confirmations?: number) => {
+      try {
+        const receipt = await wait(confirmations);
+        recordGasSpend(receipt);
+        return receipt;
+      } catch (error: any) {
+        recordGasSpend(error?.receipt);
+        throw error;
+      }
+    };
+    return tx;
+  };
+}
@@ -0,0 +1,116 @@
+import { Stats, unwatchFile, watchFile } from 'fs';
+import path from 'path';
+import { importConfigFile, KeeperConfig, PoolConfig } from './config-types';
+import { logger } from './logging';
+
+/** Seconds between checks of the config file's modification time. */
+const POLL_INTERVAL = 5;
+
+export interface PoolChanges {
+  added: PoolConfig[];
+  removed: PoolConfig[];
+  changed: PoolConfig[];
+}
+
+/**
+ * Compares pools by address. A pool is changed if any of its settings differ.
+ */
+export function diffPools(
+  oldPools: PoolConfig[],
+  newPools: PoolConfig[]
+): PoolChanges {
+  const byAddress = (pools: PoolConfig[]) =>
+    new Map(pools.map((pool) => [pool.address.toLowerCase(), pool]));
+  const oldByAddress = byAddress(oldPools);
+  const newByAddress = byAddress(newPools);
+  return {
+    added: newPools.filter(
+      ({ address }) => !oldByAddress.has(address.toLowerCase())
+    ),
+    removed: oldPools.filter(
+      ({ address }) => !newByAddress.has(address.toLowerCase())
+    ),
+    changed: newPools.filter((pool) => {
+      const oldPool = oldByAddress.get(pool.address.toLowerCase());
+      return !!oldPool && JSON.stringify(oldPool) !== JSON.stringify(pool);
+    }),
+  };
+}
+
+/**
+ * Lists top level settings, other than pools, which differ between configs.
+ * These are only read at startup, so changing them needs a restart.
+ */
+export function getRestartOnlyChanges(
+  oldConfig: KeeperConfig,
+  newConfig: KeeperConfig
+): string[] {
+  const keys = Array.from(
+    new Set([...Object.keys(oldConfig), ...Object.keys(newConfig)])
+  ) as (keyof KeeperConfig)[];
+  return keys.filter(
+    (key) =>
+      key !== 'pools' &&
+      JSON.stringify(oldConfig[key]) !== JSON.stringify(newConfig[key])
+  );
+}
+
+/**
+ * Polls the config file and calls `onReload` with each new version which
+ * passes validation. Invalid versions are logged and ignored, so the keeper
+ * keeps running with the last good config.
+ */
+export class ConfigWatcher {
+  private reloading: Promise<void> = Promise.resolve();
+  private readonly absolutePath: string;
+
+  constructor(
+    private filePath: string,
+    private onReload: (config: KeeperConfig) => Promise<void>
+  ) {
+    this.absolutePath = path.resolve(filePath);
+  }
+
+  start() {
+    watchFile(
+      this.absolutePath,
+      { interval: POLL_INTERVAL * 1000, persistent: false },
+      this.onFileChange
+    );
+    logger.info(`Watching ${this.filePath} for pool configuration changes`);
+  }
+
+  /** Stops watching and waits for a reload in progress to finish. */
+  async stop() {
+    unwatchFile(this.absolutePath, this.onFileChange);
+    await this.reloading;
+  }
+
+  /** Loads and applies the config file. Reloads never overlap. */
+  reload(): Promise<void> {
+    this.reloading = this.reloading.then(async () => {
+      let config: KeeperConfig;
+      try {
+        config = await importConfigFile(this.filePath);
+      } catch (error) {
+        logger.error(
+          `Ignoring invalid config in ${this.filePath}, keeping the current one:`,
+          error
+        );
+        return;
+      }
+      try {
+        await this.onReload(config);
+      } catch (error) {
+        logger.error(`Failed to apply config from ${this.filePath}:`, error);
+      }
+    });
+    return this.reloading;
+  }
+
+  private onFileChange = (curr: Stats, prev: Stats) => {
+    if (curr.mtimeMs === prev.mtimeMs || curr.mtimeMs === 0) return;
+    logger.info(`Config file ${this.filePath} changed, reloading`);
+    this.reload();
+  };
+}
@@ -1,28 +1,188 @@
 #!/usr/bin/env ts-node
 
+import { AjnaSDK } from '@ajna-finance/sdk';
 import yargs from 'yargs/yargs';
 
-import { readConfigFile } from './config-types';
+import { configureAjna, importConfigFile, readConfigFile } from './config-types';
+import { checkDeployment, formatCheckResults } from './deployment-check';
+import { readLedger } from './ledger';
 import { startKeeperFromConfig } from './run';
 import { logger, setLoggerConfig } from './logging';
+import { JsonRpcProvider } from './provider';
+import { formatReport, summarizeLedger } from './report';
+import {
+  formatRewardQueue,
+  readRewardQueues,
+  requeueDeadLetters,
+} from './reward-queue';
+import { askPassword, loadPool } from './utils';
 
-const argv = yargs(process.argv.slice(2))
-  .options({
-    config: {
-      type: 'string',
-      demandOption: true,
-      describe: 'Path to the config file',
-    },
-  })
-  .parseSync();
-
-async function main() {
-  const config = await readConfigFile(argv.config);
+async function runKeeper(configPath: string) {
+  const config = await readConfigFile(configPath);
   setLoggerConfig(config);
   logger.info(
     `Starting keeper with...  ETH_RPC_URL: ${config.ethRpcUrl}, SUBGRAPH_URL: ${config.subgraphUrl}`
   );
-  await startKeeperFromConfig(config);
+  const keeper = await startKeeperFromConfig(config, configPath);
+
+  let shuttingDown = false;
+  const onSignal = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      logger.warn(`Received ${signal} during shutdown, exiting immediately`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    logger.info(`Received ${signal}, shutting down keeper`);
+    const drained = await keeper.shutdown(signal);
+    process.exit(drained ? 0 : 1);
+  };
+  process.on('SIGTERM', onSignal);
+  process.on('SIGINT', onSignal);
+}
+
+async function printReport(configPath: string, from?: string, to?: string) {
+  const config = await readConfigFile(configPath);
+  if (!config.ledgerFile) {
+    logger.error('No ledgerFile is set in the config, so there is nothing to report');
+    process.exit(1);
+  }
+  const range = {
+    from: from ? parseDate(from) : undefined,
+    to: to ? parseDate(to) : undefined,
+  };
+  const entries = await readLedger(config.ledgerFile);
+  console.log(formatReport(summarizeLedger(entries, range), range));
+}
+
+async function manageRewardQueue(
+  configPath: string,
+  requeue: number[] | undefined,
+  requeueAll: boolean
+) {
+  const config = await readConfigFile(configPath);
+  if (!config.stateDir) {
+    logger.error(
+      'No stateDir is set in the config, so there is no persisted reward queue'
+    );
+    process.exit(1);
+  }
+  const queues = await readRewardQueues(config.stateDir);
+  if (queues.length === 0) {
+    console.log(`No reward queue found in ${config.stateDir}.`);
+    return;
+  }
+  for (const queue of queues) {
+    if (requeueAll || requeue?.length) {
+      const requeued = requeueDeadLetters(
+        queue.state,
+        requeueAll ? undefined : requeue
+      );
+      await queue.store.save(queue.state);
+      console.log(
+        `Re-enqueued ${requeued.length} dead letters on chain ${queue.chainId}: ${requeued.map(({ id }) => `#${id}`).join(', ') || 'none'}`
+      );
+    }
+    console.log(formatRewardQueue(queue));
+  }
+}
+
+async function validateConfig(configPath: string, checkKeystore: boolean) {
+  let config;
+  try {
+    config = await importConfigFile(configPath);
+  } catch (error: any) {
+    console.log(error.message);
+    process.exit(1);
+  }
+  console.log(`Config schema is valid, checking against ${config.ethRpcUrl}...`);
+  const provider = new JsonRpcProvider(config.ethRpcUrl);
+  configureAjna(config.ajna);
+  const ajna = new AjnaSDK(provider);
+  const results = await checkDeployment({
+    config,
+    provider,
+    getPool: (address, collateralType) =>
+      loadPool(ajna, { address, collateralType }),
+    getPassword: checkKeystore ? askPassword : undefined,
+  });
+  console.log(formatCheckResults(results));
+  process.exit(results.every(({ ok }) => ok) ? 0 : 1);
 }
 
-main();
+function parseDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+const configOption = {
+  type: 'string',
+  demandOption: true,
+  describe: 'Path to the config file',
+} as const;
+
+yargs(process.argv.slice(2))
+  .command({
+    command: '$0',
+    describe: 'Run the keeper',
+    builder: { config: configOption },
+    handler: (argv: { config: string }) => runKeeper(argv.config),
+  })
+  .command({
+    command: 'report',
+    describe: 'Summarize realized PnL per pool and strategy from the ledger',
+    builder: {
+      config: configOption,
+      from: {
+        type: 'string',
+        describe: 'Only include actions at or after this date (ISO 8601)',
+      },
+      to: {
+        type: 'string',
+        describe: 'Only include actions before this date (ISO 8601)',
+      },
+    },
+    handler: (argv: { config: string; from?: string; to?: string }) =>
+      printReport(argv.config, argv.from, argv.to),
+  })
+  .command({
+    command: 'reward-queue',
+    describe:
+      'Show collected rewards waiting to be transferred or swapped, and re-enqueue dead letters. Stop the keeper first when re-enqueueing.',
+    builder: {
+      config: configOption,
+      requeue: {
+        type: 'number',
+        array: true,
+        describe: 'Ids of dead letters to move back onto the queue',
+      },
+      'requeue-all': {
+        type: 'boolean',
+        default: false,
+        describe: 'Move every dead letter back onto the queue',
+      },
+    },
+    handler: (argv: {
+      config: string;
+      requeue?: number[];
+      requeueAll: boolean;
+    }) => manageRewardQueue(argv.config, argv.requeue, argv.requeueAll),
+  })
+  .command({
+    command: 'validate-config',
+    describe:
+      'Validate the config and check it against the chain: pools, tokens, taker contracts, DEX pools and the keystore',
+    builder: {
+      config: configOption,
+      keystore: {
+        type: 'boolean',
+        default: true,
+        describe: 'Ask for the keystore password and check it decrypts',
+      },
+    },
+    handler: (argv: { config: string; keystore: boolean }) =>
+      validateConfig(argv.config, argv.keystore),
+  })
+  .parse();
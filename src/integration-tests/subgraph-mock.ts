@@ -4,6 +4,7 @@ import subgraphModule, {
   GetLoanResponse,
   GetMeaningfulBucketResponse,
 } from '../subgraph';
+import { SubgraphUrls } from '../subgraph-endpoints';
 import { getProvider } from './test-utils';
 import { decimaledToWei, weiToDecimaled } from '../utils';
 import { MAINNET_CONFIG } from './test-config';
@@ -22,7 +23,7 @@ export function overrideGetLoans(
 
 export const makeGetLoansFromSdk = (pool: FungiblePool) => {
   return async (
-    subgraphUrl: string,
+    subgraphUrl: SubgraphUrls,
     poolAddress: string
   ): Promise<GetLoanResponse> => {
     const loansMap = await getLoansMap(pool);
@@ -66,7 +67,7 @@ export function overrideGetLiquidations(
 
 export function makeGetLiquidationsFromSdk(pool: FungiblePool) {
   return async (
-    subgraphUrl: string,
+    subgraphUrl: SubgraphUrls,
     poolAddress: string,
     minCollateral: number
   ): Promise<GetLiquidationResponse> => {
@@ -125,7 +126,7 @@ export function overrideGetHighestMeaningfulBucket(
 
 export function makeGetHighestMeaningfulBucket(pool: FungiblePool) {
   return async (
-    subgraphUrl: string,
+    subgraphUrl: SubgraphUrls,
     poolAddress: string,
     minDeposit: string
   ): Promise<GetMeaningfulBucketResponse> => {
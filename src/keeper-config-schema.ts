@@ -0,0 +1,771 @@
+import { FeeAmount } from '@uniswap/v3-sdk';
+import { utils } from 'ethers';
+import {
+  CollateralType,
+  CurvePoolType,
+  KeeperConfig,
+  LiquiditySource,
+  PostAuctionDex,
+  PriceOriginPoolReference,
+  PriceOriginSource,
+  ProtectionAction,
+  RateDirection,
+  RewardActionLabel,
+  TokenToCollect,
+  validatePostAuctionDex,
+  validateTakeSettings,
+} from './config-types';
+import { MAX_FENWICK_INDEX } from './constants';
+
+export interface ConfigIssue {
+  /** Where the problem is, e.g. `pools[0].kick.priceFactor`. */
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a config fails validation. Lists every problem found, not just the first.
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid config, found ${issues.length} problem(s):\n` +
+        issues.map(({ path, message }) => `  ${path}: ${message}`).join('\n')
+    );
+    this.name = 'ConfigValidationError';
+    // Compiling to ES5 otherwise breaks instanceof checks on Error subclasses.
+    Object.setPrototypeOf(this, ConfigValidationError.prototype);
+  }
+}
+
+/** Checks a value, adding a problem for each way it is invalid. */
+type Validator = (value: unknown, path: string, issues: ConfigIssue[]) => void;
+
+interface Field {
+  validate: Validator;
+  optional?: boolean;
+}
+
+const required = (validate: Validator): Field => ({ validate });
+const optional = (validate: Validator): Field => ({ validate, optional: true });
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'string' ? `"${value}"` : typeof value;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function string({ nonEmpty = false } = {}): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({
+        path,
+        message: `must be a string, got ${describe(value)}`,
+      });
+    } else if (nonEmpty && value.trim() === '') {
+      issues.push({ path, message: 'must not be empty' });
+    }
+  };
+}
+
+function boolean(): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== 'boolean') {
+      issues.push({
+        path,
+        message: `must be true or false, got ${describe(value)}`,
+      });
+    }
+  };
+}
+
+interface NumberRange {
+  min?: number;
+  max?: number;
+  /** If true, `min` itself is not allowed. */
+  exclusiveMin?: boolean;
+  /** If true, `max` itself is not allowed. */
+  exclusiveMax?: boolean;
+  integer?: boolean;
+}
+
+function number(range: NumberRange = {}): Validator {
+  const { min, max, exclusiveMin, exclusiveMax, integer } = range;
+  return (value, path, issues) => {
+    if (typeof value !== 'number' || isNaN(value)) {
+      issues.push({
+        path,
+        message: `must be a number, got ${describe(value)}`,
+      });
+      return;
+    }
+    if (integer && !Number.isInteger(value)) {
+      issues.push({ path, message: `must be a whole number, got ${value}` });
+    }
+    if (min !== undefined && (exclusiveMin ? value <= min : value < min)) {
+      issues.push({
+        path,
+        message: `must be ${exclusiveMin ? 'greater than' : 'at least'} ${min}, got ${value}`,
+      });
+    }
+    if (max !== undefined && (exclusiveMax ? value >= max : value > max)) {
+      issues.push({
+        path,
+        message: `must be ${exclusiveMax ? 'less than' : 'at most'} ${max}, got ${value}`,
+      });
+    }
+  };
+}
+
+/**
+ * A 20 byte hex address. Mixed case addresses must have a valid EIP-55 checksum.
+ * @param allowEmpty Accept an empty string, for optional Ajna contracts.
+ */
+function address({ allowEmpty = false } = {}): Validator {
+  return (value, path, issues) => {
+    if (allowEmpty && value === '') return;
+    if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+      issues.push({
+        path,
+        message: `must be a 0x-prefixed 20 byte hex address, got ${describe(value)}`,
+      });
+      return;
+    }
+    if (!utils.isAddress(value)) {
+      issues.push({
+        path,
+        message: `has an invalid checksum, expected ${utils.getAddress(value.toLowerCase())}`,
+      });
+    }
+  };
+}
+
+function oneOf<T extends string | number>(
+  allowed: T[],
+  describeAllowed: string[] = allowed.map(String)
+): Validator {
+  return (value, path, issues) => {
+    if (!allowed.includes(value as T)) {
+      issues.push({
+        path,
+        message: `must be one of ${describeAllowed.join(', ')}, got ${describe(value)}`,
+      });
+    }
+  };
+}
+
+/** Values of a string enum, or the numeric values of a numeric enum. */
+function enumValues<T extends string | number>(enumObject: {
+  [key: string]: T | string;
+}): T[] {
+  const values = Object.values(enumObject);
+  const numeric = values.filter((value) => typeof value === 'number');
+  return (numeric.length > 0 ? numeric : values) as T[];
+}
+
+function enumOf(enumObject: { [key: string]: string | number }): Validator {
+  const values = enumValues(enumObject);
+  if (typeof values[0] === 'number') {
+    // Numeric enums are written by name in .ts configs, so list the names too.
+    return oneOf(
+      values,
+      values.map((value) => `${value} (${enumObject[value]})`)
+    );
+  }
+  return oneOf(values);
+}
+
+function arrayOf(item: Validator): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({
+        path,
+        message: `must be an array, got ${describe(value)}`,
+      });
+      return;
+    }
+    value.forEach((element, i) => item(element, `${path}[${i}]`, issues));
+  };
+}
+
+/** A single value, or a non-empty array of them. */
+function oneOrMany(item: Validator): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      item(value, path, issues);
+    } else if (value.length === 0) {
+      issues.push({ path, message: 'must not be an empty array' });
+    } else {
+      arrayOf(item)(value, path, issues);
+    }
+  };
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** An object whose keys are free form, e.g. token symbols, with values of one type. */
+function recordOf(item: Validator): Validator {
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({
+        path,
+        message: `must be an object, got ${describe(value)}`,
+      });
+      return;
+    }
+    for (const [key, element] of Object.entries(value)) {
+      item(element, joinPath(path, key), issues);
+    }
+  };
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function unknownKeyMessage(key: string, knownKeys: string[]): string {
+  const closest = knownKeys
+    .map((known) => ({
+      known,
+      distance: editDistance(key.toLowerCase(), known.toLowerCase()),
+    }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  return closest && closest.distance <= 2
+    ? `unknown key, did you mean "${closest.known}"?`
+    : 'unknown key';
+}
+
+/**
+ * An object with known keys. Keys set to undefined count as missing, so
+ * `.ts` configs can use unset environment variables for optional values.
+ */
+function objectOf(fields: { [key: string]: Field }): Validator {
+  const knownKeys = Object.keys(fields);
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({
+        path,
+        message: `must be an object, got ${describe(value)}`,
+      });
+      return;
+    }
+    for (const [key, field] of Object.entries(fields)) {
+      const fieldPath = joinPath(path, key);
+      if (value[key] === undefined) {
+        if (!field.optional) {
+          issues.push({ path: fieldPath, message: 'is required' });
+        }
+        continue;
+      }
+      field.validate(value[key], fieldPath, issues);
+    }
+    for (const key of Object.keys(value)) {
+      if (!(key in fields)) {
+        issues.push({
+          path: joinPath(path, key),
+          message: unknownKeyMessage(key, knownKeys),
+        });
+      }
+    }
+  };
+}
+
+/** Picks the object shape from the value of a tag field, e.g. `source` or `action`. */
+function taggedUnion(
+  tag: string,
+  variants: { [tagValue: string]: { [key: string]: Field } }
+): Validator {
+  const validators = Object.fromEntries(
+    Object.entries(variants).map(([tagValue, fields]) => [
+      tagValue,
+      objectOf({ [tag]: required(() => {}), ...fields }),
+    ])
+  );
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({
+        path,
+        message: `must be an object, got ${describe(value)}`,
+      });
+      return;
+    }
+    const validate = validators[value[tag] as string];
+    if (!validate) {
+      oneOf(Object.keys(variants))(value[tag], joinPath(path, tag), issues);
+      return;
+    }
+    validate(value, path, issues);
+  };
+}
+
+/**
+ * Built on first use rather than at import, since config-types imports this
+ * module and its enums are not yet defined while it does.
+ */
+function createKeeperConfigValidator(): Validator {
+  const feeAmount = enumOf(FeeAmount as unknown as { [key: string]: number });
+  /** Percent, as used by the DEX routers. */
+  const slippage = number({ min: 0, max: 100 });
+  /** Seconds. */
+  const duration = number({ min: 0 });
+  /** Gas price in gwei. */
+  const gwei = number({ min: 0, exclusiveMin: true });
+  const bucketIndex = number({ min: 1, max: MAX_FENWICK_INDEX, integer: true });
+
+  const priceOrigin = taggedUnion('source', {
+    [PriceOriginSource.FIXED]: {
+      value: required(number({ min: 0, exclusiveMin: true })),
+      invert: optional(boolean()),
+    },
+    [PriceOriginSource.COINGECKO]: {
+      query: optional(string({ nonEmpty: true })),
+      quoteId: optional(string({ nonEmpty: true })),
+      collateralId: optional(string({ nonEmpty: true })),
+      invert: optional(boolean()),
+    },
+    [PriceOriginSource.POOL]: {
+      reference: required(enumOf(PriceOriginPoolReference)),
+      invert: optional(boolean()),
+    },
+  });
+
+  const rewardAction = taggedUnion('action', {
+    [RewardActionLabel.TRANSFER]: {
+      to: required(address()),
+    },
+    [RewardActionLabel.EXCHANGE]: {
+      address: required(address()),
+      targetToken: required(string({ nonEmpty: true })),
+      slippage: required(slippage),
+      dexProvider: required(enumOf(PostAuctionDex)),
+      fee: optional(feeAmount),
+    },
+  });
+
+  const poolConfig = objectOf({
+    name: required(string({ nonEmpty: true })),
+    address: required(address()),
+    price: required(priceOrigin),
+    collateralType: optional(enumOf(CollateralType)),
+    kick: optional(
+      objectOf({
+        minDebt: required(number({ min: 0 })),
+        priceFactor: required(
+          number({ min: 0, max: 1, exclusiveMin: true, exclusiveMax: true })
+        ),
+        minExpectedReturn: optional(number({ min: 0 })),
+        nativeTokenPrice: optional(priceOrigin),
+      })
+    ),
+    take: optional(
+      objectOf({
+        minCollateral: optional(number({ min: 0, exclusiveMin: true })),
+        hpbPriceFactor: optional(
+          number({ min: 0, max: 1, exclusiveMin: true })
+        ),
+        liquiditySource: optional(enumOf(LiquiditySource)),
+        marketPriceFactor: optional(
+          number({ min: 0, max: 1, exclusiveMin: true })
+        ),
+        minProfit: optional(number({ min: 0 })),
+        minProfitUsd: optional(number({ min: 0 })),
+        nativeTokenPrice: optional(priceOrigin),
+        quoteUsdPrice: optional(priceOrigin),
+        partialTakeSteps: optional(number({ min: 1, max: 20, integer: true })),
+      })
+    ),
+    dexSettings: optional(objectOf({ fee: required(feeAmount) })),
+    collectBond: optional(boolean()),
+    collectLpReward: optional(
+      objectOf({
+        redeemFirst: optional(enumOf(TokenToCollect)),
+        minAmountQuote: required(number({ min: 0 })),
+        minAmountCollateral: required(number({ min: 0 })),
+        rewardActionQuote: optional(rewardAction),
+        rewardActionCollateral: optional(rewardAction),
+        backfillFromBlock: optional(number({ min: 0, integer: true })),
+      })
+    ),
+    settlement: optional(
+      objectOf({
+        enabled: required(boolean()),
+        minAuctionAge: optional(duration),
+        maxBucketDepth: optional(number({ min: 1, integer: true })),
+        maxIterations: optional(number({ min: 1, integer: true })),
+        checkBotIncentive: optional(boolean()),
+      })
+    ),
+    reserveAuction: optional(
+      objectOf({
+        minKickReserves: optional(number({ min: 0 })),
+        ajnaPrice: required(priceOrigin),
+        takePriceFactor: optional(
+          number({ min: 0, max: 1, exclusiveMin: true })
+        ),
+        maxAjnaPerTake: optional(number({ min: 0, exclusiveMin: true })),
+      })
+    ),
+    updateInterest: optional(
+      objectOf({
+        minAge: optional(number({ min: 12 * 60 * 60 })),
+        direction: optional(enumOf(RateDirection)),
+      })
+    ),
+    borrowerProtection: optional(
+      objectOf({
+        borrowers: required(arrayOf(address())),
+        triggerRatio: required(number({ min: 0, exclusiveMin: true, max: 1 })),
+        targetRatio: required(number({ min: 0, exclusiveMin: true, max: 1 })),
+        action: required(enumOf(ProtectionAction)),
+      })
+    ),
+    lenderGuard: optional(
+      objectOf({
+        bucketIndexes: required(arrayOf(bucketIndex)),
+        reference: optional(
+          oneOf([PriceOriginPoolReference.LUP, PriceOriginPoolReference.HTP])
+        ),
+        riskOffset: required(number({ min: 0, integer: true })),
+        targetOffset: required(number({ min: 1, integer: true })),
+        minAmount: optional(number({ min: 0 })),
+      })
+    ),
+  });
+
+  return objectOf({
+    ethRpcUrl: required(string({ nonEmpty: true })),
+    rpcFailover: optional(
+      objectOf({
+        fallbackUrls: required(arrayOf(string({ nonEmpty: true }))),
+        quorum: optional(number({ min: 1, integer: true })),
+        broadcastTransactions: optional(boolean()),
+      })
+    ),
+    logLevel: optional(oneOf(['error', 'info', 'debug'])),
+    subgraphUrl: required(oneOrMany(string({ nonEmpty: true }))),
+    subgraphFallback: optional(
+      objectOf({
+        maxLagBlocks: required(number({ min: 0, integer: true })),
+        fromBlock: required(number({ min: 0, integer: true })),
+      })
+    ),
+    keeperKeystore: required(string({ nonEmpty: true })),
+    stuckTransactions: optional(
+      objectOf({
+        timeoutSeconds: required(number({ min: 0, exclusiveMin: true })),
+        bumpPercent: optional(number({ min: 10 })),
+        maxBumps: optional(number({ min: 0, integer: true })),
+      })
+    ),
+    gasPolicy: optional(
+      objectOf({
+        maxGasPriceGwei: optional(gwei),
+        actionMaxGasPriceGwei: optional(
+          objectOf({
+            kick: optional(gwei),
+            take: optional(gwei),
+            settle: optional(gwei),
+            reserveAuction: optional(gwei),
+            updateInterest: optional(gwei),
+            borrowerProtection: optional(gwei),
+            lenderGuard: optional(gwei),
+            lpRedeem: optional(gwei),
+            rewardSwap: optional(gwei),
+          })
+        ),
+        dailyBudget: optional(number({ min: 0, exclusiveMin: true })),
+      })
+    ),
+    keeperTaker: optional(address()),
+    keeperTakerFactory: optional(address()),
+    takerContracts: optional(recordOf(address())),
+    dryRun: optional(boolean()),
+    multicallAddress: optional(address()),
+    multicallBlock: optional(number({ min: 0, integer: true })),
+    ajna: required(
+      objectOf({
+        erc20PoolFactory: required(address()),
+        erc721PoolFactory: required(address()),
+        poolUtils: required(address()),
+        positionManager: required(address()),
+        ajnaToken: required(address()),
+        grantFund: optional(address({ allowEmpty: true })),
+        burnWrapper: optional(address({ allowEmpty: true })),
+        lenderHelper: optional(address({ allowEmpty: true })),
+      })
+    ),
+    coinGeckoApiKey: optional(string()),
+    pools: required(arrayOf(poolConfig)),
+    uniswapOverrides: optional(
+      objectOf({
+        wethAddress: optional(address()),
+        uniswapV3Router: optional(address()),
+      })
+    ),
+    delayBetweenActions: required(duration),
+    delayBetweenRuns: required(duration),
+    statusServerPort: optional(number({ min: 0, max: 65535, integer: true })),
+    shutdownTimeout: optional(number({ min: 0, exclusiveMin: true })),
+    ledgerFile: optional(string({ nonEmpty: true })),
+    stateDir: optional(string({ nonEmpty: true })),
+    watchConfig: optional(boolean()),
+    oneInchRouters: optional(recordOf(address())),
+    tokenAddresses: optional(recordOf(address())),
+    connectorTokens: optional(arrayOf(address())),
+    universalRouterOverrides: optional(
+      objectOf({
+        universalRouterAddress: optional(address()),
+        wethAddress: optional(address()),
+        permit2Address: optional(address()),
+        defaultFeeTier: optional(feeAmount),
+        defaultSlippage: optional(slippage),
+        poolFactoryAddress: optional(address()),
+        quoterV2Address: optional(address()),
+      })
+    ),
+    sushiswapRouterOverrides: optional(
+      objectOf({
+        swapRouterAddress: optional(address()),
+        quoterV2Address: optional(address()),
+        factoryAddress: optional(address()),
+        wethAddress: optional(address()),
+        defaultFeeTier: optional(feeAmount),
+        defaultSlippage: optional(slippage),
+      })
+    ),
+    curveRouterOverrides: optional(
+      objectOf({
+        poolConfigs: optional(
+          recordOf(
+            objectOf({
+              address: required(address()),
+              poolType: required(enumOf(CurvePoolType)),
+            })
+          )
+        ),
+        defaultSlippage: optional(slippage),
+        wethAddress: optional(address()),
+      })
+    ),
+  });
+}
+
+let keeperConfigValidator: Validator | undefined;
+
+function hasIssuesUnder(issues: ConfigIssue[], path: string): boolean {
+  return issues.some(
+    (issue) =>
+      issue.path === path ||
+      issue.path.startsWith(`${path}.`) ||
+      issue.path.startsWith(`${path}[`)
+  );
+}
+
+/**
+ * Runs an existing validation which throws, recording its error as a problem at `path`.
+ */
+function checkWith(
+  path: string,
+  issues: ConfigIssue[],
+  check: () => void,
+  prefix: string = ''
+) {
+  try {
+    check();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    issues.push({ path, message: message.replace(prefix, '') });
+  }
+}
+
+/**
+ * Requirements spanning several fields. Only run on parts of the config
+ * whose shape is already valid, so each mistake is reported once.
+ */
+function checkCrossFields(config: KeeperConfig, issues: ConfigIssue[]) {
+  if (
+    config.multicallBlock !== undefined &&
+    config.multicallAddress === undefined &&
+    !hasIssuesUnder(issues, 'multicallBlock')
+  ) {
+    issues.push({
+      path: 'multicallBlock',
+      message: 'is only used together with multicallAddress',
+    });
+  }
+
+  const { rpcFailover } = config;
+  if (
+    rpcFailover?.quorum !== undefined &&
+    Array.isArray(rpcFailover.fallbackUrls) &&
+    rpcFailover.quorum > rpcFailover.fallbackUrls.length + 1 &&
+    !hasIssuesUnder(issues, 'rpcFailover')
+  ) {
+    issues.push({
+      path: 'rpcFailover.quorum',
+      message: `is more than the ${rpcFailover.fallbackUrls.length + 1} configured RPC endpoints`,
+    });
+  }
+
+  if (!Array.isArray(config.pools)) return;
+  const seen = new Map<string, number>();
+  config.pools.forEach((pool, i) => {
+    const path = `pools[${i}]`;
+    if (!isPlainObject(pool)) return;
+    if (!hasIssuesUnder(issues, `${path}.address`)) {
+      const key = pool.address.toLowerCase();
+      if (seen.has(key)) {
+        issues.push({
+          path: `${path}.address`,
+          message: `duplicates the address of pools[${seen.get(key)}]`,
+        });
+      } else {
+        seen.set(key, i);
+      }
+    }
+
+    if (
+      pool.price?.source === PriceOriginSource.COINGECKO &&
+      !hasIssuesUnder(issues, `${path}.price`)
+    ) {
+      const { query, quoteId, collateralId } = pool.price as {
+        query?: string;
+        quoteId?: string;
+        collateralId?: string;
+      };
+      const hasIds = quoteId !== undefined && collateralId !== undefined;
+      if ((query === undefined) === !hasIds) {
+        issues.push({
+          path: `${path}.price`,
+          message:
+            'coingecko prices need either query, or both quoteId and collateralId',
+        });
+      }
+    }
+
+    if (pool.take && !hasIssuesUnder(issues, `${path}.take`)) {
+      checkWith(
+        `${path}.take`,
+        issues,
+        () => validateTakeSettings(pool.take!, config, pool.collateralType),
+        'TakeSettings: '
+      );
+    }
+
+    if (
+      pool.collateralType === CollateralType.ERC721 &&
+      pool.collectLpReward
+    ) {
+      issues.push({
+        path: `${path}.collectLpReward`,
+        message: 'is not supported in ERC721 pools',
+      });
+    }
+
+    const { borrowerProtection } = pool;
+    const protectionPath = `${path}.borrowerProtection`;
+    if (borrowerProtection && !hasIssuesUnder(issues, protectionPath)) {
+      if (borrowerProtection.targetRatio >= borrowerProtection.triggerRatio) {
+        issues.push({
+          path: `${protectionPath}.targetRatio`,
+          message: 'must be below triggerRatio',
+        });
+      }
+      if (
+        pool.collateralType === CollateralType.ERC721 &&
+        borrowerProtection.action === ProtectionAction.ADD_COLLATERAL
+      ) {
+        issues.push({
+          path: `${protectionPath}.action`,
+          message: 'addCollateral is not supported in ERC721 pools',
+        });
+      }
+    }
+
+    const { lenderGuard } = pool;
+    if (
+      lenderGuard &&
+      lenderGuard.targetOffset <= lenderGuard.riskOffset &&
+      !hasIssuesUnder(issues, `${path}.lenderGuard`)
+    ) {
+      issues.push({
+        path: `${path}.lenderGuard.targetOffset`,
+        message: 'must be above riskOffset',
+      });
+    }
+
+    const { reserveAuction } = pool;
+    if (
+      reserveAuction &&
+      reserveAuction.minKickReserves === undefined &&
+      reserveAuction.takePriceFactor === undefined &&
+      !hasIssuesUnder(issues, `${path}.reserveAuction`)
+    ) {
+      issues.push({
+        path: `${path}.reserveAuction`,
+        message: 'needs minKickReserves, takePriceFactor or both',
+      });
+    }
+
+    for (const key of [
+      'rewardActionQuote',
+      'rewardActionCollateral',
+    ] as const) {
+      const action = pool.collectLpReward?.[key];
+      const actionPath = `${path}.collectLpReward.${key}`;
+      if (
+        action?.action !== RewardActionLabel.EXCHANGE ||
+        hasIssuesUnder(issues, actionPath)
+      ) {
+        continue;
+      }
+      checkWith(`${actionPath}.dexProvider`, issues, () =>
+        validatePostAuctionDex(action.dexProvider, config)
+      );
+      const hasTargetAddress =
+        action.targetToken in (config.tokenAddresses ?? {}) ||
+        !!config.uniswapOverrides?.wethAddress;
+      if (!hasTargetAddress) {
+        issues.push({
+          path: `${actionPath}.targetToken`,
+          message: `"${action.targetToken}" is not in tokenAddresses`,
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Checks a whole config: types, addresses and their checksums, numeric ranges,
+ * unknown keys and requirements between fields.
+ * @returns Every problem found. Empty if the config is valid.
+ */
+export function validateConfig(config: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  keeperConfigValidator ??= createKeeperConfigValidator();
+  keeperConfigValidator(config, '', issues);
+  if (isPlainObject(config)) {
+    checkCrossFields(config as unknown as KeeperConfig, issues);
+  }
+  return issues;
+}
@@ -0,0 +1,133 @@
+export type LoopName =
+  | 'kick'
+  | 'take'
+  | 'settlement'
+  | 'collectBond'
+  | 'collectLpReward'
+  | 'reserveAuction'
+  | 'updateInterest'
+  | 'borrowerProtection'
+  | 'lenderGuard';
+
+export type PoolAction =
+  | 'kick'
+  | 'take'
+  | 'settle'
+  | 'reserveAuction'
+  | 'updateInterest'
+  | 'borrowerProtection'
+  | 'lenderGuard';
+
+/** A loop is considered stale once this many intervals pass without a completed iteration. */
+const STALE_INTERVALS = 3;
+/** Lower bound for staleness so short `delayBetweenRuns` don't flap the health check. */
+const MIN_STALE_SECONDS = 60;
+
+interface LoopState {
+  intervalSeconds: number;
+  registeredAt: number;
+  lastIterationAt?: number;
+}
+
+export interface PoolOutcome {
+  at: string;
+  success: boolean;
+  error?: string;
+}
+
+interface PoolState {
+  name: string;
+  outcomes: { [action in PoolAction]?: PoolOutcome };
+}
+
+export interface LoopHealth {
+  healthy: boolean;
+  lastIteration: string | null;
+  secondsSinceLastIteration: number | null;
+  staleAfterSeconds: number;
+}
+
+/**
+ * In-memory record of what the keeper loops have been doing, used to answer
+ * liveness probes and status requests.
+ */
+export class KeeperStatus {
+  private loops: Map<LoopName, LoopState> = new Map();
+  private pools: Map<string, PoolState> = new Map();
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Starts tracking a loop which is expected to complete an iteration every `intervalSeconds`.
+   */
+  registerLoop(loop: LoopName, intervalSeconds: number) {
+    this.loops.set(loop, { intervalSeconds, registeredAt: this.now() });
+  }
+
+  recordLoopIteration(loop: LoopName) {
+    const state = this.loops.get(loop);
+    if (state) {
+      state.lastIterationAt = this.now();
+    }
+  }
+
+  recordPoolOutcome(
+    poolAddress: string,
+    poolName: string,
+    action: PoolAction,
+    error?: unknown
+  ) {
+    const key = poolAddress.toLowerCase();
+    const state = this.pools.get(key) ?? { name: poolName, outcomes: {} };
+    state.outcomes[action] = {
+      at: new Date(this.now()).toISOString(),
+      success: error === undefined,
+      ...(error !== undefined && {
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    };
+    this.pools.set(key, state);
+  }
+
+  /** Forgets a pool which is no longer configured. */
+  removePool(poolAddress: string) {
+    this.pools.delete(poolAddress.toLowerCase());
+  }
+
+  getLoopHealth(): { [loop: string]: LoopHealth } {
+    const now = this.now();
+    const health: { [loop: string]: LoopHealth } = {};
+    for (const [loop, state] of Array.from(this.loops.entries())) {
+      const staleAfterSeconds = Math.max(
+        state.intervalSeconds * STALE_INTERVALS,
+        MIN_STALE_SECONDS
+      );
+      // Before the first iteration completes, measure from when the loop started.
+      const reference = state.lastIterationAt ?? state.registeredAt;
+      const secondsSinceReference = (now - reference) / 1000;
+      health[loop] = {
+        healthy: secondsSinceReference <= staleAfterSeconds,
+        lastIteration:
+          state.lastIterationAt !== undefined
+            ? new Date(state.lastIterationAt).toISOString()
+            : null,
+        secondsSinceLastIteration:
+          state.lastIterationAt !== undefined
+            ? Math.round(secondsSinceReference)
+            : null,
+        staleAfterSeconds,
+      };
+    }
+    return health;
+  }
+
+  isHealthy(): boolean {
+    return Object.values(this.getLoopHealth()).every(({ healthy }) => healthy);
+  }
+
+  getPoolOutcomes(): {
+    [poolAddress: string]: PoolState;
+  } {
+    return Object.fromEntries(this.pools.entries());
+  }
+}
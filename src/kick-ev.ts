@@ -0,0 +1,53 @@
+import { BigNumber } from 'ethers';
+import { weiToDecimaled } from './utils';
+
+/** Typical gas of a kick, used to price a kick before its bond is approved. */
+export const KICK_GAS_ESTIMATE = BigNumber.from(400000);
+
+/** Typical gas of approving the bond, added when the allowance is short of it. */
+export const APPROVE_GAS_ESTIMATE = BigNumber.from(50000);
+
+export interface KickReturnParams {
+  /** Loan values in WAD, as returned by the pool. */
+  debt: BigNumber;
+  collateral: BigNumber;
+  thresholdPrice: BigNumber;
+  neutralPrice: BigNumber;
+  liquidationBond: BigNumber;
+  /** Price of collateral in quote token, where the auction is expected to be taken. */
+  marketPrice: number;
+}
+
+/**
+ * The kicker's expected reward, or penalty if negative, in quote token before
+ * gas. Assumes the auction is taken at the market price, and applies Ajna's
+ * bond payment factor to the quote token paid by the taker:
+ * `bondFactor * clamp((NP - price) / (NP - TP), -1, 1)`, where the bond
+ * factor is the bond as a share of the debt.
+ */
+export function estimateKickReturn({
+  debt,
+  collateral,
+  thresholdPrice,
+  neutralPrice,
+  liquidationBond,
+  marketPrice,
+}: KickReturnParams): number {
+  const debtAmount = weiToDecimaled(debt);
+  if (debtAmount <= 0) return 0;
+  const bondFactor = weiToDecimaled(liquidationBond) / debtAmount;
+  const np = weiToDecimaled(neutralPrice);
+  const tp = weiToDecimaled(thresholdPrice);
+
+  let paymentFactor: number;
+  if (tp < np) {
+    paymentFactor = Math.min(1, Math.max(-1, (np - marketPrice) / (np - tp)));
+  } else {
+    paymentFactor = Math.sign(np - marketPrice);
+  }
+  const quotePaid = Math.min(
+    debtAmount,
+    weiToDecimaled(collateral) * marketPrice
+  );
+  return bondFactor * paymentFactor * quotePaid;
+}
@@ -1,4 +1,4 @@
-import { FungiblePool, Signer } from '@ajna-finance/sdk';
+import { Signer } from '@ajna-finance/sdk';
 import { BigNumber, constants } from 'ethers';
 import { KeeperConfig, PoolConfig } from './config-types';
 import {
@@ -11,6 +11,7 @@ import { logger } from './logging';
 import { getPrice } from './price';
 import subgraph from './subgraph';
 import {
+  AjnaPool,
   decimaledToWei,
   delay,
   RequireFields,
@@ -18,9 +19,17 @@ import {
   weiToDecimaled,
 } from './utils';
 import { poolKick, poolQuoteApprove } from './transactions';
+import { recordGasSpent, recordKick } from './metrics';
+import { recordLedgerEntry } from './ledger';
+import {
+  APPROVE_GAS_ESTIMATE,
+  estimateKickReturn,
+  KICK_GAS_ESTIMATE,
+} from './kick-ev';
+import { getGasCostInQuote } from './take-profit';
 
 interface HandleKickParams {
-  pool: FungiblePool;
+  pool: AjnaPool;
   poolConfig: RequireFields<PoolConfig, 'kick'>;
   signer: Signer;
   config: Pick<
@@ -58,6 +67,14 @@ interface LoanToKick {
   limitPrice: number;
 }
 
+/** A loan to kick, with the details its expected return is estimated from. */
+interface KickCandidate extends LoanToKick {
+  debt: BigNumber;
+  collateral: BigNumber;
+  thresholdPrice: BigNumber;
+  neutralPrice: BigNumber;
+}
+
 interface GetLoansToKickParams
   extends Pick<HandleKickParams, 'pool' | 'poolConfig' | 'chainId'> {
   config: Pick<KeeperConfig, 'subgraphUrl' | 'coinGeckoApiKey' | 'ethRpcUrl' | 'tokenAddresses'>;
@@ -68,7 +85,7 @@ export async function* getLoansToKick({
   config,
   poolConfig,
   chainId,
-}: GetLoansToKickParams): AsyncGenerator<LoanToKick> {
+}: GetLoansToKickParams): AsyncGenerator<KickCandidate> {
   const { subgraphUrl } = config;
   const { loans } = await subgraph.getLoans(subgraphUrl, pool.poolAddress);
   const loanMap = await pool.getLoans(loans.map(({ borrower }) => borrower));
@@ -92,7 +109,8 @@ export async function* getLoansToKick({
       pool.getLoan(borrower),
     ]);
     const { lup, hpb } = poolPrices;
-    const { thresholdPrice, liquidationBond, debt, neutralPrice } = loanDetails;
+    const { thresholdPrice, liquidationBond, debt, neutralPrice, collateral } =
+      loanDetails;
     const estimatedRemainingBond = liquidationBond.add(
       getSumEstimatedBond(borrowersSortedByBond.slice(i + 1))
     );
@@ -124,6 +142,7 @@ export async function* getLoansToKick({
     */
 
     // Only kick loans with a neutralPrice above price (with some margin) to ensure they are profitable.
+    // Loans ranked by expected return are priced by handleKicksByExpectedReturn instead.
     const limitPrice = await getPrice(
       poolConfig.price,
       config.coinGeckoApiKey,
@@ -133,8 +152,8 @@ export async function* getLoansToKick({
       config.tokenAddresses
     );
     if (
-      weiToDecimaled(neutralPrice) * poolConfig.kick.priceFactor <
-      limitPrice
+      poolConfig.kick.minExpectedReturn === undefined &&
+      weiToDecimaled(neutralPrice) * poolConfig.kick.priceFactor < limitPrice
     ) {
       logger.debug(
         `Not kicking loan since (NP * Factor < Price). pool: ${pool.name}, borrower: ${borrower}, NP: ${weiToDecimaled(neutralPrice)}, Price: ${limitPrice}`
@@ -147,12 +166,122 @@ export async function* getLoansToKick({
       liquidationBond,
       estimatedRemainingBond,
       limitPrice,
+      debt,
+      collateral,
+      thresholdPrice,
+      neutralPrice,
     };
   }
 }
 
+interface KickPool {
+  pool: AjnaPool;
+  poolConfig: RequireFields<PoolConfig, 'kick'>;
+}
+
+interface RankedKick extends KickPool {
+  loanToKick: KickCandidate;
+  /** Quote token, after gas. */
+  expectedReturn: number;
+}
+
+interface HandleKicksByExpectedReturnParams
+  extends Pick<HandleKickParams, 'signer' | 'config' | 'chainId'> {
+  pools: KickPool[];
+}
+
+/**
+ * Kicks the loans of every pool in `pools` in order of expected return, so
+ * the quote token balance shared by pools goes to the best kicks first. Only
+ * loans whose expected return after gas reaches their pool's
+ * `kick.minExpectedReturn` are kicked.
+ * @returns Errors by pool address, for pools whose loans could not be read.
+ */
+export async function handleKicksByExpectedReturn({
+  pools,
+  signer,
+  config,
+  chainId,
+}: HandleKicksByExpectedReturnParams): Promise<Map<string, unknown>> {
+  const errors = new Map<string, unknown>();
+  const candidates: RankedKick[] = [];
+  for (const { pool, poolConfig } of pools) {
+    try {
+      const getGasCost = (gas: BigNumber) =>
+        getGasCostInQuote(
+          gas,
+          pool,
+          poolConfig.kick.nativeTokenPrice,
+          signer,
+          config
+        );
+      const kickGasCost = await getGasCost(KICK_GAS_ESTIMATE);
+      const kickAndApproveGasCost = await getGasCost(
+        KICK_GAS_ESTIMATE.add(APPROVE_GAS_ESTIMATE)
+      );
+      const allowance = await getAllowanceOfErc20(
+        signer,
+        pool.quoteAddress,
+        pool.poolAddress
+      );
+      for await (const loanToKick of getLoansToKick({
+        pool,
+        poolConfig,
+        config,
+        chainId,
+      })) {
+        // Each kick approves its own bond when the allowance is short of it.
+        const gasCost = allowance.lt(loanToKick.liquidationBond)
+          ? kickAndApproveGasCost
+          : kickGasCost;
+        const expectedReturn =
+          estimateKickReturn({
+            ...loanToKick,
+            marketPrice: loanToKick.limitPrice,
+          }) - gasCost;
+        candidates.push({ pool, poolConfig, loanToKick, expectedReturn });
+      }
+    } catch (error) {
+      logger.error(`Failed to rank kicks for pool: ${pool.name}.`, error);
+      errors.set(pool.poolAddress, error);
+    }
+  }
+
+  candidates.sort((a, b) => b.expectedReturn - a.expectedReturn);
+  for (const { pool, poolConfig, loanToKick, expectedReturn } of candidates) {
+    const minExpectedReturn = poolConfig.kick.minExpectedReturn!;
+    if (expectedReturn < minExpectedReturn) {
+      logger.debug(
+        `Not kicking loan since expected return is too low. pool: ${pool.name}, borrower: ${loanToKick.borrower}, expectedReturn: ${expectedReturn}, minExpectedReturn: ${minExpectedReturn}`
+      );
+      continue;
+    }
+    logger.info(
+      `Kicking loan with expected return ${expectedReturn.toFixed(6)}. pool: ${pool.name}, borrower: ${loanToKick.borrower}`
+    );
+    // Kicks are not made pool by pool, so only approve one bond at a time.
+    await kick({
+      signer,
+      pool,
+      loanToKick: {
+        ...loanToKick,
+        estimatedRemainingBond: loanToKick.liquidationBond,
+      },
+      config,
+    });
+    await delay(config.delayBetweenActions);
+  }
+
+  for (const { pool } of pools) {
+    if (!errors.has(pool.poolAddress)) {
+      await clearAllowances({ pool, signer });
+    }
+  }
+  return errors;
+}
+
 interface ApproveBalanceParams {
-  pool: FungiblePool;
+  pool: AjnaPool;
   signer: Signer;
   loanToKick: LoanToKick;
 }
@@ -199,7 +328,13 @@ export async function approveBalanceForLoanToKick({
       logger.debug(
         `Approving quote. pool: ${pool.name}, amount: ${amountWithMargin} WAD (${readableAmount} quote tokens)`
       );
-      await poolQuoteApprove(pool, signer, amountWithMargin);
+      const receipt = await poolQuoteApprove(
+        pool,
+        signer,
+        amountWithMargin,
+        'kick'
+      );
+      recordGasSpent(pool.name, 'approve', receipt);
       logger.debug(
         `Approved quote. pool: ${pool.name}, amount: ${amountWithMargin} WAD (${readableAmount} quote tokens)`
       );
@@ -249,11 +384,23 @@ export async function kick({ pool, signer, config, loanToKick }: KickParams) {
       limitPrice > 0
         ? pool.getBucketByPrice(decimaledToWei(limitPrice)).index
         : undefined;
-    await poolKick(pool, signer, borrower, limitIndex);
+    recordKick(pool.name, 'attempted');
+    const receipt = await poolKick(pool, signer, borrower, limitIndex);
+    recordKick(pool.name, 'confirmed');
+    recordGasSpent(pool.name, 'kick', receipt);
+    await recordLedgerEntry({
+      action: 'kick',
+      strategy: 'kick',
+      pool,
+      receipt,
+      quoteDelta: -weiToDecimaled(liquidationBond),
+      price: limitPrice,
+    });
     logger.info(
       `Kick transaction confirmed. pool: ${pool.name}, borrower: ${borrower}`
     );
   } catch (error) {
+    recordKick(pool.name, 'failed');
     logger.error(
       `Failed to kick loan. pool: ${pool.name}, borrower: ${borrower}.`,
       error
@@ -264,7 +411,7 @@ export async function kick({ pool, signer, config, loanToKick }: KickParams) {
 /**
  * Sets allowances for this pool to zero if it's current allowance is greater than zero.
  */
-async function clearAllowances({
+export async function clearAllowances({
   pool,
   signer,
 }: Pick<HandleKickParams, 'pool' | 'signer'>) {
@@ -276,7 +423,13 @@ async function clearAllowances({
   if (allowance.gt(constants.Zero)) {
     try {
       logger.debug(`Clearing allowance. pool: ${pool.name}`);
-      await poolQuoteApprove(pool, signer, constants.Zero);
+      const receipt = await poolQuoteApprove(
+        pool,
+        signer,
+        constants.Zero,
+        'kick'
+      );
+      recordGasSpent(pool.name, 'approve', receipt);
       logger.debug(`Cleared allowance. pool: ${pool.name}`);
     } catch (error) {
       logger.error(`Failed to clear allowance. pool: ${pool.name}`, error);
@@ -0,0 +1,269 @@
+import { Signer } from '@ajna-finance/sdk';
+import { BigNumber, providers, utils } from 'ethers';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { KeeperConfig, LiquiditySource } from './config-types';
+import { getDecimalsErc20 } from './erc20';
+import { logger } from './logging';
+import { GasReceipt, getGasCost } from './metrics';
+import { resolvePrice } from './take-profit';
+import { AjnaPool, weiToDecimaled } from './utils';
+
+export type LedgerAction =
+  | 'kick'
+  | 'take'
+  | 'arbTake'
+  | 'reserveKick'
+  | 'reserveTake'
+  | 'updateInterest'
+  | 'protectLoan'
+  | 'moveQuote'
+  | 'bondWithdrawal'
+  | 'lpRedemption'
+  | 'rewardSwap';
+
+/**
+ * One confirmed keeper action. Token deltas are from the keeper's point of view
+ * (positive when received) and denominated in whole tokens.
+ */
+export interface LedgerEntry {
+  timestamp: string;
+  chainId: number;
+  action: LedgerAction;
+  /** Groups actions for reporting, e.g. `kick`, `take:uniswapv3`, `arbTake`, `lpReward`. */
+  strategy: string;
+  pool?: string;
+  poolAddress?: string;
+  txHash?: string;
+  /** Gas paid, in the native token. */
+  gasCost?: number;
+  quoteDelta?: number;
+  collateralDelta?: number;
+  lpDelta?: number;
+  /**
+   * For takes, the collateral taken from the auction and the quote paid to the
+   * pool for it, including collateral swapped away in the same transaction.
+   */
+  collateralTaken?: number;
+  quotePaid?: number;
+  /** For reward swaps, the token sold and the amount sold (negative). */
+  token?: string;
+  tokenDelta?: number;
+  /** Collateral priced in quote token, from the pool's configured price source. */
+  price?: number;
+}
+
+type LedgerConfig = Pick<
+  KeeperConfig,
+  'ledgerFile' | 'pools' | 'coinGeckoApiKey' | 'ethRpcUrl' | 'tokenAddresses'
+>;
+
+let ledgerConfig: LedgerConfig | undefined;
+let ledgerChainId: number = 0;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Enables the ledger if `ledgerFile` is set. Entries recorded before this is
+ * called, or when no file is configured, are dropped.
+ */
+export function configureLedger(config: LedgerConfig, chainId: number) {
+  ledgerConfig = config.ledgerFile ? config : undefined;
+  ledgerChainId = chainId;
+  if (ledgerConfig) {
+    logger.info(`Recording keeper actions to ledger ${config.ledgerFile}`);
+  }
+}
+
+interface RecordLedgerEntryParams
+  extends Omit<LedgerEntry, 'timestamp' | 'chainId' | 'pool' | 'poolAddress' | 'txHash' | 'gasCost'> {
+  pool?: AjnaPool;
+  receipt?: GasReceipt & Pick<providers.TransactionReceipt, 'transactionHash'>;
+}
+
+/**
+ * Appends an action to the ledger. If no price is given and the action moves
+ * or takes collateral, the pool's configured price source is queried for a
+ * snapshot.
+ * Never throws: failing to record must not fail the action itself.
+ */
+export async function recordLedgerEntry({
+  pool,
+  receipt,
+  ...entry
+}: RecordLedgerEntryParams) {
+  const config = ledgerConfig;
+  if (!config?.ledgerFile) return;
+  try {
+    const price =
+      entry.price ??
+      (pool && (entry.collateralDelta || entry.collateralTaken)
+        ? await getPriceSnapshot(config, pool)
+        : undefined);
+    const line: LedgerEntry = {
+      timestamp: new Date().toISOString(),
+      chainId: ledgerChainId,
+      ...entry,
+      ...(pool && { pool: pool.name, poolAddress: pool.poolAddress }),
+      ...(receipt && {
+        txHash: receipt.transactionHash,
+        gasCost: getGasCost(receipt),
+      }),
+      ...(price !== undefined && { price }),
+    };
+    await appendLine(config.ledgerFile, JSON.stringify(line));
+  } catch (error) {
+    logger.error(`Failed to record ${entry.action} in ledger:`, error);
+  }
+}
+
+const ERC20_TRANSFER = new utils.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+type LedgerReceipt = NonNullable<RecordLedgerEntryParams['receipt']> &
+  Pick<providers.TransactionReceipt, 'logs'>;
+
+/** Collateral taken and quote paid (WAD) according to the pool's `Take` events in a receipt. */
+export function getTakeAmounts(
+  pool: AjnaPool,
+  receipt: Pick<providers.TransactionReceipt, 'logs'>
+): { collateral: BigNumber; quotePaid: BigNumber } {
+  let collateral = BigNumber.from(0);
+  let quotePaid = BigNumber.from(0);
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== pool.poolAddress.toLowerCase()) continue;
+    try {
+      const parsed = pool.contract.interface.parseLog(log);
+      if (parsed.name !== 'Take') continue;
+      collateral = collateral.add(parsed.args.collateral);
+      quotePaid = quotePaid.add(parsed.args.amount);
+    } catch (error) {
+      // Not a pool event we know about.
+    }
+  }
+  return { collateral, quotePaid };
+}
+
+/** Quote token, in token decimals, transferred to `account` in a receipt. */
+function getQuoteReceived(
+  pool: AjnaPool,
+  receipt: Pick<providers.TransactionReceipt, 'logs'>,
+  account: string
+): BigNumber {
+  let received = BigNumber.from(0);
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== pool.quoteAddress.toLowerCase()) continue;
+    try {
+      const { name, args } = ERC20_TRANSFER.parseLog(log);
+      if (name === 'Transfer' && args.to.toLowerCase() === account.toLowerCase()) {
+        received = received.add(args.value);
+      }
+    } catch (error) {
+      // Not a Transfer.
+    }
+  }
+  return received;
+}
+
+/**
+ * Records a take through a taker contract. The collateral is swapped for
+ * quote token in the same transaction, so the keeper never holds it: its
+ * `quoteDelta` is the quote token the taker sent on to the keeper once the
+ * pool was paid. The collateral taken and quote paid come from the pool's
+ * `Take` event.
+ */
+export async function recordTakeInLedger(
+  pool: AjnaPool,
+  liquiditySource: LiquiditySource,
+  receipt: LedgerReceipt,
+  signer: Signer
+) {
+  const { collateral, quotePaid } = getTakeAmounts(pool, receipt);
+  const quoteReceived = getQuoteReceived(
+    pool,
+    receipt,
+    await signer.getAddress()
+  );
+  const quoteDecimals = await getDecimalsErc20(signer, pool.quoteAddress);
+  const quoteDelta = weiToDecimaled(quoteReceived, quoteDecimals);
+  await recordLedgerEntry({
+    action: 'take',
+    strategy: `take:${LiquiditySource[liquiditySource].toLowerCase()}`,
+    pool,
+    receipt,
+    quoteDelta,
+    collateralTaken: weiToDecimaled(collateral),
+    quotePaid: weiToDecimaled(quotePaid),
+  });
+}
+
+async function getPriceSnapshot(
+  config: LedgerConfig,
+  pool: AjnaPool
+): Promise<number | undefined> {
+  const poolConfig = config.pools.find(
+    ({ address }) => address.toLowerCase() === pool.poolAddress.toLowerCase()
+  );
+  if (!poolConfig) return undefined;
+  try {
+    return await resolvePrice(poolConfig.price, pool, ledgerChainId, config);
+  } catch (error) {
+    logger.warn(`Could not snapshot price for ledger entry. pool: ${pool.name}`, error);
+    return undefined;
+  }
+}
+
+/** Writes are chained so lines from concurrent loops never interleave. */
+function appendLine(filePath: string, line: string): Promise<void> {
+  const write = pendingWrite.then(async () => {
+    await fs.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+    await fs.appendFile(filePath, line + '\n', 'utf-8');
+  });
+  pendingWrite = write.catch(() => {});
+  return write;
+}
+
+/**
+ * Reads every entry from a ledger file, skipping lines that fail to parse.
+ */
+export async function readLedger(filePath: string): Promise<LedgerEntry[]> {
+  const contents = await fs.readFile(filePath, 'utf-8');
+  const entries: LedgerEntry[] = [];
+  contents.split('\n').forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      entries.push(JSON.parse(line));
+    } catch (error) {
+      logger.warn(`Skipping malformed ledger line ${i + 1} in ${filePath}`);
+    }
+  });
+  return entries;
+}
+
+/**
+ * Sums the LP awarded to `account` by BucketTakeLPAwarded events in a bucketTake receipt.
+ */
+export function getLpAwarded(
+  pool: AjnaPool,
+  receipt: Pick<providers.TransactionReceipt, 'logs'>,
+  account: string
+): number {
+  let lpAwarded = BigNumber.from(0);
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== pool.poolAddress.toLowerCase()) continue;
+    try {
+      const parsed = pool.contract.interface.parseLog(log);
+      if (parsed.name !== 'BucketTakeLPAwarded') continue;
+      const { taker, kicker, lpAwardedTaker, lpAwardedKicker } = parsed.args;
+      if (taker.toLowerCase() === account.toLowerCase()) {
+        lpAwarded = lpAwarded.add(lpAwardedTaker);
+      }
+      if (kicker.toLowerCase() === account.toLowerCase()) {
+        lpAwarded = lpAwarded.add(lpAwardedKicker);
+      }
+    } catch (error) {
+      // Not a pool event we know about.
+    }
+  }
+  return weiToDecimaled(lpAwarded);
+}
@@ -0,0 +1,127 @@
+import { Signer } from '@ajna-finance/sdk';
+import { BigNumber } from 'ethers';
+import {
+  KeeperConfig,
+  PoolConfig,
+  PriceOriginPoolReference,
+} from './config-types';
+import { recordLedgerEntry } from './ledger';
+import { logger } from './logging';
+import { recordGasSpent, recordQuoteMove } from './metrics';
+import { poolMoveQuoteToken } from './transactions';
+import { AjnaPool, RequireFields, weiToDecimaled } from './utils';
+
+/** Buckets deposits were moved to, by pool address, watched alongside the configured ones. */
+const movedToBuckets = new Map<string, Set<number>>();
+
+interface HandleLenderGuardParams {
+  pool: AjnaPool;
+  poolConfig: RequireFields<PoolConfig, 'lenderGuard'>;
+  signer: Signer;
+  config: Pick<KeeperConfig, 'dryRun'>;
+}
+
+/**
+ * The bucket a deposit in `index` should move to, or undefined when it is
+ * safe. Lower indexes are higher prices, so a deposit is at risk once its
+ * index is within `riskOffset` of the reference price's bucket, or past it.
+ */
+export function getSaferBucketIndex(
+  index: number,
+  referenceIndex: number,
+  riskOffset: number,
+  targetOffset: number
+): number | undefined {
+  if (index < referenceIndex - riskOffset) return undefined;
+  const target = Math.max(1, referenceIndex - targetOffset);
+  return target < index ? target : undefined;
+}
+
+/**
+ * Keeps the keeper's deposits away from LUP, or HTP, by moving the quote token
+ * of any bucket at risk `targetOffset` buckets above the reference price.
+ * Pools without debt are skipped, as no deposit is used there.
+ */
+export async function handleLenderGuard({
+  pool,
+  poolConfig,
+  signer,
+  config,
+}: HandleLenderGuardParams) {
+  const {
+    bucketIndexes,
+    reference = PriceOriginPoolReference.LUP,
+    riskOffset,
+    targetOffset,
+    minAmount = 0,
+  } = poolConfig.lenderGuard;
+  const { lup, htp } = await pool.getPrices();
+  if (htp.isZero()) {
+    logger.debug(`Not guarding deposits in pool ${pool.name}, it has no debt`);
+    return;
+  }
+  const referencePrice = reference === PriceOriginPoolReference.HTP ? htp : lup;
+  const referenceIndex: number = pool.getBucketByPrice(referencePrice).index;
+  const signerAddress = await signer.getAddress();
+  const moved = movedToBuckets.get(pool.poolAddress) ?? new Set<number>();
+
+  const indexes = bucketIndexes.concat(
+    Array.from(moved).filter((index) => !bucketIndexes.includes(index))
+  );
+  for (const index of indexes) {
+    const target = getSaferBucketIndex(
+      index,
+      referenceIndex,
+      riskOffset,
+      targetOffset
+    );
+    if (target === undefined) continue;
+    const { depositRedeemable }: { depositRedeemable: BigNumber } = await pool
+      .getBucketByIndex(index)
+      .getPosition(signerAddress);
+    const amount = weiToDecimaled(depositRedeemable);
+    if (depositRedeemable.isZero() || amount < minAmount) continue;
+
+    logger.warn(
+      `Deposit at risk. pool: ${pool.name}, bucket: ${index}, amount: ${amount}, ${reference}: ${weiToDecimaled(referencePrice)} (bucket ${referenceIndex})`
+    );
+    if (config.dryRun) {
+      logger.info(
+        `DryRun - Would move ${amount} quote token from bucket ${index} to ${target} - pool: ${pool.name}`
+      );
+      continue;
+    }
+
+    try {
+      recordQuoteMove(pool.name, 'attempted');
+      const receipt = await poolMoveQuoteToken(
+        pool,
+        signer,
+        depositRedeemable,
+        index,
+        target
+      );
+      recordQuoteMove(pool.name, 'confirmed');
+      recordGasSpent(pool.name, 'moveQuote', receipt);
+      await recordLedgerEntry({
+        action: 'moveQuote',
+        strategy: 'lenderGuard',
+        pool,
+        receipt,
+      });
+      moved.add(target);
+      movedToBuckets.set(pool.poolAddress, moved);
+      if (!bucketIndexes.includes(target)) {
+        logger.info(
+          `Watching bucket ${target} in pool ${pool.name} until restart, add it to lenderGuard.bucketIndexes to keep guarding it`
+        );
+      }
+    } catch (error) {
+      recordQuoteMove(pool.name, 'failed');
+      logger.error(
+        `Failed to move deposit. pool: ${pool.name}, bucket: ${index}`,
+        error
+      );
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { logger } from './logging';
+
+/**
+ * Shared stop signal for the keeper loops.
+ *
+ * Loops check `isStopping` between pools and sleep through `delay`, which
+ * resolves early once a stop is requested so a shutdown never waits out a
+ * full `delayBetweenRuns`.
+ */
+export class KeeperLifecycle {
+  private stopping: boolean = false;
+  private wakeUps: Set<() => void> = new Set();
+
+  public get isStopping(): boolean {
+    return this.stopping;
+  }
+
+  public requestStop(reason: string) {
+    if (this.stopping) return;
+    this.stopping = true;
+    logger.info(`Stop requested (${reason}), waiting for loops to finish`);
+    for (const wakeUp of Array.from(this.wakeUps)) {
+      wakeUp();
+    }
+  }
+
+  /**
+   * Sleeps for the given number of seconds, or until a stop is requested.
+   */
+  public async delay(seconds: number): Promise<void> {
+    if (this.stopping) return;
+    return new Promise((resolve) => {
+      const wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUps.delete(wakeUp);
+        resolve();
+      };
+      const timer = setTimeout(wakeUp, seconds * 1000);
+      this.wakeUps.add(wakeUp);
+    });
+  }
+}
+
+/**
+ * Resolves true if the promise settles within the timeout, false otherwise.
+ */
+export async function settlesWithin(
+  promise: Promise<unknown>,
+  timeoutSeconds: number
+): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutSeconds * 1000);
+  });
+  try {
+    return await Promise.race([
+      promise.then(
+        () => true,
+        () => true
+      ),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,342 @@
+import { BigNumber, utils } from 'ethers';
+import { LiquiditySource, PostAuctionDex } from './config-types';
+
+type Labels = { [name: string]: string | number };
+
+/** Seconds. Covers fast RPC reads up to slow subgraph queries. */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+interface Metric {
+  name: string;
+  render(defaultLabels: Labels): string[];
+  reset(): void;
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const formatted = entries.map(
+    ([name, value]) =>
+      `${name}="${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return `{${formatted.join(',')}}`;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((name) => [name, String(labels[name])])
+  );
+}
+
+export class Counter implements Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(
+    public name: string,
+    private help: string
+  ) {}
+
+  inc(labels: Labels = {}, value: number = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  render(defaultLabels: Labels): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of Array.from(this.values.values())) {
+      lines.push(`${this.name}${formatLabels({ ...defaultLabels, ...labels })} ${value}`);
+    }
+    return lines;
+  }
+
+  reset() {
+    this.values = new Map();
+  }
+}
+
+interface HistogramEntry {
+  labels: Labels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  private values: Map<string, HistogramEntry> = new Map();
+
+  constructor(
+    public name: string,
+    private help: string,
+    private buckets: number[] = LATENCY_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? {
+      labels,
+      bucketCounts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.bucketCounts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  /**
+   * Starts timing an operation. Call the returned function once it finishes to
+   * record its duration in seconds, optionally adding labels known only at the end.
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => void {
+    const start = process.hrtime.bigint();
+    return (extraLabels: Labels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+    };
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.count ?? 0;
+  }
+
+  render(defaultLabels: Labels): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, bucketCounts, sum, count } of Array.from(this.values.values())) {
+      const allLabels = { ...defaultLabels, ...labels };
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...allLabels, le: bound })} ${bucketCounts[i]}`
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...allLabels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(allLabels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(allLabels)} ${count}`);
+    }
+    return lines;
+  }
+
+  reset() {
+    this.values = new Map();
+  }
+}
+
+/**
+ * Holds every keeper metric and renders them in the Prometheus text exposition format.
+ * Default labels (the chain id) are added to every sample at render time.
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private defaultLabels: Labels = {};
+
+  counter(name: string, help: string): Counter {
+    const counter = new Counter(name, help);
+    this.metrics.push(counter);
+    return counter;
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    const histogram = new Histogram(name, help, buckets);
+    this.metrics.push(histogram);
+    return histogram;
+  }
+
+  setDefaultLabels(labels: Labels) {
+    this.defaultLabels = { ...labels };
+  }
+
+  render(): string {
+    const lines = this.metrics.flatMap((metric) => metric.render(this.defaultLabels));
+    return lines.join('\n') + '\n';
+  }
+
+  reset() {
+    this.metrics.forEach((metric) => metric.reset());
+  }
+}
+
+export const registry = new MetricsRegistry();
+
+export const kicksTotal = registry.counter(
+  'ajna_keeper_kicks_total',
+  'Kicks by pool and status (attempted, confirmed, failed).'
+);
+export const takesTotal = registry.counter(
+  'ajna_keeper_takes_total',
+  'Takes and arbTakes by pool, liquidity source and status (attempted, confirmed, failed).'
+);
+export const settlementIterationsTotal = registry.counter(
+  'ajna_keeper_settlement_iterations_total',
+  'Settle transactions sent while settling auctions, by pool.'
+);
+export const settlementsTotal = registry.counter(
+  'ajna_keeper_settlements_total',
+  'Auction settlements by pool and result (completed, partial, failed).'
+);
+export const reserveAuctionsTotal = registry.counter(
+  'ajna_keeper_reserve_auctions_total',
+  'Reserve auction kicks and takes by pool, action and status (attempted, confirmed, failed).'
+);
+export const interestUpdatesTotal = registry.counter(
+  'ajna_keeper_interest_updates_total',
+  'updateInterest calls by pool, expected rate direction and status (attempted, confirmed, failed).'
+);
+export const loanProtectionsTotal = registry.counter(
+  'ajna_keeper_loan_protections_total',
+  'Collateral pledged to or debt repaid for protected loans, by pool, action and status (attempted, confirmed, failed).'
+);
+export const quoteMovesTotal = registry.counter(
+  'ajna_keeper_quote_moves_total',
+  'Deposits moved away from LUP or HTP, by pool and status (attempted, confirmed, failed).'
+);
+export const swapsTotal = registry.counter(
+  'ajna_keeper_dex_swaps_total',
+  'DEX swaps of collected rewards by dex and status (success, failure).'
+);
+export const rpcDuration = registry.histogram(
+  'ajna_keeper_rpc_request_duration_seconds',
+  'JSON-RPC request latency by method and status.'
+);
+export const subgraphDuration = registry.histogram(
+  'ajna_keeper_subgraph_request_duration_seconds',
+  'Subgraph query latency by query and status.'
+);
+export const gasUsedTotal = registry.counter(
+  'ajna_keeper_gas_used_total',
+  'Gas used by confirmed keeper transactions, by pool and action.'
+);
+export const gasCostTotal = registry.counter(
+  'ajna_keeper_gas_cost_native_total',
+  'Gas paid by confirmed keeper transactions in the native token, by pool and action.'
+);
+
+export const stuckTransactionsTotal = registry.counter(
+  'ajna_keeper_stuck_transactions_total',
+  'Transactions not mined in time, by outcome (mined after a fee bump, cancelled, stuck).'
+);
+
+export const preflightRevertsTotal = registry.counter(
+  'ajna_keeper_preflight_reverts_total',
+  'Transactions not sent because their simulation reverted, by action and decoded reason.'
+);
+
+export type TxStatus = 'attempted' | 'confirmed' | 'failed';
+
+export function recordKick(poolName: string, status: TxStatus) {
+  kicksTotal.inc({ pool: poolName, status });
+}
+
+export function recordTake(
+  poolName: string,
+  liquiditySource: LiquiditySource | undefined,
+  status: TxStatus
+) {
+  const type = liquiditySource === undefined ? 'arbTake' : 'take';
+  const source =
+    liquiditySource === undefined ? 'none' : LiquiditySource[liquiditySource].toLowerCase();
+  takesTotal.inc({ pool: poolName, type, liquidity_source: source, status });
+}
+
+export function recordSettlementIteration(poolName: string) {
+  settlementIterationsTotal.inc({ pool: poolName });
+}
+
+export function recordSettlementResult(
+  poolName: string,
+  result: { success: boolean; completed: boolean }
+) {
+  const outcome = !result.success ? 'failed' : result.completed ? 'completed' : 'partial';
+  settlementsTotal.inc({ pool: poolName, result: outcome });
+}
+
+export function recordReserveAuction(
+  poolName: string,
+  action: 'kick' | 'take',
+  status: TxStatus
+) {
+  reserveAuctionsTotal.inc({ pool: poolName, action, status });
+}
+
+export function recordInterestUpdate(
+  poolName: string,
+  direction: string,
+  status: TxStatus
+) {
+  interestUpdatesTotal.inc({ pool: poolName, direction, status });
+}
+
+export function recordLoanProtection(
+  poolName: string,
+  action: string,
+  status: TxStatus
+) {
+  loanProtectionsTotal.inc({ pool: poolName, action, status });
+}
+
+export function recordQuoteMove(poolName: string, status: TxStatus) {
+  quoteMovesTotal.inc({ pool: poolName, status });
+}
+
+export function recordSwap(dex: PostAuctionDex, success: boolean) {
+  swapsTotal.inc({ dex, status: success ? 'success' : 'failure' });
+}
+
+export interface GasReceipt {
+  gasUsed: BigNumber;
+  effectiveGasPrice?: BigNumber;
+}
+
+/** Gas paid for a transaction in the native token, if the receipt reports the gas price. */
+export function getGasCost(receipt: GasReceipt): number | undefined {
+  if (!receipt.effectiveGasPrice) return undefined;
+  return parseFloat(utils.formatEther(receipt.gasUsed.mul(receipt.effectiveGasPrice)));
+}
+
+/** Does nothing without a receipt, so a missing receipt never fails the action itself. */
+export function recordGasSpent(poolName: string, action: string, receipt?: GasReceipt) {
+  if (!receipt) return;
+  const labels = { pool: poolName, action };
+  gasUsedTotal.inc(labels, receipt.gasUsed.toNumber());
+  const gasCost = getGasCost(receipt);
+  if (gasCost !== undefined) {
+    gasCostTotal.inc(labels, gasCost);
+  }
+}
+
+export function recordStuckTransaction(outcome: 'bumped' | 'cancelled' | 'stuck') {
+  stuckTransactionsTotal.inc({ outcome });
+}
+
+export function recordPreflightRevert(action: string, reason: string) {
+  preflightRevertsTotal.inc({ action, reason });
+}
+
+/**
+ * Times a promise-returning call into the given histogram, labelling it with
+ * status `ok` or `error`.
+ */
+export async function timed<T>(
+  histogram: Histogram,
+  labels: Labels,
+  fn: () => Promise<T>
+): Promise<T> {
+  const stopTimer = histogram.startTimer(labels);
+  try {
+    const result = await fn();
+    stopTimer({ status: 'ok' });
+    return result;
+  } catch (error) {
+    stopTimer({ status: 'error' });
+    throw error;
+  }
+}
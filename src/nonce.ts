@@ -41,6 +41,30 @@ export class NonceTracker {
     return tracker.queueTransaction(signer, txFunction);
   }
 
+  /**
+   * The next nonce the tracker will hand out for this address, without reserving it.
+   */
+  static getTrackedNonce(address: string): number | undefined {
+    const tracker = new NonceTracker();
+    return tracker.nonces.get(address);
+  }
+
+  static async drain(): Promise<void> {
+    const tracker = new NonceTracker();
+    return tracker.drain();
+  }
+
+  /**
+   * Resolves once every queued transaction has settled. Transactions queued
+   * while draining are waited on as well.
+   */
+  public async drain(): Promise<void> {
+    while (this.queues.size > 0) {
+      logger.debug(`Waiting for ${this.queues.size} transaction queue(s) to settle`);
+      await Promise.all(Array.from(this.queues.values()));
+    }
+  }
+
   public async getNonce(signer: Signer): Promise<number> {
     const address = await signer.getAddress();
     logger.debug(`Getting nonce for address: ${address}`);
@@ -0,0 +1,166 @@
+import { utils } from 'ethers';
+import { logger } from './logging';
+import { recordPreflightRevert } from './metrics';
+
+/** Selectors of Solidity's built-in `Error(string)` and `Panic(uint256)`. */
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+/** Custom errors of Ajna pools and of the keeper taker contracts, used to decode revert data. */
+const REVERT_INTERFACE = new utils.Interface([
+  // Ajna pools
+  'error AddAboveAuctionPrice()',
+  'error AlreadyInitialized()',
+  'error AmountLTMinDebt()',
+  'error AuctionActive()',
+  'error AuctionNotClearable()',
+  'error AuctionNotCleared()',
+  'error AuctionNotTakeable()',
+  'error AuctionPriceGtBucketPrice()',
+  'error BorrowerNotSender()',
+  'error BorrowerOk()',
+  'error BorrowerUnderCollateralized()',
+  'error BucketBankruptcyBlock()',
+  'error BucketIndexOutOfBounds()',
+  'error CannotMergeToHigherPrice()',
+  'error DustAmountNotExceeded()',
+  'error FlashloanCallbackFailed()',
+  'error FlashloanIncorrectBalance()',
+  'error FlashloanUnavailableForToken()',
+  'error InsufficientCollateral()',
+  'error InsufficientLiquidity()',
+  'error InsufficientLP()',
+  'error InvalidAllowancesInput()',
+  'error InvalidAmount()',
+  'error InvalidIndex()',
+  'error LimitIndexExceeded()',
+  'error LUPBelowHTP()',
+  'error LUPGreaterThanTP()',
+  'error MoveToSameIndex()',
+  'error NoAllowance()',
+  'error NoAuction()',
+  'error NoClaim()',
+  'error NoDebt()',
+  'error NoReserves()',
+  'error NoReservesAuction()',
+  'error PriceBelowLUP()',
+  'error RemoveDepositLockedByAuctionDebt()',
+  'error ReserveAuctionTooSoon()',
+  'error TransactionExpired()',
+  'error TransferorNotApproved()',
+  'error TransferToSameOwner()',
+  'error ZeroThresholdPrice()',
+  // AjnaKeeperTakerFactory and takers
+  'error InvalidPool()',
+  'error InvalidPoolType()',
+  'error InvalidSwapDetails()',
+  'error InvalidTaker()',
+  'error SwapFailed()',
+  'error TakerNotSet()',
+  'error Unauthorized()',
+  'error UnsupportedLiquiditySource()',
+  'error UnsupportedSource()',
+]);
+
+const REVERT_ERROR_CODES = ['CALL_EXCEPTION', 'UNPREDICTABLE_GAS_LIMIT'];
+
+/** Thrown instead of sending a transaction whose simulation reverted. */
+export class SimulationRevertedError extends Error {
+  constructor(
+    public readonly action: string,
+    public readonly reason: string,
+    public readonly cause?: unknown
+  ) {
+    super(`${action} would revert: ${reason}`);
+    this.name = 'SimulationRevertedError';
+    Object.setPrototypeOf(this, SimulationRevertedError.prototype);
+  }
+}
+
+/**
+ * Revert data carried by an ethers or JSON-RPC error. Depending on the
+ * provider it is on the error itself, on a nested error, or in the raw
+ * response body.
+ */
+function findRevertData(error: any, depth: number = 0): string | undefined {
+  if (!error || typeof error !== 'object' || depth > 5) return undefined;
+  if (
+    typeof error.data === 'string' &&
+    utils.isHexString(error.data) &&
+    error.data.length >= 10
+  ) {
+    return error.data;
+  }
+  if (typeof error.body === 'string') {
+    try {
+      const found = findRevertData(JSON.parse(error.body), depth + 1);
+      if (found) return found;
+    } catch {
+      // Not JSON, nothing to find.
+    }
+  }
+  return (
+    findRevertData(error.data, depth + 1) ??
+    findRevertData(error.error, depth + 1)
+  );
+}
+
+function isRevert(error: any): boolean {
+  return (
+    findRevertData(error) !== undefined ||
+    REVERT_ERROR_CODES.includes(error?.code) ||
+    /revert/i.test(String(error?.message ?? ''))
+  );
+}
+
+/**
+ * A readable reason for a reverted call or transaction, e.g. `AuctionNotTakeable`,
+ * `TakerNotSet` or the message of a `require`. Falls back to the error selector
+ * for unknown custom errors, and to the error message when there is no revert data.
+ */
+export function decodeRevertReason(error: any): string {
+  const data = findRevertData(error);
+  if (data) {
+    try {
+      const selector = data.slice(0, 10);
+      const encodedArgs = utils.hexDataSlice(data, 4);
+      if (selector === ERROR_SELECTOR) {
+        return utils.defaultAbiCoder.decode(['string'], encodedArgs)[0];
+      }
+      if (selector === PANIC_SELECTOR) {
+        const [code] = utils.defaultAbiCoder.decode(['uint256'], encodedArgs);
+        return `Panic(${code.toHexString()})`;
+      }
+      const { name, args } = REVERT_INTERFACE.parseError(data);
+      return args.length > 0 ? `${name}(${args.map(String).join(', ')})` : name;
+    } catch {
+      return `unknown error ${data.slice(0, 10)}`;
+    }
+  }
+  if (error?.errorName) return error.errorName;
+  return error?.reason ?? error?.message ?? String(error);
+}
+
+/**
+ * Runs `simulate`, a `callStatic`, `eth_call` or gas estimate of the
+ * transaction about to be sent, and returns its result. When it reverts, logs
+ * and counts the decoded reason and throws `SimulationRevertedError`, so the
+ * caller skips the send. Other failures, such as RPC errors, are rethrown as is.
+ */
+export async function preflight<T>(
+  action: string,
+  target: string,
+  simulate: () => Promise<T>
+): Promise<T> {
+  try {
+    return await simulate();
+  } catch (error) {
+    if (!isRevert(error)) throw error;
+    const reason = decodeRevertReason(error);
+    recordPreflightRevert(action, reason);
+    logger.warn(
+      `Simulation of ${action} on ${target} reverted with ${reason}, not sending it`
+    );
+    throw new SimulationRevertedError(action, reason, error);
+  }
+}
@@ -12,7 +12,7 @@ import { logger } from './logging';
 export async function getPrice(
   priceOrigin: PriceOrigin,
   coinGeckoApiKey: string | undefined = '',
-  poolPrices: PriceInfo,
+  poolPrices?: PriceInfo,
   chainId?: number,
   rpcUrl?: string,
   tokenAddresses?: { [key: string]: string }
@@ -42,7 +42,7 @@ export async function getPrice(
 }
 
 export async function getPoolPrice(
-  poolPrices: PriceInfo,
+  poolPrices: PriceInfo | undefined,
   reference: PriceOriginPoolReference
 ): Promise<number> {
   let price;
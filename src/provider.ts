@@ -1,6 +1,9 @@
-import { providers, BigNumber } from 'ethers';
+import { providers, BigNumber, Signer } from 'ethers';
 import { decimaledToWei } from './utils';
 import { wmul } from '@ajna-finance/sdk';
+import { rpcDuration, timed } from './metrics';
+import { GasAction } from './config-types';
+import { capFeeData } from './gas-policy';
 
 export interface FeeData {
   lastBaseFeePerGas: null | BigNumber;
@@ -9,8 +12,17 @@ export interface FeeData {
   gasPrice: null | BigNumber;
 }
 
+export type FeeOverrides = Pick<
+  providers.TransactionRequest,
+  'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'
+>;
+
 /** An extension of ethers@v5 JsonRpcProvider which takes advantage of the fee structure from EIP-1559. */
 export class JsonRpcProvider extends providers.JsonRpcProvider {
+  async send(method: string, params: Array<any>): Promise<any> {
+    return timed(rpcDuration, { method }, () => super.send(method, params));
+  }
+
   // This uses the logic of ethers@v6: getFeeData and makes it compatible with ethers@v5: getFeeData.
   // V6: https://github.com/ethers-io/ethers.js/blob/v6.13.5/src.ts/providers/abstract-provider.ts
   // V5: https://github.com/ethers-io/ethers.js/blob/v5.7.2/packages/abstract-provider/src.ts/index.ts#L235
@@ -19,7 +31,8 @@ export class JsonRpcProvider extends providers.JsonRpcProvider {
     return BigNumber.from(response);
   }
 
-  async getFeeData(): Promise<FeeData> {
+  /** Fee data capped at the gas ceiling of `action`, or the chain's when none is given. */
+  async getFeeData(action?: GasAction): Promise<FeeData> {
     const [block, gasPrice, priorityFee] = await Promise.all([
       this.getBlock('latest'),
       this.getGasPrice().catch((error) => {
@@ -44,6 +57,31 @@ export class JsonRpcProvider extends providers.JsonRpcProvider {
       );
     }
 
-    return { gasPrice, maxFeePerGas, maxPriorityFeePerGas, lastBaseFeePerGas };
+    return capFeeData(
+      {
+        gasPrice,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+        lastBaseFeePerGas,
+      },
+      action
+    );
+  }
+}
+
+/**
+ * Fee overrides for a transaction of `action`, capped at its gas ceiling.
+ * Transactions sent without them are capped at the chain's ceiling.
+ */
+export async function getFeeOverrides(
+  signer: Signer,
+  action: GasAction
+): Promise<FeeOverrides> {
+  if (!(signer.provider instanceof JsonRpcProvider)) return {};
+  const { gasPrice, maxFeePerGas, maxPriorityFeePerGas } =
+    await signer.provider.getFeeData(action);
+  if (maxFeePerGas && maxPriorityFeePerGas) {
+    return { maxFeePerGas, maxPriorityFeePerGas };
   }
+  return gasPrice ? { gasPrice } : {};
 }
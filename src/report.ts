@@ -0,0 +1,130 @@
+import { LedgerEntry } from './ledger';
+
+export interface ReportRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface StrategySummary {
+  pool: string;
+  strategy: string;
+  actions: number;
+  /** Quote received minus quote paid, plus collateral received valued at each entry's price snapshot. */
+  realizedPnl: number;
+  /** Collateral received in entries which have no price snapshot, and so is missing from `realizedPnl`. */
+  unpricedCollateral: number;
+  /** LP awarded minus LP redeemed. */
+  lpDelta: number;
+  /** Gas paid in the native token. */
+  gasCost: number;
+}
+
+/** Pool name used for entries which are not tied to a pool, such as reward swaps. */
+const NO_POOL = '(none)';
+
+export function isInRange(entry: LedgerEntry, { from, to }: ReportRange): boolean {
+  const timestamp = new Date(entry.timestamp).getTime();
+  if (from && timestamp < from.getTime()) return false;
+  if (to && timestamp >= to.getTime()) return false;
+  return true;
+}
+
+/**
+ * Sums ledger entries within the range per pool and strategy.
+ * Results are sorted by pool, then strategy.
+ */
+export function summarizeLedger(
+  entries: LedgerEntry[],
+  range: ReportRange = {}
+): StrategySummary[] {
+  const summaries: Map<string, StrategySummary> = new Map();
+  for (const entry of entries.filter((entry) => isInRange(entry, range))) {
+    const pool = entry.pool ?? NO_POOL;
+    const key = `${pool}\n${entry.strategy}`;
+    const summary = summaries.get(key) ?? {
+      pool,
+      strategy: entry.strategy,
+      actions: 0,
+      realizedPnl: 0,
+      unpricedCollateral: 0,
+      lpDelta: 0,
+      gasCost: 0,
+    };
+    summary.actions++;
+    summary.realizedPnl += entry.quoteDelta ?? 0;
+    if (entry.collateralDelta) {
+      if (entry.price !== undefined) {
+        summary.realizedPnl += entry.collateralDelta * entry.price;
+      } else {
+        summary.unpricedCollateral += entry.collateralDelta;
+      }
+    }
+    summary.lpDelta += entry.lpDelta ?? 0;
+    summary.gasCost += entry.gasCost ?? 0;
+    summaries.set(key, summary);
+  }
+  return Array.from(summaries.values()).sort(
+    (a, b) => a.pool.localeCompare(b.pool) || a.strategy.localeCompare(b.strategy)
+  );
+}
+
+function formatNumber(value: number): string {
+  return value.toFixed(6).replace(/\.?0+$/, '') || '0';
+}
+
+/**
+ * Renders summaries as a plain text table with a subtotal per pool.
+ * PnL is in each pool's quote token, so pools are never summed together.
+ */
+export function formatReport(
+  summaries: StrategySummary[],
+  range: ReportRange = {}
+): string {
+  const header = ['pool', 'strategy', 'actions', 'realizedPnl', 'unpricedCollateral', 'lpDelta', 'gasCost'];
+  const rows: string[][] = [];
+  const pools = Array.from(new Set(summaries.map(({ pool }) => pool)));
+  for (const pool of pools) {
+    const poolSummaries = summaries.filter((summary) => summary.pool === pool);
+    for (const summary of poolSummaries) {
+      rows.push([
+        summary.pool,
+        summary.strategy,
+        String(summary.actions),
+        formatNumber(summary.realizedPnl),
+        formatNumber(summary.unpricedCollateral),
+        formatNumber(summary.lpDelta),
+        formatNumber(summary.gasCost),
+      ]);
+    }
+    if (poolSummaries.length > 1) {
+      const sum = (field: keyof StrategySummary) =>
+        poolSummaries.reduce((total, summary) => total + (summary[field] as number), 0);
+      rows.push([
+        pool,
+        'total',
+        String(sum('actions')),
+        formatNumber(sum('realizedPnl')),
+        formatNumber(sum('unpricedCollateral')),
+        formatNumber(sum('lpDelta')),
+        formatNumber(sum('gasCost')),
+      ]);
+    }
+  }
+
+  const from = range.from?.toISOString() ?? 'start of ledger';
+  const to = range.to?.toISOString() ?? 'now';
+  if (rows.length === 0) {
+    return `No keeper actions recorded between ${from} and ${to}.`;
+  }
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...rows.map((row) => row[i].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, i) => (i < 2 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ');
+  return [
+    `Realized PnL between ${from} and ${to} (PnL in each pool's quote token, gas in the native token):`,
+    '',
+    formatRow(header),
+    ...rows.map(formatRow),
+  ].join('\n');
+}
@@ -0,0 +1,247 @@
+import { Signer } from '@ajna-finance/sdk';
+import { BigNumber, constants, Contract } from 'ethers';
+import { KeeperConfig, PoolConfig } from './config-types';
+import { approveErc20, getAllowanceOfErc20, getBalanceOfErc20 } from './erc20';
+import { recordLedgerEntry } from './ledger';
+import { logger } from './logging';
+import { recordGasSpent, recordReserveAuction } from './metrics';
+import { resolvePrice, TakeProfitConfig } from './take-profit';
+import { poolKickReserveAuction, poolTakeReserves } from './transactions';
+import {
+  AjnaPool,
+  decimaledToWei,
+  RequireFields,
+  weiToDecimaled,
+} from './utils';
+
+const WAD = constants.WeiPerEther;
+
+/** Ajna only kicks a reserve auction two weeks after AJNA was last burned in the pool. */
+const KICK_COOLDOWN_SECONDS = 14 * 24 * 60 * 60;
+
+const POOL_INFO_UTILS_ABI = [
+  'function poolReservesInfo(address ajnaPool_) view returns (uint256 reserves_, uint256 claimableReserves_, uint256 claimableReservesRemaining_, uint256 auctionPrice_, uint256 timeRemaining_)',
+];
+
+export interface ReserveAuctionStatus {
+  /** Quote token a new auction would offer, in WAD. */
+  claimableReserves: BigNumber;
+  /** Quote token left in the running auction, in WAD. */
+  claimableReservesRemaining: BigNumber;
+  /** AJNA paid per quote token, in WAD. */
+  auctionPrice: BigNumber;
+  /** Seconds until the running auction ends. Zero when none is running. */
+  timeRemaining: BigNumber;
+  /** Unix time in seconds from which a new auction may be kicked. */
+  nextKickTime: number;
+}
+
+interface HandleReserveAuctionParams {
+  pool: AjnaPool;
+  poolConfig: RequireFields<PoolConfig, 'reserveAuction'>;
+  signer: Signer;
+  config: Pick<KeeperConfig, 'dryRun' | 'ajna'> & TakeProfitConfig;
+}
+
+export async function getReserveAuctionStatus(
+  pool: AjnaPool,
+  signer: Signer,
+  poolUtils: string
+): Promise<ReserveAuctionStatus> {
+  const poolInfoUtils = new Contract(poolUtils, POOL_INFO_UTILS_ABI, signer);
+  const [reservesInfo, burnEpoch] = await Promise.all([
+    poolInfoUtils.poolReservesInfo(pool.poolAddress),
+    pool.contract.currentBurnEpoch(),
+  ]);
+  const { timestamp: lastBurnTime } = await pool.contract.burnInfo(burnEpoch);
+  return {
+    claimableReserves: reservesInfo.claimableReserves_,
+    claimableReservesRemaining: reservesInfo.claimableReservesRemaining_,
+    auctionPrice: reservesInfo.auctionPrice_,
+    timeRemaining: reservesInfo.timeRemaining_,
+    nextKickTime: lastBurnTime.isZero()
+      ? 0
+      : lastBurnTime.toNumber() + KICK_COOLDOWN_SECONDS,
+  };
+}
+
+/**
+ * Kicks the pool's reserve auction once claimable reserves reach
+ * `minKickReserves`, and takes from a running auction once the AJNA it burns,
+ * valued at `ajnaPrice`, is worth at most `takePriceFactor` of the quote token
+ * received. The auction price halves every hour, so an auction kicked by the
+ * keeper is usually taken in a later run.
+ */
+export async function handleReserveAuction({
+  pool,
+  poolConfig,
+  signer,
+  config,
+}: HandleReserveAuctionParams) {
+  const { minKickReserves, takePriceFactor } = poolConfig.reserveAuction;
+  const status = await getReserveAuctionStatus(
+    pool,
+    signer,
+    config.ajna.poolUtils
+  );
+
+  if (status.timeRemaining.gt(0)) {
+    if (
+      takePriceFactor !== undefined &&
+      status.claimableReservesRemaining.gt(0)
+    ) {
+      await takeReserves({ pool, poolConfig, signer, config, status });
+    }
+    return;
+  }
+
+  const claimable = weiToDecimaled(status.claimableReserves);
+  if (
+    minKickReserves === undefined ||
+    status.claimableReserves.isZero() ||
+    claimable < minKickReserves
+  ) {
+    return;
+  }
+  if (Date.now() / 1000 < status.nextKickTime) {
+    logger.debug(
+      `Not kicking reserve auction in pool ${pool.name} until ${new Date(status.nextKickTime * 1000).toISOString()}, two weeks after the last one`
+    );
+    return;
+  }
+  await kickReserveAuction({ pool, signer, config, claimable });
+}
+
+async function kickReserveAuction({
+  pool,
+  signer,
+  config,
+  claimable,
+}: Omit<HandleReserveAuctionParams, 'poolConfig'> & { claimable: number }) {
+  if (config.dryRun) {
+    logger.info(
+      `DryRun - Would kick reserve auction - pool: ${pool.name}, claimable reserves: ${claimable}`
+    );
+    return;
+  }
+
+  try {
+    recordReserveAuction(pool.name, 'kick', 'attempted');
+    const receipt = await poolKickReserveAuction(pool, signer);
+    recordReserveAuction(pool.name, 'kick', 'confirmed');
+    recordGasSpent(pool.name, 'reserveKick', receipt);
+    await recordLedgerEntry({
+      action: 'reserveKick',
+      strategy: 'reserveAuction',
+      pool,
+      receipt,
+    });
+    logger.info(
+      `Reserve auction kicked. pool: ${pool.name}, claimable reserves: ${claimable}`
+    );
+  } catch (error) {
+    recordReserveAuction(pool.name, 'kick', 'failed');
+    logger.error(`Failed to kick reserve auction. pool: ${pool.name}`, error);
+  }
+}
+
+/**
+ * Quote token (WAD) to take from a reserve auction with `ajnaAvailable`, and
+ * the AJNA (WAD) it costs, rounded up as the pool does.
+ */
+export function getReservesToTake(
+  claimableReservesRemaining: BigNumber,
+  auctionPrice: BigNumber,
+  ajnaAvailable: BigNumber
+): { amount: BigNumber; ajnaCost: BigNumber } {
+  let amount = claimableReservesRemaining;
+  if (!auctionPrice.isZero()) {
+    const affordable = ajnaAvailable.mul(WAD).div(auctionPrice);
+    if (affordable.lt(amount)) amount = affordable;
+  }
+  const ajnaCost = amount.mul(auctionPrice).add(WAD).sub(1).div(WAD);
+  return { amount, ajnaCost };
+}
+
+async function takeReserves({
+  pool,
+  poolConfig,
+  signer,
+  config,
+  status,
+}: HandleReserveAuctionParams & { status: ReserveAuctionStatus }) {
+  const { ajnaPrice, takePriceFactor, maxAjnaPerTake } =
+    poolConfig.reserveAuction;
+  const ajnaToken = config.ajna.ajnaToken;
+
+  // AJNA burned per quote token received, valued in quote token.
+  const costFactor =
+    weiToDecimaled(status.auctionPrice) *
+    (await resolvePrice(ajnaPrice, pool, await signer.getChainId(), config));
+  const isTakeable = costFactor <= takePriceFactor!;
+  logger.info(
+    `Reserve take check for pool ${pool.name}: auctionPrice=${weiToDecimaled(status.auctionPrice).toFixed(6)} AJNA, costFactor=${costFactor.toFixed(6)}, takePriceFactor=${takePriceFactor} → ${isTakeable ? 'TAKEABLE' : 'skip'}`
+  );
+  if (!isTakeable) return;
+
+  let ajnaAvailable = await getBalanceOfErc20(signer, ajnaToken);
+  if (maxAjnaPerTake !== undefined) {
+    const maxAjna = decimaledToWei(maxAjnaPerTake);
+    if (maxAjna.lt(ajnaAvailable)) ajnaAvailable = maxAjna;
+  }
+  const { amount, ajnaCost } = getReservesToTake(
+    status.claimableReservesRemaining,
+    status.auctionPrice,
+    ajnaAvailable
+  );
+  if (amount.isZero()) {
+    logger.info(
+      `Insufficient AJNA to take reserves. pool: ${pool.name}, balance: ${weiToDecimaled(ajnaAvailable)}`
+    );
+    return;
+  }
+
+  if (config.dryRun) {
+    logger.info(
+      `DryRun - Would take reserves - pool: ${pool.name}, amount: ${weiToDecimaled(amount)}, AJNA burned: ${weiToDecimaled(ajnaCost)}`
+    );
+    return;
+  }
+
+  try {
+    recordReserveAuction(pool.name, 'take', 'attempted');
+    const allowance = await getAllowanceOfErc20(
+      signer,
+      ajnaToken,
+      pool.poolAddress
+    );
+    if (allowance.lt(ajnaCost)) {
+      const receipt = await approveErc20(
+        signer,
+        ajnaToken,
+        pool.poolAddress,
+        ajnaCost
+      );
+      recordGasSpent(pool.name, 'approve', receipt);
+    }
+
+    const receipt = await poolTakeReserves(pool, signer, amount);
+    recordReserveAuction(pool.name, 'take', 'confirmed');
+    recordGasSpent(pool.name, 'reserveTake', receipt);
+    await recordLedgerEntry({
+      action: 'reserveTake',
+      strategy: 'reserveAuction',
+      pool,
+      receipt,
+      quoteDelta: weiToDecimaled(amount),
+      token: ajnaToken,
+      tokenDelta: -weiToDecimaled(ajnaCost),
+    });
+    logger.info(
+      `Reserve take confirmed. pool: ${pool.name}, amount: ${weiToDecimaled(amount)}, AJNA burned: ${weiToDecimaled(ajnaCost)}`
+    );
+  } catch (error) {
+    recordReserveAuction(pool.name, 'take', 'failed');
+    logger.error(`Failed to take reserves. pool: ${pool.name}`, error);
+  }
+}
@@ -1,5 +1,6 @@
 import { FeeAmount } from '@uniswap/v3-sdk';
 import { BigNumber, Signer, constants } from 'ethers';
+import path from 'path';
 import {
   ExchangeReward,
   KeeperConfig,
@@ -12,6 +13,8 @@ import {
 import { DexRouter } from './dex-router';
 import { getDecimalsErc20, transferErc20 } from './erc20';
 import { logger } from './logging';
+import { recordLedgerEntry } from './ledger';
+import { JsonStateStore } from './state-store';
 import { delay, tokenChangeDecimals, weiToDecimaled } from './utils';
 
 export interface TokenConfig {
@@ -40,7 +43,7 @@ function serializeRewardAction(
   return key;
 }
 
-function deserializeRewardAction(serial: string): {
+export function deserializeRewardAction(serial: string): {
   rewardAction: RewardAction;
   token: string;
 } {
@@ -51,10 +54,37 @@ function deserializeRewardAction(serial: string): {
   return { token, rewardAction };
 }
 
+/**
+ * A collected reward which could not be transferred or swapped and was taken
+ * off the queue. The tokens stay in the keeper's wallet until re-enqueued.
+ */
+export interface DeadLetter {
+  id: number;
+  /** Serialized reward action and token, as used to key the queue. */
+  key: string;
+  amountWad: string;
+  reason: string;
+  attempts: number;
+  failedAt: string;
+}
+
+export interface RewardActionState {
+  /** Collected amounts not yet transferred or swapped, by serialized reward action and token. */
+  pending: { [key: string]: string };
+  retryCounts: { [key: string]: number };
+  deadLetters: DeadLetter[];
+}
+
+export function getRewardActionStatePath(stateDir: string, chainId: number) {
+  return path.join(stateDir, `reward-actions-${chainId}.json`);
+}
+
 export class RewardActionTracker {
   private feeTokenAmountMap: Map<string, BigNumber> = new Map();
   // New: Add a map to track retry attempts for each token
   private retryCountMap: Map<string, number> = new Map();
+  private deadLetters: DeadLetter[] = [];
+  private store?: JsonStateStore<RewardActionState>;
 
   constructor(
     private signer: Signer,
@@ -127,9 +157,8 @@ export class RewardActionTracker {
       
       // Skip if we've already tried too many times
       if (retryCount >= MAX_RETRY_COUNT) {
-        logger.warn(`Skipping token ${token} after ${MAX_RETRY_COUNT} failed swap attempts - removing from queue`);
-        this.removeToken(rewardAction, token, amountWad);
-        this.retryCountMap.delete(key); // Clean up retry counter
+        logger.warn(`Skipping token ${token} after ${MAX_RETRY_COUNT} failed swap attempts - moving to dead letters`);
+        this.moveToDeadLetters(key, amountWad, 'Too many failed attempts', retryCount);
         continue;
       }
 
@@ -141,6 +170,7 @@ export class RewardActionTracker {
               token,
               amountWad
             );
+            this.clearRetryCount(rewardAction, token);
             break;
 
           case RewardActionLabel.EXCHANGE:
@@ -162,7 +192,7 @@ export class RewardActionTracker {
 	    // Validate that dexProvider is specified
             if (!dexProvider) {
               logger.error(`dexProvider is required for EXCHANGE action on token ${token}`);
-              this.removeToken(rewardAction, token, amountWad);
+              this.moveToDeadLetters(key, amountWad, 'dexProvider is required for EXCHANGE action', retryCount);
               continue;
             }
 
@@ -171,7 +201,7 @@ export class RewardActionTracker {
               validatePostAuctionDex(dexProvider, this.config);
             } catch (validationError) {
               logger.error(`Configuration validation failed for ${dexProvider} on token ${token}: ${validationError}`);
-              this.removeToken(rewardAction, token, amountWad);
+              this.moveToDeadLetters(key, amountWad, `Configuration validation failed for ${dexProvider}: ${validationError}`, retryCount);
               continue;
             }
 
@@ -194,25 +224,30 @@ export class RewardActionTracker {
             
             if (swapResult.success) {
               // Success: remove token and clear retry count
-              this.removeToken(rewardAction, token, amountWad);
               this.retryCountMap.delete(key);
+              this.removeToken(rewardAction, token, amountWad);
               logger.info(
                `Successfully swapped ${weiToDecimaled(amountWad)} of ${token} to ${targetToken} via ${dexProvider}`
               );
+              await recordLedgerEntry({
+                action: 'rewardSwap',
+                strategy: `swap:${dexProvider}`,
+                token,
+                tokenDelta: -weiToDecimaled(amountWad),
+              });
             } else {
               // Failure: increment retry count
               const newRetryCount = retryCount + 1;
-              this.retryCountMap.set(key, newRetryCount);
+              this.setRetryCount(key, newRetryCount);
               
               logger.error(
                `Failed to swap ${weiToDecimaled(amountWad)} of ${token} via ${dexProvider} (attempt ${newRetryCount}/${MAX_RETRY_COUNT}): ${swapResult.error}`
               );
               
-              // If we've reached max retries, remove the token
+              // If we've reached max retries, move the token to dead letters
               if (newRetryCount >= MAX_RETRY_COUNT) {
-                logger.warn(`Max retry count reached for ${token} via ${dexProvider} - removing from queue`);
-                this.removeToken(rewardAction, token, amountWad);
-                this.retryCountMap.delete(key);
+                logger.warn(`Max retry count reached for ${token} via ${dexProvider} - moving to dead letters`);
+                this.moveToDeadLetters(key, amountWad, `Swap via ${dexProvider} failed: ${swapResult.error}`, newRetryCount);
               }
               // Otherwise we'll try again on next loop iteration
             }
@@ -227,13 +262,13 @@ export class RewardActionTracker {
         
         // Increment retry count for the next attempt
         const newRetryCount = retryCount + 1;
-        this.retryCountMap.set(key, newRetryCount);
+        this.setRetryCount(key, newRetryCount);
         
-        // Remove token if max retries reached
+        // Move token to dead letters if max retries reached
         if (newRetryCount >= MAX_RETRY_COUNT) {
-          logger.warn(`Removing token ${token} after ${MAX_RETRY_COUNT} failed attempts due to errors`);
-          this.removeToken(rewardAction, token, amountWad);
-          this.retryCountMap.delete(key);
+          logger.warn(`Moving token ${token} to dead letters after ${MAX_RETRY_COUNT} failed attempts due to errors`);
+          const reason = error instanceof Error ? error.message : String(error);
+          this.moveToDeadLetters(key, amountWad, reason, newRetryCount);
         }
       }
       
@@ -251,6 +286,7 @@ export class RewardActionTracker {
     const key = serializeRewardAction(rewardAction, tokenCollected);
     const currAmount = this.feeTokenAmountMap.get(key) ?? constants.Zero;
     this.feeTokenAmountMap.set(key, currAmount.add(amountWadToAdd));
+    this.saveState();
   }
 
   removeToken(
@@ -261,12 +297,103 @@ export class RewardActionTracker {
     const key = serializeRewardAction(rewardAction, tokenCollected);
     const currAmount = this.feeTokenAmountMap.get(key) ?? constants.Zero;
     this.feeTokenAmountMap.set(key, currAmount.sub(amountWadToSub));
+    this.saveState();
+  }
+
+  /**
+   * Lists reward tokens which have been collected but not yet transferred or swapped.
+   */
+  getPendingTokens(): {
+    rewardAction: RewardAction;
+    token: string;
+    amountWad: BigNumber;
+  }[] {
+    return Array.from(this.feeTokenAmountMap.entries())
+      .filter(([_, amountWad]) => amountWad.gt(constants.Zero))
+      .map(([key, amountWad]) => ({
+        ...deserializeRewardAction(key),
+        amountWad,
+      }));
+  }
+
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetters];
   }
 
   // Helper to manually clear retry count if needed
   clearRetryCount(rewardAction: RewardAction, tokenCollected: string) {
     const key = serializeRewardAction(rewardAction, tokenCollected);
     this.retryCountMap.delete(key);
+    this.saveState();
+  }
+
+  /**
+   * Restores the queue, retry counts and dead letters from `stateDir`, and
+   * persists every later change there. Does nothing if `stateDir` is unset.
+   */
+  async loadState() {
+    if (!this.config.stateDir) return;
+    const chainId = await this.signer.getChainId();
+    this.store = new JsonStateStore(
+      getRewardActionStatePath(this.config.stateDir, chainId)
+    );
+    const state = await this.store.load();
+    if (!state) return;
+    for (const [key, amountWad] of Object.entries(state.pending)) {
+      const currAmount = this.feeTokenAmountMap.get(key) ?? constants.Zero;
+      this.feeTokenAmountMap.set(key, currAmount.add(amountWad));
+    }
+    this.retryCountMap = new Map(Object.entries(state.retryCounts));
+    this.deadLetters = state.deadLetters;
+    logger.info(
+      `Restored ${this.getPendingTokens().length} pending reward actions and ${this.deadLetters.length} dead letters`
+    );
+    if (this.deadLetters.length > 0) {
+      logger.warn(
+        'Some collected rewards could not be handled. Inspect and re-enqueue them with the reward-queue command.'
+      );
+    }
+  }
+
+  private setRetryCount(key: string, retryCount: number) {
+    this.retryCountMap.set(key, retryCount);
+    this.saveState();
+  }
+
+  private moveToDeadLetters(
+    key: string,
+    amountWad: BigNumber,
+    reason: string,
+    attempts: number
+  ) {
+    const { rewardAction, token } = deserializeRewardAction(key);
+    this.retryCountMap.delete(key);
+    this.deadLetters.push({
+      id: Math.max(0, ...this.deadLetters.map(({ id }) => id)) + 1,
+      key,
+      amountWad: amountWad.toString(),
+      reason,
+      attempts,
+      failedAt: new Date().toISOString(),
+    });
+    this.removeToken(rewardAction, token, amountWad);
+  }
+
+  private saveState() {
+    this.store?.saveInBackground({
+      pending: Object.fromEntries(
+        Array.from(this.feeTokenAmountMap.entries())
+          .filter(([_, amountWad]) => amountWad.gt(constants.Zero))
+          .map(([key, amountWad]) => [key, amountWad.toString()])
+      ),
+      retryCounts: Object.fromEntries(this.retryCountMap),
+      deadLetters: this.deadLetters,
+    });
+  }
+
+  /** Resolves once pending state writes have finished. */
+  async flush() {
+    await this.store?.flush();
   }
 
   async transferReward(
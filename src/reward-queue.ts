@@ -0,0 +1,103 @@
+import { BigNumber } from 'ethers';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  DeadLetter,
+  RewardActionState,
+  deserializeRewardAction,
+} from './reward-action-tracker';
+import { JsonStateStore } from './state-store';
+import { weiToDecimaled } from './utils';
+
+const STATE_FILE_PATTERN = /^reward-actions-(\d+)\.json$/;
+
+export interface RewardQueue {
+  chainId: number;
+  store: JsonStateStore<RewardActionState>;
+  state: RewardActionState;
+}
+
+/**
+ * Reads the persisted reward action queue of every chain found in `stateDir`.
+ */
+export async function readRewardQueues(
+  stateDir: string
+): Promise<RewardQueue[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(stateDir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  const queues: RewardQueue[] = [];
+  for (const file of files.sort()) {
+    const match = file.match(STATE_FILE_PATTERN);
+    if (!match) continue;
+    const store = new JsonStateStore<RewardActionState>(
+      path.join(stateDir, file)
+    );
+    const state = await store.load();
+    if (state) {
+      queues.push({ chainId: parseInt(match[1]), store, state });
+    }
+  }
+  return queues;
+}
+
+/**
+ * Moves dead letters back onto the pending queue with their retry count reset.
+ * Requeues every dead letter if no ids are given. Returns those requeued.
+ */
+export function requeueDeadLetters(
+  state: RewardActionState,
+  ids?: number[]
+): DeadLetter[] {
+  const requeued = state.deadLetters.filter(
+    ({ id }) => !ids || ids.includes(id)
+  );
+  for (const { key, amountWad } of requeued) {
+    const currAmount = BigNumber.from(state.pending[key] ?? 0);
+    state.pending[key] = currAmount.add(amountWad).toString();
+    delete state.retryCounts[key];
+  }
+  state.deadLetters = state.deadLetters.filter(
+    (letter) => !requeued.includes(letter)
+  );
+  return requeued;
+}
+
+function describeKey(key: string): string {
+  const { token, rewardAction } = deserializeRewardAction(key);
+  const target =
+    'to' in rewardAction
+      ? `to ${rewardAction.to}`
+      : `to ${rewardAction.targetToken} via ${rewardAction.dexProvider}`;
+  return `${token} ${rewardAction.action} ${target}`;
+}
+
+/**
+ * Renders one chain's pending rewards and dead letters as plain text.
+ */
+export function formatRewardQueue({
+  chainId,
+  state,
+}: Omit<RewardQueue, 'store'>): string {
+  const lines = [`Chain ${chainId}:`];
+  const pending = Object.entries(state.pending);
+  lines.push(`  Pending (${pending.length}):`);
+  for (const [key, amountWad] of pending) {
+    const retries = state.retryCounts[key] ?? 0;
+    lines.push(
+      `    ${describeKey(key)}, amount: ${weiToDecimaled(BigNumber.from(amountWad))}, failed attempts: ${retries}`
+    );
+  }
+  lines.push(`  Dead letters (${state.deadLetters.length}):`);
+  for (const letter of state.deadLetters) {
+    lines.push(
+      `    #${letter.id} ${describeKey(letter.key)}, amount: ${weiToDecimaled(BigNumber.from(letter.amountWad))}, attempts: ${letter.attempts}, failed at: ${letter.failedAt}`,
+      `        reason: ${letter.reason}`
+    );
+  }
+  return lines.join('\n');
+}
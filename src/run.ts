@@ -1,27 +1,84 @@
-import { AjnaSDK, FungiblePool, Signer } from '@ajna-finance/sdk';
-import { configureAjna, KeeperConfig, PoolConfig, validateTakeSettings } from './config-types';
 import {
-  delay,
+  AjnaSDK,
+  FungiblePool,
+  NonfungiblePool,
+  Signer,
+} from '@ajna-finance/sdk';
+import {
+  CollateralType,
+  configureAjna,
+  KeeperConfig,
+  PoolConfig,
+} from './config-types';
+import {
+  AjnaPool,
   getProviderAndSigner,
+  loadPool,
   overrideMulticall,
   RequireFields,
+  weiToDecimaled,
 } from './utils';
-import { handleKicks } from './kick';
+import { handleKicks, handleKicksByExpectedReturn } from './kick';
 import { handleTakes } from './take';
+import { handleNftTakes } from './take-nft';
 import { collectBondFromPool } from './collect-bond';
 import { LpCollector } from './collect-lp';
 import { logger } from './logging';
 import { RewardActionTracker } from './reward-action-tracker';
 import { DexRouter } from './dex-router';
 import { handleSettlements, tryReactiveSettlement } from './settlement';
+import { handleReserveAuction } from './reserve-auction';
+import { handleUpdateInterest } from './update-interest';
+import { handleBorrowerProtection } from './borrower-protection';
+import { handleLenderGuard } from './lender-guard';
+import { takeSchedule } from './take-schedule';
+import { KeeperLifecycle, settlesWithin } from './lifecycle';
+import { NonceTracker } from './nonce';
+import { KeeperStatus } from './keeper-status';
+import { StatusServer } from './status-server';
+import { registry } from './metrics';
+import { configureLedger } from './ledger';
+import { ConfigWatcher, diffPools, getRestartOnlyChanges } from './hot-reload';
+import { configureSubgraphFallback } from './subgraph';
+import { SubgraphFallback } from './subgraph-fallback';
+import { manageTransactions, TransactionManager } from './transaction-manager';
+import {
+  configureGasPolicy,
+  shouldDeferForGas,
+  trackGasSpend,
+} from './gas-policy';
 
-type PoolMap = Map<string, FungiblePool>;
+type PoolMap = Map<string, AjnaPool>;
+
+const DEFAULT_SHUTDOWN_TIMEOUT = 60; // seconds
+
+export interface RunningKeeper {
+  /**
+   * Stops every loop, waits for in-flight transactions and releases resources.
+   * @resolves true if the keeper drained before `shutdownTimeout`, false otherwise.
+   */
+  shutdown: (reason: string) => Promise<boolean>;
+}
 
-export async function startKeeperFromConfig(config: KeeperConfig) {
+/**
+ * @param configPath If set, pool settings are reloaded whenever this file
+ * changes, unless `watchConfig` is false.
+ */
+export async function startKeeperFromConfig(
+  config: KeeperConfig,
+  configPath?: string
+): Promise<RunningKeeper> {
   const { provider, signer } = await getProviderAndSigner(
     config.keeperKeystore,
-    config.ethRpcUrl
+    config.ethRpcUrl,
+    config.rpcFailover
   );
+  let transactions: TransactionManager | undefined;
+  if (config.stuckTransactions) {
+    transactions = new TransactionManager(config.stuckTransactions);
+    manageTransactions(signer, transactions);
+  }
+  trackGasSpend(signer);
   const network = await provider.getNetwork();
   const chainId = network.chainId;
 
@@ -30,11 +87,80 @@ export async function startKeeperFromConfig(config: KeeperConfig) {
   logger.info('...and pools:');
   const poolMap = await getPoolsFromConfig(ajna, config);
 
-  kickPoolsLoop({ poolMap, config, signer, chainId });
-  takePoolsLoop({ poolMap, config, signer });
-  settlementLoop({ poolMap, config, signer });
-  collectBondLoop({ poolMap, config, signer });
-  collectLpRewardsLoop({ poolMap, config, signer });
+  registry.setDefaultLabels({ chain_id: chainId });
+  configureLedger(config, chainId);
+  await configureGasPolicy(config, chainId);
+  if (config.subgraphFallback) {
+    configureSubgraphFallback(
+      new SubgraphFallback(provider, poolMap, config.subgraphFallback, config)
+    );
+  }
+  const lifecycle = new KeeperLifecycle();
+  const status = new KeeperStatus();
+  status.registerLoop('kick', config.delayBetweenRuns);
+  status.registerLoop('take', config.delayBetweenRuns);
+  status.registerLoop('settlement', getSettlementCheckInterval(config));
+  status.registerLoop('collectBond', config.delayBetweenRuns);
+  status.registerLoop('collectLpReward', config.delayBetweenRuns);
+  status.registerLoop('reserveAuction', config.delayBetweenRuns);
+  status.registerLoop('updateInterest', config.delayBetweenRuns);
+  status.registerLoop('borrowerProtection', config.delayBetweenRuns);
+  status.registerLoop('lenderGuard', config.delayBetweenRuns);
+
+  let statusServer: StatusServer | undefined;
+  if (config.statusServerPort !== undefined) {
+    statusServer = new StatusServer({
+      port: config.statusServerPort,
+      status,
+      poolMap,
+      signer,
+      config,
+      transactions,
+    });
+    await statusServer.start();
+  }
+
+  let configWatcher: ConfigWatcher | undefined;
+  if (configPath && config.watchConfig !== false) {
+    configWatcher = new ConfigWatcher(configPath, (newConfig) =>
+      applyPoolChanges({ ajna, poolMap, config, status }, newConfig)
+    );
+    configWatcher.start();
+  }
+
+  const params = { poolMap, config, signer, lifecycle, status };
+  const loops = Promise.all([
+    kickPoolsLoop({ ...params, chainId }),
+    takePoolsLoop(params),
+    settlementLoop(params),
+    collectBondLoop(params),
+    collectLpRewardsLoop(params),
+    reserveAuctionLoop(params),
+    updateInterestLoop(params),
+    borrowerProtectionLoop(params),
+    lenderGuardLoop(params),
+  ]);
+
+  return {
+    shutdown: async (reason: string) => {
+      lifecycle.requestStop(reason);
+      await configWatcher?.stop();
+      const timeout = config.shutdownTimeout ?? DEFAULT_SHUTDOWN_TIMEOUT;
+      const drained = await settlesWithin(
+        loops.catch(() => {}).then(() => NonceTracker.drain()),
+        timeout
+      );
+      await statusServer?.stop();
+      if (drained) {
+        logger.info('All loops stopped and transactions settled');
+      } else {
+        logger.error(
+          `Shutdown did not complete within ${timeout}s, in-flight work may be lost`
+        );
+      }
+      return drained;
+    },
+  };
 }
 
 async function getPoolsFromConfig(
@@ -45,28 +171,135 @@ async function getPoolsFromConfig(
   for (const pool of config.pools) {
     const name: string = pool.name ?? '(unnamed)';
     logger.info(`loading pool ${name.padStart(18)} at ${pool.address}`);
-    const fungiblePool = await ajna.fungiblePoolFactory.getPoolByAddress(
-      pool.address
-    );
+    const ajnaPool = await loadPool(ajna, pool);
     // TODO: Should this be a per-pool multicall?
-    overrideMulticall(fungiblePool, config);
-    pools.set(pool.address, fungiblePool);
+    overrideMulticall(ajnaPool, config);
+    pools.set(pool.address, ajnaPool);
   }
   return pools;
 }
 
+/**
+ * Applies the pools of a reloaded config to the running keeper. Added pools
+ * are loaded before anything changes, so a pool which fails to load leaves
+ * the running config untouched. Loops pick up the new pools on their next
+ * iteration, so work in progress is not interrupted.
+ */
+async function applyPoolChanges(
+  {
+    ajna,
+    poolMap,
+    config,
+    status,
+  }: {
+    ajna: AjnaSDK;
+    poolMap: PoolMap;
+    config: KeeperConfig;
+    status: KeeperStatus;
+  },
+  newConfig: KeeperConfig
+) {
+  const restartOnly = getRestartOnlyChanges(config, newConfig);
+  if (restartOnly.length > 0) {
+    logger.warn(
+      `Config reload only applies pool settings, restart the keeper to apply changes to: ${restartOnly.join(', ')}`
+    );
+  }
+  const { added, removed, changed } = diffPools(config.pools, newConfig.pools);
+  if (added.length + removed.length + changed.length === 0) {
+    logger.info('Config reloaded, pools are unchanged');
+    return;
+  }
+
+  // A pool whose collateral type changed is loaded again from the other factory.
+  const retyped = changed.filter(
+    ({ address, collateralType }) =>
+      config.pools.find(
+        (pool) => pool.address.toLowerCase() === address.toLowerCase()
+      )?.collateralType !== collateralType
+  );
+  const addedPools = await getPoolsFromConfig(ajna, {
+    ...config,
+    pools: [...added, ...retyped],
+  });
+  addedPools.forEach((pool, address) => poolMap.set(address, pool));
+  config.pools = newConfig.pools;
+  for (const { address } of removed) {
+    poolMap.delete(address);
+    status.removePool(address);
+  }
+
+  const names = (pools: PoolConfig[]) =>
+    pools.map(({ name, address }) => name ?? address).join(', ') || 'none';
+  logger.info(
+    `Config reloaded. Added pools: ${names(added)}. Removed pools: ${names(removed)}. Changed pools: ${names(changed)}.`
+  );
+}
+
+interface PoolEntry<T extends PoolConfig> {
+  poolConfig: T;
+  pool: AjnaPool;
+}
+
+/**
+ * The pools a loop should visit this iteration. Read from `config` on every
+ * call so pools added or removed by a config reload are picked up, while an
+ * iteration already under way finishes with the pools it started with.
+ */
+function getPools<T extends PoolConfig>(
+  poolMap: PoolMap,
+  config: KeeperConfig,
+  filter: (poolConfig: PoolConfig) => poolConfig is T
+): PoolEntry<T>[] {
+  return config.pools
+    .filter(filter)
+    .filter(({ address }) => poolMap.has(address))
+    .map((poolConfig) => ({ poolConfig, pool: poolMap.get(poolConfig.address)! }));
+}
+
 interface KeepPoolParams {
   poolMap: PoolMap;
   config: KeeperConfig;
   signer: Signer;
   chainId?: number;
+  lifecycle: KeeperLifecycle;
+  status: KeeperStatus;
 }
 
-async function kickPoolsLoop({ poolMap, config, signer, chainId }: KeepPoolParams) {
-  const poolsWithKickSettings = config.pools.filter(hasKickSettings);
-  while (true) {
-    for (const poolConfig of poolsWithKickSettings) {
-      const pool = poolMap.get(poolConfig.address)!;
+async function kickPoolsLoop({
+  poolMap,
+  config,
+  signer,
+  chainId,
+  lifecycle,
+  status,
+}: KeepPoolParams) {
+  while (!lifecycle.isStopping) {
+    const pools = (await shouldDeferForGas('kick', signer))
+      ? []
+      : getPools(poolMap, config, hasKickSettings);
+    const rankedPools = pools.filter(isRankedByExpectedReturn);
+    if (rankedPools.length > 0 && !lifecycle.isStopping) {
+      let errors = new Map<string, unknown>();
+      try {
+        errors = await handleKicksByExpectedReturn({
+          pools: rankedPools,
+          signer,
+          config,
+          chainId,
+        });
+      } catch (error) {
+        logger.error('Failed to handle kicks ranked by expected return.', error);
+        rankedPools.forEach(({ pool }) => errors.set(pool.poolAddress, error));
+      }
+      for (const { pool } of rankedPools) {
+        const error = errors.get(pool.poolAddress);
+        status.recordPoolOutcome(pool.poolAddress, pool.name, 'kick', error);
+      }
+    }
+    for (const { poolConfig, pool } of pools) {
+      if (lifecycle.isStopping) break;
+      if (isRankedByExpectedReturn({ poolConfig })) continue;
       try {
         await handleKicks({
           pool,
@@ -75,13 +308,17 @@ async function kickPoolsLoop({ poolMap, config, signer, chainId }: KeepPoolParam
           config,
           chainId,
         });
-        await delay(config.delayBetweenActions);
+        status.recordPoolOutcome(pool.poolAddress, pool.name, 'kick');
+        await lifecycle.delay(config.delayBetweenActions);
       } catch (error) {
         logger.error(`Failed to handle kicks for pool: ${pool.name}.`, error);
+        status.recordPoolOutcome(pool.poolAddress, pool.name, 'kick', error);
       }
     }
-    await delay(config.delayBetweenRuns);
+    status.recordLoopIteration('kick');
+    await lifecycle.delay(config.delayBetweenRuns);
   }
+  logger.info('Kick loop stopped');
 }
 
 function hasKickSettings(
@@ -90,29 +327,67 @@ function hasKickSettings(
   return !!config.kick;
 }
 
-async function takePoolsLoop({ poolMap, config, signer }: KeepPoolParams) {
-  const poolsWithTakeSettings = config.pools.filter(hasTakeSettings);
-  while (true) {
-    for (const poolConfig of poolsWithTakeSettings) {
-      const pool = poolMap.get(poolConfig.address)!;
+/** Pools whose kicks are ranked across pools by handleKicksByExpectedReturn. */
+function isRankedByExpectedReturn({
+  poolConfig,
+}: Pick<PoolEntry<RequireFields<PoolConfig, 'kick'>>, 'poolConfig'>) {
+  return poolConfig.kick.minExpectedReturn !== undefined;
+}
+
+async function takePoolsLoop({
+  poolMap,
+  config,
+  signer,
+  lifecycle,
+  status,
+}: KeepPoolParams) {
+  let nextRunTime = 0;
+  while (!lifecycle.isStopping) {
+    // Between runs, wake up only for the pools with a scheduled take check.
+    const now = Date.now() / 1000;
+    const isFullRun = now >= nextRunTime;
+    const duePools = takeSchedule.takeDue(now);
+    const pools = (await shouldDeferForGas('take', signer))
+      ? []
+      : getPools(poolMap, config, hasTakeSettings).filter(
+          ({ pool }) => isFullRun || duePools.has(pool.poolAddress)
+        );
+    for (const { poolConfig, pool } of pools) {
+      if (lifecycle.isStopping) break;
       try {
-        validateTakeSettings(poolConfig.take, config);
-        await handleTakes({
-          pool,
-          poolConfig,
-          signer,
-          config,
-        });
-        await delay(config.delayBetweenActions);
+        if (poolConfig.collateralType === CollateralType.ERC721) {
+          await handleNftTakes({
+            pool: pool as NonfungiblePool,
+            poolConfig,
+            signer,
+            config,
+          });
+        } else {
+          await handleTakes({
+            pool: pool as FungiblePool,
+            poolConfig,
+            signer,
+            config,
+          });
+        }
+        status.recordPoolOutcome(pool.poolAddress, pool.name, 'take');
+        await lifecycle.delay(config.delayBetweenActions);
       } catch (error) {
         logger.error(
           `Failed to handle take for pool: ${pool.name}.`,
           error
         );
+        status.recordPoolOutcome(pool.poolAddress, pool.name, 'take', error);
       }
     }
-    await delay(config.delayBetweenRuns);
+    if (isFullRun) {
+      status.recordLoopIteration('take');
+      nextRunTime = Date.now() / 1000 + config.delayBetweenRuns;
+    }
+    const wakeTime = Math.min(nextRunTime, takeSchedule.nextTime ?? Infinity);
+    await lifecycle.delay(Math.max(0, wakeTime - Date.now() / 1000));
   }
+  logger.info('Take loop stopped');
 }
 
 function hasTakeSettings(
@@ -121,13 +396,16 @@ function hasTakeSettings(
   return !!config.take;
 }
 
-async function collectBondLoop({ poolMap, config, signer }: KeepPoolParams) {
-  const poolsWithCollectBondSettings = config.pools.filter(
-    ({ collectBond }) => !!collectBond
-  );
-  while (true) {
-    for (const poolConfig of poolsWithCollectBondSettings) {
-      const pool = poolMap.get(poolConfig.address)!;
+async function collectBondLoop({
+  poolMap,
+  config,
+  signer,
+  lifecycle,
+  status,
+}: KeepPoolParams) {
+  while (!lifecycle.isStopping) {
+    for (const { poolConfig, pool } of getPools(poolMap, config, hasCollectBondSettings)) {
+      if (lifecycle.isStopping) break;
       try {
         await collectBondFromPool({ 
           pool, 
@@ -139,34 +417,220 @@ async function collectBondLoop({ poolMap, config, signer }: KeepPoolParams) {
             delayBetweenActions: config.delayBetweenActions
           }
         });
-        await delay(config.delayBetweenActions);
+        await lifecycle.delay(config.delayBetweenActions);
       } catch (error) {
         logger.error(`Failed to collect bond from pool: ${pool.name}.`, error);
       }
     }
-    await delay(config.delayBetweenRuns);
+    status.recordLoopIteration('collectBond');
+    await lifecycle.delay(config.delayBetweenRuns);
+  }
+  logger.info('Collect bond loop stopped');
+}
+
+function hasCollectBondSettings(
+  config: PoolConfig
+): config is RequireFields<PoolConfig, 'collectBond'> {
+  return !!config.collectBond;
+}
+
+async function reserveAuctionLoop({
+  poolMap,
+  config,
+  signer,
+  lifecycle,
+  status,
+}: KeepPoolParams) {
+  while (!lifecycle.isStopping) {
+    const pools = (await shouldDeferForGas('reserveAuction', signer))
+      ? []
+      : getPools(poolMap, config, hasReserveAuctionSettings);
+    for (const { poolConfig, pool } of pools) {
+      if (lifecycle.isStopping) break;
+      try {
+        await handleReserveAuction({ pool, poolConfig, signer, config });
+        status.recordPoolOutcome(pool.poolAddress, pool.name, 'reserveAuction');
+        await lifecycle.delay(config.delayBetweenActions);
+      } catch (error) {
+        logger.error(
+          `Failed to handle reserve auction for pool: ${pool.name}.`,
+          error
+        );
+        status.recordPoolOutcome(
+          pool.poolAddress,
+          pool.name,
+          'reserveAuction',
+          error
+        );
+      }
+    }
+    status.recordLoopIteration('reserveAuction');
+    await lifecycle.delay(config.delayBetweenRuns);
+  }
+  logger.info('Reserve auction loop stopped');
+}
+
+function hasReserveAuctionSettings(
+  config: PoolConfig
+): config is RequireFields<PoolConfig, 'reserveAuction'> {
+  return !!config.reserveAuction;
+}
+
+async function borrowerProtectionLoop({
+  poolMap,
+  config,
+  signer,
+  lifecycle,
+  status,
+}: KeepPoolParams) {
+  while (!lifecycle.isStopping) {
+    const pools = (await shouldDeferForGas('borrowerProtection', signer))
+      ? []
+      : getPools(poolMap, config, hasBorrowerProtectionSettings);
+    for (const { poolConfig, pool } of pools) {
+      if (lifecycle.isStopping) break;
+      try {
+        await handleBorrowerProtection({ pool, poolConfig, signer, config });
+        status.recordPoolOutcome(
+          pool.poolAddress,
+          pool.name,
+          'borrowerProtection'
+        );
+        await lifecycle.delay(config.delayBetweenActions);
+      } catch (error) {
+        logger.error(
+          `Failed to handle borrower protection for pool: ${pool.name}.`,
+          error
+        );
+        status.recordPoolOutcome(
+          pool.poolAddress,
+          pool.name,
+          'borrowerProtection',
+          error
+        );
+      }
+    }
+    status.recordLoopIteration('borrowerProtection');
+    await lifecycle.delay(config.delayBetweenRuns);
+  }
+  logger.info('Borrower protection loop stopped');
+}
+
+function hasBorrowerProtectionSettings(
+  config: PoolConfig
+): config is RequireFields<PoolConfig, 'borrowerProtection'> {
+  return !!config.borrowerProtection;
+}
+
+async function lenderGuardLoop({
+  poolMap,
+  config,
+  signer,
+  lifecycle,
+  status,
+}: KeepPoolParams) {
+  while (!lifecycle.isStopping) {
+    const pools = (await shouldDeferForGas('lenderGuard', signer))
+      ? []
+      : getPools(poolMap, config, hasLenderGuardSettings);
+    for (const { poolConfig, pool } of pools) {
+      if (lifecycle.isStopping) break;
+      try {
+        await handleLenderGuard({ pool, poolConfig, signer, config });
+        status.recordPoolOutcome(pool.poolAddress, pool.name, 'lenderGuard');
+        await lifecycle.delay(config.delayBetweenActions);
+      } catch (error) {
+        logger.error(`Failed to guard deposits in pool: ${pool.name}.`, error);
+        status.recordPoolOutcome(
+          pool.poolAddress,
+          pool.name,
+          'lenderGuard',
+          error
+        );
+      }
+    }
+    status.recordLoopIteration('lenderGuard');
+    await lifecycle.delay(config.delayBetweenRuns);
+  }
+  logger.info('Lender guard loop stopped');
+}
+
+function hasLenderGuardSettings(
+  config: PoolConfig
+): config is RequireFields<PoolConfig, 'lenderGuard'> {
+  return !!config.lenderGuard;
+}
+
+async function updateInterestLoop({
+  poolMap,
+  config,
+  signer,
+  lifecycle,
+  status,
+}: KeepPoolParams) {
+  while (!lifecycle.isStopping) {
+    const pools = (await shouldDeferForGas('updateInterest', signer))
+      ? []
+      : getPools(poolMap, config, hasUpdateInterestSettings);
+    for (const { poolConfig, pool } of pools) {
+      if (lifecycle.isStopping) break;
+      try {
+        await handleUpdateInterest({ pool, poolConfig, signer, config });
+        status.recordPoolOutcome(pool.poolAddress, pool.name, 'updateInterest');
+        await lifecycle.delay(config.delayBetweenActions);
+      } catch (error) {
+        logger.error(
+          `Failed to handle interest update for pool: ${pool.name}.`,
+          error
+        );
+        status.recordPoolOutcome(
+          pool.poolAddress,
+          pool.name,
+          'updateInterest',
+          error
+        );
+      }
+    }
+    status.recordLoopIteration('updateInterest');
+    await lifecycle.delay(config.delayBetweenRuns);
   }
+  logger.info('Update interest loop stopped');
 }
 
-async function settlementLoop({ poolMap, config, signer }: KeepPoolParams) {
+function hasUpdateInterestSettings(
+  config: PoolConfig
+): config is RequireFields<PoolConfig, 'updateInterest'> {
+  return !!config.updateInterest;
+}
+
+async function settlementLoop({
+  poolMap,
+  config,
+  signer,
+  lifecycle,
+  status,
+}: KeepPoolParams) {
   const poolsWithSettlementSettings = config.pools.filter(hasSettlementSettings);
   
   logger.info(`Settlement loop started with ${poolsWithSettlementSettings.length} pools`);
   logger.info(`Settlement pools: ${poolsWithSettlementSettings.map(p => p.name).join(', ')}`);
   
-  while (true) {
+  while (!lifecycle.isStopping) {
     try {
       const startTime = new Date().toISOString();
       logger.debug(`Settlement loop iteration starting at ${startTime}`);
       
-      for (const poolConfig of poolsWithSettlementSettings) {
-        const pool = poolMap.get(poolConfig.address)!;
+      const pools = (await shouldDeferForGas('settle', signer))
+        ? []
+        : getPools(poolMap, config, hasSettlementSettings);
+      for (const { poolConfig, pool } of pools) {
+        if (lifecycle.isStopping) break;
         try {
           logger.debug(`Processing settlement check for pool: ${pool.name}`);
           
           await handleSettlements({
             pool,
-            poolConfig: poolConfig as RequireFields<PoolConfig, 'settlement'>,
+            poolConfig,
             signer,
             config: {
               dryRun: config.dryRun,
@@ -176,23 +640,22 @@ async function settlementLoop({ poolMap, config, signer }: KeepPoolParams) {
           });
           
           logger.debug(`Settlement check completed for pool: ${pool.name}`);
-          await delay(config.delayBetweenActions);
+          status.recordPoolOutcome(pool.poolAddress, pool.name, 'settle');
+          await lifecycle.delay(config.delayBetweenActions);
           
         } catch (poolError) {
           logger.error(`Failed to handle settlements for pool: ${pool.name}`, poolError);
+          status.recordPoolOutcome(pool.poolAddress, pool.name, 'settle', poolError);
           // Continue with other pools instead of crashing the entire settlement loop
         }
       }
       
-      // Calculate settlement check interval
-      const settlementCheckInterval = Math.max(
-        config.delayBetweenRuns * 5, // 5x normal delay 
-        120000 // Minimum 120 seconds between settlement checks
-      );
+      status.recordLoopIteration('settlement');
+      const settlementCheckInterval = getSettlementCheckInterval(config);
       
-      const nextCheck = new Date(Date.now() + settlementCheckInterval).toISOString();
-      logger.debug(`Settlement loop completed, sleeping for ${settlementCheckInterval/1000}s until ${nextCheck}`);
-      await delay(settlementCheckInterval);
+      const nextCheck = new Date(Date.now() + settlementCheckInterval * 1000).toISOString();
+      logger.debug(`Settlement loop completed, sleeping for ${settlementCheckInterval}s until ${nextCheck}`);
+      await lifecycle.delay(settlementCheckInterval);
       
     } catch (outerError) {
       // Properly handle TypeScript 'unknown' error type
@@ -205,14 +668,25 @@ async function settlementLoop({ poolMap, config, signer }: KeepPoolParams) {
        }
   
        // Wait 30 seconds before restarting the loop to prevent rapid crash loops
-       await delay(30000);
+       await lifecycle.delay(30);
        logger.info(`Restarting settlement loop after crash recovery delay`);
         
     }
   }
+  logger.info('Settlement loop stopped');
 } 
 
 
+/**
+ * Seconds between settlement loop iterations.
+ */
+function getSettlementCheckInterval(config: KeeperConfig): number {
+  return Math.max(
+    config.delayBetweenRuns * 5, // 5x normal delay
+    120 // Minimum 120 seconds between settlement checks
+  );
+}
+
 function hasSettlementSettings(
   config: PoolConfig
 ): config is RequireFields<PoolConfig, 'settlement'> {
@@ -224,8 +698,9 @@ async function collectLpRewardsLoop({
   poolMap,
   config,
   signer,
+  lifecycle,
+  status,
 }: KeepPoolParams) {
-  const poolsWithCollectLpSettings = config.pools.filter(hasCollectLpSettings);
   const lpCollectors: Map<string, LpCollector> = new Map();
   const dexRouter = new DexRouter(signer, {
     oneInchRouters: config?.oneInchRouters ?? {},
@@ -237,29 +712,26 @@ async function collectLpRewardsLoop({
   config,
   dexRouter,
 );
+  await exchangeTracker.loadState();
 
-  for (const poolConfig of poolsWithCollectLpSettings) {
-    const pool = poolMap.get(poolConfig.address)!;
-    const collector = new LpCollector(
-      pool,
+  while (!lifecycle.isStopping) {
+    const poolsWithCollectLpSettings = getPools(poolMap, config, hasCollectLpSettings);
+    await syncLpCollectors({
+      lpCollectors,
+      pools: poolsWithCollectLpSettings,
       signer,
-      poolConfig,
       config,
-      exchangeTracker
-    );
-    lpCollectors.set(poolConfig.address, collector);
-    await collector.startSubscription();
-  }
-
-  while (true) {
-    for (const poolConfig of poolsWithCollectLpSettings) {
-      const collector = lpCollectors.get(poolConfig.address)!;
+      exchangeTracker,
+    });
+    const deferRedeem = await shouldDeferForGas('lpRedeem', signer);
+    for (const { poolConfig, pool } of deferRedeem ? [] : poolsWithCollectLpSettings) {
+      if (lifecycle.isStopping) break;
+      const collector = lpCollectors.get(poolConfig.address);
+      if (!collector) continue;
       try {
         await collector.collectLpRewards();
-        await delay(config.delayBetweenActions);
+        await lifecycle.delay(config.delayBetweenActions);
       } catch (error) {
-        const pool = poolMap.get(poolConfig.address)!;
-
 	//Properly handle TypeScript 'unknown' error type
         const errorMessage = error instanceof Error ? error.message : String(error);
         
@@ -282,7 +754,7 @@ async function collectLpRewardsLoop({
           if (settled) {
             logger.info(`Retrying LP collection after settlement in ${pool.name}`);
             await collector.collectLpRewards();
-            await delay(config.delayBetweenActions);
+            await lifecycle.delay(config.delayBetweenActions);
           } else {
             logger.warn(`Settlement attempted but bonds still locked in ${pool.name}`);
           }
@@ -295,8 +767,73 @@ async function collectLpRewardsLoop({
        }
        }  
     }
-    await exchangeTracker.handleAllTokens();
-    await delay(config.delayBetweenRuns);
+    if (!(await shouldDeferForGas('rewardSwap', signer))) {
+      await exchangeTracker.handleAllTokens();
+    }
+    status.recordLoopIteration('collectLpReward');
+    await lifecycle.delay(config.delayBetweenRuns);
+  }
+
+  for (const collector of Array.from(lpCollectors.values())) {
+    await collector.stopSubscription();
+  }
+  // Give collected rewards one last chance to be transferred or swapped before exit.
+  await exchangeTracker.handleAllTokens();
+  for (const { token, rewardAction, amountWad } of exchangeTracker.getPendingTokens()) {
+    logger.warn(
+      `Reward left unhandled at shutdown - token: ${token}, action: ${rewardAction.action}, amount: ${weiToDecimaled(amountWad)}`
+    );
+  }
+  await exchangeTracker.flush();
+  logger.info('Collect LP rewards loop stopped');
+}
+
+/**
+ * Starts collectors for pools added to the config, stops those of removed
+ * pools and passes changed settings to the rest. A collector which fails to
+ * start is retried on the next call.
+ */
+async function syncLpCollectors({
+  lpCollectors,
+  pools,
+  signer,
+  config,
+  exchangeTracker,
+}: {
+  lpCollectors: Map<string, LpCollector>;
+  pools: PoolEntry<RequireFields<PoolConfig, 'collectLpReward'>>[];
+  signer: Signer;
+  config: KeeperConfig;
+  exchangeTracker: RewardActionTracker;
+}) {
+  const addresses = new Set(pools.map(({ poolConfig }) => poolConfig.address));
+  for (const [address, collector] of Array.from(lpCollectors.entries())) {
+    if (!addresses.has(address)) {
+      await collector.stopSubscription();
+      lpCollectors.delete(address);
+    }
+  }
+  for (const { poolConfig, pool } of pools) {
+    const existing = lpCollectors.get(poolConfig.address);
+    if (existing) {
+      existing.updatePoolConfig(poolConfig);
+      continue;
+    }
+    // The config schema rejects collectLpReward in ERC721 pools.
+    const collector = new LpCollector(
+      pool as FungiblePool,
+      signer,
+      poolConfig,
+      config,
+      exchangeTracker
+    );
+    try {
+      await collector.startSubscription();
+      lpCollectors.set(poolConfig.address, collector);
+    } catch (error) {
+      logger.error(`Failed to start collecting LP rewards for pool: ${pool.name}.`, error);
+      await collector.stopSubscription();
+    }
   }
 }
 
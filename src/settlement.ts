@@ -1,9 +1,10 @@
 import { ethers, BigNumber } from 'ethers';
-import { FungiblePool, Signer } from '@ajna-finance/sdk';
+import { Signer } from '@ajna-finance/sdk';
 import { KeeperConfig, PoolConfig, SettlementConfig } from './config-types';
 import { logger } from './logging';
 import { poolSettle } from './transactions';
-import { weiToDecimaled, delay, RequireFields } from './utils';
+import { recordGasSpent, recordSettlementIteration, recordSettlementResult } from './metrics';
+import { AjnaPool, weiToDecimaled, delay, RequireFields } from './utils';
 import subgraph from './subgraph';
 
 interface SettlementStatus {
@@ -36,7 +37,7 @@ export class SettlementHandler {
   // ADD: Global lock to prevent duplicate processing
   private static activeSettlements: Set<string> = new Set();
   constructor(
-    private pool: FungiblePool,
+    private pool: AjnaPool,
     private signer: Signer,
     private poolConfig: RequireFields<PoolConfig, 'settlement'>,
     private config: Pick<KeeperConfig, 'dryRun' | 'subgraphUrl' | 'delayBetweenActions'>
@@ -200,6 +201,7 @@ private async processAuction(auction: AuctionToSettle): Promise<void> {
     // Attempt settlement
     logger.info(`SETTLEMENT NEEDED for ${borrower.slice(0, 8)}: ${settlementCheck.reason}`);
     const result = await this.settleAuctionCompletely(borrower);
+    recordSettlementResult(this.pool.name, result);
     
     if (result.success) {
       logger.info(`Settlement completed for ${borrower.slice(0, 8)} in ${result.iterations} iterations`);
@@ -363,7 +365,9 @@ private async processAuction(auction: AuctionToSettle): Promise<void> {
         logger.debug(`Settlement iteration ${iteration}/${maxIterations} for ${borrower.slice(0, 8)}`);
         
         // Attempt settlement
-        await poolSettle(this.pool, this.signer, borrower, bucketDepth);
+        recordSettlementIteration(this.pool.name);
+        const receipt = await poolSettle(this.pool, this.signer, borrower, bucketDepth);
+        recordGasSpent(this.pool.name, 'settle', receipt);
         
         // Check if fully settled
         const auctionInfo = await this.pool.contract.auctionInfo(borrower);
@@ -429,7 +433,7 @@ export async function handleSettlements({
   signer,
   config,
 }: {
-  pool: FungiblePool;
+  pool: AjnaPool;
   poolConfig: RequireFields<PoolConfig, 'settlement'>;
   signer: Signer;
   config: Pick<KeeperConfig, 'dryRun' | 'subgraphUrl' | 'delayBetweenActions'>;
@@ -447,7 +451,7 @@ export async function tryReactiveSettlement({
   signer,
   config,
 }: {
-  pool: FungiblePool;
+  pool: AjnaPool;
   poolConfig: PoolConfig;
   signer: Signer;
   config: Pick<KeeperConfig, 'dryRun' | 'subgraphUrl' | 'delayBetweenActions'>;
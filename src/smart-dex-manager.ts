@@ -1,5 +1,5 @@
 // src/smart-dex-manager.ts
-import { Signer } from 'ethers';
+import { Contract, providers, Signer } from 'ethers';
 import { PoolConfig, LiquiditySource } from './config-types';
 import { logger } from './logging';
 
@@ -14,6 +14,18 @@ export type DeploymentType = 'factory' | 'single' | 'none';
 /**
  * Minimal config interface for smart detection - only the fields we actually need
  */
+const TAKER_FACTORY_ABI = [
+  'function hasConfiguredTaker(uint8 source) external view returns (bool)',
+  'function takerContracts(uint8 source) external view returns (address)',
+];
+
+/** Keys of `takerContracts` and the source each taker is registered under. */
+const TAKER_SOURCES: { [source: string]: LiquiditySource } = {
+  UniswapV3: LiquiditySource.UNISWAPV3,
+  SushiSwap: LiquiditySource.SUSHISWAP,
+  Curve: LiquiditySource.CURVE,
+};
+
 interface SmartDexConfig {
   keeperTaker?: string;
   keeperTakerFactory?: string;
@@ -130,4 +142,56 @@ export class SmartDexManager {
       errors
     };
   }
+
+  /**
+   * Runs validateDeployment, then checks the configured contracts against the chain:
+   * contracts must have code, and each takerContracts entry must be the taker
+   * registered on keeperTakerFactory for its source
+   */
+  async validateDeploymentOnChain(
+    signerOrProvider: Signer | providers.Provider = this.signer
+  ): Promise<{ valid: boolean; errors: string[] }> {
+    const { errors } = await this.validateDeployment();
+    const provider = Signer.isSigner(signerOrProvider)
+      ? signerOrProvider.provider!
+      : signerOrProvider;
+    const deploymentType = await this.detectDeploymentType();
+
+    const hasCode = async (address: string) => (await provider.getCode(address)) !== '0x';
+
+    if (deploymentType === 'single' && this.config.keeperTaker) {
+      if (!(await hasCode(this.config.keeperTaker))) {
+        errors.push(`keeperTaker ${this.config.keeperTaker} has no contract code`);
+      }
+    }
+
+    if (deploymentType === 'factory' && this.config.keeperTakerFactory) {
+      const factoryAddress = this.config.keeperTakerFactory;
+      if (!(await hasCode(factoryAddress))) {
+        errors.push(`keeperTakerFactory ${factoryAddress} has no contract code`);
+      } else {
+        const factory = new Contract(factoryAddress, TAKER_FACTORY_ABI, signerOrProvider);
+        for (const [name, takerAddress] of Object.entries(this.config.takerContracts ?? {})) {
+          const source = TAKER_SOURCES[name];
+          if (source === undefined) {
+            errors.push(`takerContracts.${name} is not a known source, expected one of ${Object.keys(TAKER_SOURCES).join(', ')}`);
+            continue;
+          }
+          if (!(await factory.hasConfiguredTaker(source))) {
+            errors.push(`takerContracts.${name} is not registered on keeperTakerFactory ${factoryAddress}`);
+            continue;
+          }
+          const registered: string = await factory.takerContracts(source);
+          if (registered.toLowerCase() !== takerAddress.toLowerCase()) {
+            errors.push(`takerContracts.${name} is ${takerAddress}, but keeperTakerFactory uses ${registered}`);
+          }
+        }
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors
+    };
+  }
 }
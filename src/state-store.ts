@@ -0,0 +1,57 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logging';
+
+/**
+ * A JSON document on disk which survives keeper restarts.
+ *
+ * Writes go to a temporary file which is then renamed over the old one, so a
+ * crash mid-write leaves the previous state intact. Saves are serialized, and
+ * a save always writes the state it was given, so the last call wins.
+ */
+export class JsonStateStore<T> {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(public readonly filePath: string) {}
+
+  /**
+   * Resolves to the stored state, or undefined if nothing has been saved yet.
+   */
+  async load(): Promise<T | undefined> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+    return JSON.parse(contents) as T;
+  }
+
+  save(state: T): Promise<void> {
+    const contents = JSON.stringify(state, null, 2);
+    const write = this.pendingWrite.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, contents, 'utf-8');
+      await fs.rename(tmpPath, this.filePath);
+    });
+    this.pendingWrite = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Saves without waiting, logging failures instead of throwing them. For
+   * callers which update state synchronously, e.g. from event handlers.
+   */
+  saveInBackground(state: T) {
+    this.save(state).catch((error) => {
+      logger.error(`Failed to save state to ${this.filePath}:`, error);
+    });
+  }
+
+  /** Resolves once every save issued so far has finished. */
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+}
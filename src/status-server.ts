@@ -0,0 +1,172 @@
+import { Signer } from '@ajna-finance/sdk';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { KeeperConfig } from './config-types';
+import { KeeperStatus } from './keeper-status';
+import { getGasBudgetStatus } from './gas-policy';
+import { logger } from './logging';
+import { registry } from './metrics';
+import { NonceTracker } from './nonce';
+import subgraph, { getSubgraphStatus } from './subgraph';
+import { TransactionManager } from './transaction-manager';
+import { AjnaPool, weiToDecimaled } from './utils';
+
+/** How long `/pools` reuses subgraph counts, so dashboards polling it don't hammer the subgraph. */
+const POOL_COUNTS_CACHE_SECONDS = 30;
+
+export interface StatusServerParams {
+  port: number;
+  status: KeeperStatus;
+  poolMap: Map<string, AjnaPool>;
+  signer: Signer;
+  config: Pick<KeeperConfig, 'subgraphUrl' | 'dryRun'>;
+  /** Set when stuck transaction handling is enabled. */
+  transactions?: TransactionManager;
+}
+
+interface PoolCounts {
+  name: string;
+  address: string;
+  loans: number;
+  activeAuctions: number;
+}
+
+/**
+ * Serves keeper liveness and status over HTTP:
+ * - `/healthz` reports each loop's last completed iteration, 503 if any loop is stale.
+ * - `/status` reports per-pool kick/take/settle outcomes, signer balance and nonce,
+ *   transactions waiting to be mined, and which subgraph endpoint is in use
+ *   when several are configured.
+ * - `/pools` reports the current loan and auction counts per pool.
+ * - `/metrics` exposes Prometheus metrics.
+ */
+export class StatusServer {
+  private server: Server;
+  private poolCountsCache?: { at: number; counts: PoolCounts[] };
+
+  constructor(private params: StatusServerParams) {
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        logger.error(`Status server failed to handle ${req.url}:`, error);
+        sendJson(res, 500, { error: String(error) });
+      });
+    });
+  }
+
+  public async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.params.port, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    logger.info(`Status server listening on port ${this.getPort()}`);
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.server.listening) return;
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    logger.info('Status server stopped');
+  }
+
+  /** The bound port, which differs from the configured one when that is 0. */
+  public getPort(): number {
+    const address = this.server.address();
+    return typeof address === 'object' && address
+      ? address.port
+      : this.params.port;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const path = (req.url ?? '/').split('?')[0];
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    switch (path) {
+      case '/healthz':
+        return this.handleHealth(res);
+      case '/status':
+        return this.handleStatus(res);
+      case '/pools':
+        return this.handlePools(res);
+      case '/metrics':
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+        res.end(registry.render());
+        return;
+      default:
+        sendJson(res, 404, { error: `Unknown path ${path}` });
+    }
+  }
+
+  private handleHealth(res: ServerResponse) {
+    const { status } = this.params;
+    const healthy = status.isHealthy();
+    sendJson(res, healthy ? 200 : 503, {
+      healthy,
+      loops: status.getLoopHealth(),
+    });
+  }
+
+  private async handleStatus(res: ServerResponse) {
+    const { status, signer, config, transactions } = this.params;
+    const address = await signer.getAddress();
+    const [balance, pendingNonce] = await Promise.all([
+      signer.getBalance(),
+      signer.getTransactionCount('pending'),
+    ]);
+    sendJson(res, 200, {
+      dryRun: !!config.dryRun,
+      signer: {
+        address,
+        balance: weiToDecimaled(balance),
+        nonce: {
+          tracked: NonceTracker.getTrackedNonce(address) ?? null,
+          pending: pendingNonce,
+        },
+      },
+      loops: status.getLoopHealth(),
+      pools: status.getPoolOutcomes(),
+      pendingTransactions: transactions?.getPending() ?? [],
+      subgraphEndpoints: getSubgraphStatus(),
+      gasBudget: getGasBudgetStatus(),
+    });
+  }
+
+  private async handlePools(res: ServerResponse) {
+    const now = Date.now();
+    if (
+      !this.poolCountsCache ||
+      now - this.poolCountsCache.at > POOL_COUNTS_CACHE_SECONDS * 1000
+    ) {
+      this.poolCountsCache = { at: now, counts: await this.getPoolCounts() };
+    }
+    sendJson(res, 200, {
+      updatedAt: new Date(this.poolCountsCache.at).toISOString(),
+      pools: this.poolCountsCache.counts,
+    });
+  }
+
+  private async getPoolCounts(): Promise<PoolCounts[]> {
+    const { poolMap, config } = this.params;
+    const counts: PoolCounts[] = [];
+    for (const pool of Array.from(poolMap.values())) {
+      const [{ loans }, { liquidationAuctions }] = await Promise.all([
+        subgraph.getLoans(config.subgraphUrl, pool.poolAddress),
+        subgraph.getUnsettledAuctions(config.subgraphUrl, pool.poolAddress),
+      ]);
+      counts.push({
+        name: pool.name,
+        address: pool.poolAddress,
+        loans: loans.length,
+        activeAuctions: liquidationAuctions.length,
+      });
+    }
+    return counts;
+  }
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown) {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,176 @@
+import { gql, request, Variables } from 'graphql-request';
+import { logger } from './logging';
+
+/** One subgraph url, or several serving the same subgraph. */
+export type SubgraphUrls = string | string[];
+
+/** How long endpoints are ranked by their indexed block before checking again. */
+const RANK_INTERVAL_MS = 30_000;
+
+/** Requests taking longer than this count as failed. */
+const REQUEST_TIMEOUT_MS = 15_000;
+
+const META_QUERY = gql`
+  query GetIndexedBlockNumber {
+    _meta {
+      block {
+        number
+      }
+    }
+  }
+`;
+
+export interface EndpointStatus {
+  /** Position in the config and host, so API keys in the url are not exposed. */
+  name: string;
+  inUse: boolean;
+  healthy: boolean;
+  indexedBlock: number | null;
+  lastError: string | null;
+}
+
+interface Endpoint {
+  url: string;
+  name: string;
+  healthy: boolean;
+  indexedBlock?: number;
+  lastError?: string;
+}
+
+function rejectAfter<T>(
+  promise: Promise<T>,
+  ms: number,
+  message: string
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function describeUrl(url: string, i: number): string {
+  try {
+    return `#${i + 1} (${new URL(url).host})`;
+  } catch (error) {
+    return `#${i + 1}`;
+  }
+}
+
+/**
+ * Several endpoints serving the same subgraph. Queries go to the endpoint
+ * which has indexed the most blocks, and fail over to the others in order
+ * on errors and timeouts.
+ */
+export class SubgraphEndpoints {
+  private endpoints: Endpoint[];
+  private current?: Endpoint;
+  private rankedAt = 0;
+  private pendingRank?: Promise<void>;
+
+  constructor(urls: string[]) {
+    this.endpoints = urls.map((url, i) => ({
+      url,
+      name: describeUrl(url, i),
+      healthy: true,
+    }));
+  }
+
+  async request<T>(document: string, variables?: Variables): Promise<T> {
+    await this.rankIfStale();
+    let lastError: unknown;
+    for (const endpoint of this.ranked()) {
+      try {
+        const result = await rejectAfter(
+          request<T>(endpoint.url, document, variables),
+          REQUEST_TIMEOUT_MS,
+          `timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+        );
+        this.use(endpoint);
+        return result;
+      } catch (error) {
+        endpoint.healthy = false;
+        endpoint.lastError = String(error);
+        logger.warn(
+          `Subgraph endpoint ${endpoint.name} failed, trying the next one: ${error}`
+        );
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /** The highest block indexed by any healthy endpoint. */
+  async getIndexedBlockNumber(): Promise<number> {
+    await this.rankIfStale();
+    const [best] = this.ranked();
+    if (!best.healthy || best.indexedBlock === undefined) {
+      throw new Error(`No subgraph endpoint is reachable: ${best.lastError}`);
+    }
+    return best.indexedBlock;
+  }
+
+  getStatus(): EndpointStatus[] {
+    return this.endpoints.map((endpoint) => ({
+      name: endpoint.name,
+      inUse: endpoint === this.current,
+      healthy: endpoint.healthy,
+      indexedBlock: endpoint.indexedBlock ?? null,
+      lastError: endpoint.lastError ?? null,
+    }));
+  }
+
+  /** Healthy endpoints first, freshest first. Unhealthy ones are kept as a last resort. */
+  private ranked(): Endpoint[] {
+    return [...this.endpoints].sort(
+      (a, b) =>
+        Number(b.healthy) - Number(a.healthy) ||
+        (b.indexedBlock ?? -1) - (a.indexedBlock ?? -1)
+    );
+  }
+
+  private use(endpoint: Endpoint) {
+    if (this.current !== endpoint) {
+      logger.info(
+        `Using subgraph endpoint ${endpoint.name}, indexed block: ${endpoint.indexedBlock ?? 'unknown'}`
+      );
+      this.current = endpoint;
+    }
+  }
+
+  private rankIfStale(): Promise<void> {
+    if (Date.now() - this.rankedAt < RANK_INTERVAL_MS) {
+      return Promise.resolve();
+    }
+    if (!this.pendingRank) {
+      this.pendingRank = this.rank().finally(() => {
+        this.rankedAt = Date.now();
+        this.pendingRank = undefined;
+      });
+    }
+    return this.pendingRank;
+  }
+
+  private async rank() {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          const result: { _meta: { block: { number: number } } } =
+            await rejectAfter(
+              request(endpoint.url, META_QUERY),
+              REQUEST_TIMEOUT_MS,
+              `timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+            );
+          endpoint.indexedBlock = result._meta.block.number;
+          endpoint.healthy = true;
+          endpoint.lastError = undefined;
+        } catch (error) {
+          endpoint.healthy = false;
+          endpoint.lastError = String(error);
+        }
+      })
+    );
+    const [best] = this.ranked();
+    if (best.healthy) this.use(best);
+  }
+}
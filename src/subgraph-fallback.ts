@@ -0,0 +1,323 @@
+import { Loan } from '@ajna-finance/sdk';
+import { BigNumber, providers } from 'ethers';
+import {
+  CollateralType,
+  KeeperConfig,
+  SubgraphFallbackSettings,
+} from './config-types';
+import { logger } from './logging';
+import subgraph, {
+  GetLiquidationResponse,
+  GetLoanResponse,
+  GetMeaningfulBucketResponse,
+  GetUnsettledAuctionsResponse,
+} from './subgraph';
+import { SubgraphUrls } from './subgraph-endpoints';
+import { AjnaPool, decimaledToWei, weiToDecimaled } from './utils';
+
+/** Block range per eth_getLogs request, to stay under common RPC limits. */
+const LOG_BLOCK_RANGE = 5000;
+
+/** How long the result of a subgraph health check is reused. */
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+
+/** Events indexed by collateral type. ERC721 pools emit NFT variants of DrawDebt and AuctionSettle. */
+const INDEXED_EVENTS: Record<CollateralType, string[]> = {
+  [CollateralType.ERC20]: [
+    'DrawDebt',
+    'Kick',
+    'Take',
+    'BucketTake',
+    'Settle',
+    'AuctionSettle',
+  ],
+  [CollateralType.ERC721]: [
+    'DrawDebtNFT',
+    'Kick',
+    'Take',
+    'BucketTake',
+    'Settle',
+    'AuctionNFTSettle',
+  ],
+};
+
+/** Debt and collateral at kick, if the Kick event was within the scanned range. */
+interface KickedAuction {
+  debt?: BigNumber;
+  collateral?: BigNumber;
+}
+
+/**
+ * Borrowers and auctions of one pool, rebuilt from its events. Entries are
+ * candidates only: callers confirm them with on-chain reads.
+ */
+export class PoolEventIndex {
+  readonly borrowers = new Set<string>();
+  readonly auctions = new Map<string, KickedAuction>();
+  private scannedThroughBlock: number;
+  private pendingSync: Promise<void> = Promise.resolve();
+
+  constructor(
+    private pool: AjnaPool,
+    fromBlock: number,
+    private collateralType: CollateralType = CollateralType.ERC20
+  ) {
+    this.scannedThroughBlock = fromBlock - 1;
+  }
+
+  /** Scans events up to `toBlock`. Concurrent calls are serialized. */
+  sync(provider: providers.Provider, toBlock: number): Promise<void> {
+    const sync = this.pendingSync.then(() => this.scan(provider, toBlock));
+    this.pendingSync = sync.catch(() => {});
+    return sync;
+  }
+
+  private async scan(provider: providers.Provider, toBlock: number) {
+    const { interface: poolInterface } = this.pool.contract;
+    const topics = INDEXED_EVENTS[this.collateralType].map((name) =>
+      poolInterface.getEventTopic(name)
+    );
+    for (
+      let start = this.scannedThroughBlock + 1;
+      start <= toBlock;
+      start += LOG_BLOCK_RANGE
+    ) {
+      const end = Math.min(start + LOG_BLOCK_RANGE - 1, toBlock);
+      const logs = await provider.getLogs({
+        address: this.pool.poolAddress,
+        topics: [topics],
+        fromBlock: start,
+        toBlock: end,
+      });
+      for (const log of logs) {
+        const { name, args } = poolInterface.parseLog(log);
+        this.handleEvent(name, args);
+      }
+      this.scannedThroughBlock = end;
+    }
+  }
+
+  private handleEvent(name: string, args: { [key: string]: any }) {
+    const borrower: string = args.borrower;
+    switch (name) {
+      case 'DrawDebt':
+      case 'DrawDebtNFT':
+        this.borrowers.add(borrower);
+        break;
+      case 'Kick':
+        this.auctions.set(borrower, {
+          debt: args.debt,
+          collateral: args.collateral,
+        });
+        break;
+      case 'AuctionSettle':
+      case 'AuctionNFTSettle':
+        this.auctions.delete(borrower);
+        break;
+      default:
+        // Take, BucketTake or Settle, for an auction kicked before the scanned range.
+        if (!this.auctions.has(borrower)) this.auctions.set(borrower, {});
+    }
+  }
+}
+
+interface ActiveAuction {
+  borrower: string;
+  kickTime: BigNumber;
+  neutralPrice: BigNumber;
+  collateral: BigNumber;
+  debtToCover: BigNumber;
+  atKick: KickedAuction;
+}
+
+/**
+ * Answers subgraph queries from pool events and on-chain reads, and decides
+ * when to do so: while the subgraph is unreachable, or its indexed block lags
+ * the RPC head by more than `maxLagBlocks`.
+ */
+export class SubgraphFallback {
+  private indexes = new Map<string, PoolEventIndex>();
+  private lastHealthCheck = 0;
+  private active = false;
+
+  constructor(
+    private provider: providers.Provider,
+    private poolMap: Map<string, AjnaPool>,
+    private settings: SubgraphFallbackSettings,
+    /** Read on each lookup, so pools retyped by a config reload are indexed again. */
+    private config: Pick<KeeperConfig, 'pools'> = { pools: [] }
+  ) {}
+
+  async shouldUseFallback(subgraphUrl: SubgraphUrls): Promise<boolean> {
+    if (Date.now() - this.lastHealthCheck < HEALTH_CHECK_INTERVAL_MS) {
+      return this.active;
+    }
+    this.lastHealthCheck = Date.now();
+    let head: number;
+    try {
+      head = await this.provider.getBlockNumber();
+    } catch (error) {
+      // On-chain discovery needs the RPC too, so stay on the subgraph.
+      this.setActive(false, `RPC head block could not be read: ${error}`);
+      return this.active;
+    }
+    try {
+      const indexed = await subgraph.getIndexedBlockNumber(subgraphUrl);
+      const lag = head - indexed;
+      this.setActive(
+        lag > this.settings.maxLagBlocks,
+        `subgraph is ${lag} blocks behind the RPC head`
+      );
+    } catch (error) {
+      this.setActive(true, `subgraph is unreachable: ${error}`);
+    }
+    return this.active;
+  }
+
+  /** Uses the fallback until the next health check, e.g. after a failed subgraph query. */
+  markUnhealthy(reason: string) {
+    this.lastHealthCheck = Date.now();
+    this.setActive(true, reason);
+  }
+
+  private setActive(active: boolean, reason: string) {
+    if (active && !this.active) {
+      logger.warn(`Switching to on-chain discovery: ${reason}`);
+    } else if (!active && this.active) {
+      logger.info(`Switching back to the subgraph: ${reason}`);
+    }
+    this.active = active;
+  }
+
+  async getLoans(poolAddress: string): Promise<GetLoanResponse> {
+    const { pool, index } = await this.getSyncedIndex(poolAddress);
+    const candidates = Array.from(index.borrowers).filter(
+      (borrower) => !index.auctions.has(borrower)
+    );
+    const loanMap = await pool.getLoans(candidates);
+    const loans: GetLoanResponse['loans'] = [];
+    loanMap.forEach((loan: Loan, borrower: string) => {
+      if (loan.debt.isZero()) {
+        // Repaid, a later DrawDebt adds the borrower back.
+        index.borrowers.delete(borrower);
+      } else if (!loan.isKicked) {
+        loans.push({
+          borrower,
+          thresholdPrice: weiToDecimaled(loan.thresholdPrice),
+        });
+      }
+    });
+    return { loans };
+  }
+
+  async getLiquidations(
+    poolAddress: string,
+    minCollateral: number
+  ): Promise<GetLiquidationResponse> {
+    const { pool, index } = await this.getSyncedIndex(poolAddress);
+    const { hpb, hpbIndex } = await pool.getPrices();
+    const auctions = await this.getActiveAuctions(pool, index);
+    return {
+      pool: {
+        hpb: weiToDecimaled(hpb),
+        hpbIndex,
+        liquidationAuctions: auctions
+          .filter(
+            ({ collateral }) => weiToDecimaled(collateral) > minCollateral
+          )
+          .map(({ borrower }) => ({ borrower })),
+      },
+    };
+  }
+
+  async getUnsettledAuctions(
+    poolAddress: string
+  ): Promise<GetUnsettledAuctionsResponse> {
+    const { pool, index } = await this.getSyncedIndex(poolAddress);
+    const auctions = await this.getActiveAuctions(pool, index);
+    const toDecimalString = (value: BigNumber) =>
+      weiToDecimaled(value).toString();
+    return {
+      liquidationAuctions: auctions.map((auction) => ({
+        borrower: auction.borrower,
+        kickTime: auction.kickTime.toString(),
+        debtRemaining: toDecimalString(auction.debtToCover),
+        collateralRemaining: toDecimalString(auction.collateral),
+        neutralPrice: toDecimalString(auction.neutralPrice),
+        debt: toDecimalString(auction.atKick.debt ?? auction.debtToCover),
+        collateral: toDecimalString(
+          auction.atKick.collateral ?? auction.collateral
+        ),
+      })),
+    };
+  }
+
+  /** Only the highest priced bucket is considered, since deposits are not indexed. */
+  async getHighestMeaningfulBucket(
+    poolAddress: string,
+    minDeposit: string
+  ): Promise<GetMeaningfulBucketResponse> {
+    const pool = this.getPool(poolAddress);
+    const { hpbIndex } = await pool.getPrices();
+    const { deposit } = await pool.getBucketByIndex(hpbIndex).getStatus();
+    const meaningful = deposit.gte(decimaledToWei(parseFloat(minDeposit)));
+    return { buckets: meaningful ? [{ bucketIndex: hpbIndex }] : [] };
+  }
+
+  private getPool(poolAddress: string): AjnaPool {
+    const pool = Array.from(this.poolMap.values()).find(
+      (pool) => pool.poolAddress.toLowerCase() === poolAddress.toLowerCase()
+    );
+    if (!pool) {
+      throw new Error(
+        `Pool ${poolAddress} is not loaded, cannot query it on-chain`
+      );
+    }
+    return pool;
+  }
+
+  private async getSyncedIndex(poolAddress: string) {
+    const pool = this.getPool(poolAddress);
+    const collateralType =
+      this.config.pools.find(
+        ({ address }) =>
+          address.toLowerCase() === pool.poolAddress.toLowerCase()
+      )?.collateralType ?? CollateralType.ERC20;
+    const key = `${pool.poolAddress.toLowerCase()}:${collateralType}`;
+    let index = this.indexes.get(key);
+    if (!index) {
+      index = new PoolEventIndex(pool, this.settings.fromBlock, collateralType);
+      this.indexes.set(key, index);
+    }
+    await index.sync(this.provider, await this.provider.getBlockNumber());
+    return { pool, index };
+  }
+
+  /** Reads the status of each indexed auction, forgetting those which have been settled. */
+  private async getActiveAuctions(
+    pool: AjnaPool,
+    index: PoolEventIndex
+  ): Promise<ActiveAuction[]> {
+    const auctions: ActiveAuction[] = [];
+    for (const [borrower, atKick] of Array.from(index.auctions.entries())) {
+      const { kickTime_, neutralPrice_ } =
+        await pool.contract.auctionInfo(borrower);
+      if (kickTime_.eq(0)) {
+        index.auctions.delete(borrower);
+        continue;
+      }
+      const { collateral, debtToCover } = await pool
+        .getLiquidation(borrower)
+        .getStatus();
+      auctions.push({
+        borrower,
+        kickTime: kickTime_,
+        neutralPrice: neutralPrice_,
+        collateral,
+        debtToCover,
+        atKick,
+      });
+    }
+    return auctions;
+  }
+}
@@ -1,4 +1,75 @@
-import { gql, request } from 'graphql-request';
+import { gql, request, Variables } from 'graphql-request';
+import { subgraphDuration, timed } from './metrics';
+import {
+  EndpointStatus,
+  SubgraphEndpoints,
+  SubgraphUrls,
+} from './subgraph-endpoints';
+import type { SubgraphFallback } from './subgraph-fallback';
+
+/** The most entities the Graph returns for one list field. */
+export const PAGE_SIZE = 1000;
+
+/**
+ * Sorts before every entity id, whether ids are Bytes or hex strings. Entity
+ * ids are Bytes in the Ajna subgraph, so cursors are declared `Bytes!`.
+ */
+const FIRST_CURSOR = '0x';
+
+/**
+ * Fetches pages until one comes back short, passing the id of the last
+ * entity seen as the cursor. Each page must be ordered by id and filtered
+ * with `id_gt` the cursor.
+ */
+async function queryAllPages<T extends { id: string }>(
+  getPage: (lastId: string) => Promise<T[]>
+): Promise<T[]> {
+  const entities: T[] = [];
+  let lastId = FIRST_CURSOR;
+  while (true) {
+    const page = await getPage(lastId);
+    entities.push(...page);
+    if (page.length < PAGE_SIZE) return entities;
+    lastId = page[page.length - 1].id;
+  }
+}
+
+type WithId<T> = T & { id: string };
+
+const endpointsByUrls = new Map<string, SubgraphEndpoints>();
+
+function getEndpoints(urls: string[]): SubgraphEndpoints {
+  const key = urls.join('\n');
+  let endpoints = endpointsByUrls.get(key);
+  if (!endpoints) {
+    endpoints = new SubgraphEndpoints(urls);
+    endpointsByUrls.set(key, endpoints);
+  }
+  return endpoints;
+}
+
+/**
+ * Sends a query to the subgraph. With several urls, the freshest healthy
+ * endpoint answers and the others are tried in turn if it fails.
+ */
+function querySubgraph<T>(
+  subgraphUrl: SubgraphUrls,
+  document: string,
+  variables?: Variables
+): Promise<T> {
+  if (typeof subgraphUrl === 'string' || subgraphUrl.length === 1) {
+    const url = typeof subgraphUrl === 'string' ? subgraphUrl : subgraphUrl[0];
+    return request<T>(url, document, variables);
+  }
+  return getEndpoints(subgraphUrl).request<T>(document, variables);
+}
+
+/** Health of each endpoint, for every set of several subgraph urls queried so far. */
+export function getSubgraphStatus(): EndpointStatus[] {
+  return Array.from(endpointsByUrls.values()).flatMap((endpoints) =>
+    endpoints.getStatus()
+  );
+}
 
 export interface GetLoanResponse {
   loans: {
@@ -7,18 +78,40 @@ export interface GetLoanResponse {
   }[];
 }
 
-async function getLoans(subgraphUrl: string, poolAddress: string) {
+async function queryLoans(
+  subgraphUrl: SubgraphUrls,
+  poolAddress: string
+): Promise<GetLoanResponse> {
   const query = gql`
-    query {
-      loans (where: {inLiquidation: false, poolAddress: "${poolAddress.toLowerCase()}"}){
+    query GetLoans($poolAddress: String!, $first: Int!, $lastId: Bytes!) {
+      loans(
+        first: $first
+        orderBy: id
+        where: {
+          inLiquidation: false
+          poolAddress: $poolAddress
+          id_gt: $lastId
+        }
+      ) {
+        id
         borrower
         thresholdPrice
       }
     }
   `;
 
-  const result: GetLoanResponse = await request(subgraphUrl, query);
-  return result;
+  const loans = await queryAllPages(async (lastId) => {
+    const result: { loans: WithId<GetLoanResponse['loans'][number]>[] } =
+      await timed(subgraphDuration, { query: 'getLoans' }, () =>
+        querySubgraph(subgraphUrl, query, {
+          poolAddress: poolAddress.toLowerCase(),
+          first: PAGE_SIZE,
+          lastId,
+        })
+      );
+    return result.loans;
+  });
+  return { loans };
 }
 
 export interface GetLiquidationResponse {
@@ -31,26 +124,61 @@ export interface GetLiquidationResponse {
   };
 }
 
-async function getLiquidations(
-  subgraphUrl: string,
+async function queryLiquidations(
+  subgraphUrl: SubgraphUrls,
   poolAddress: string,
   minCollateral: number
-) {
+): Promise<GetLiquidationResponse> {
   // TODO: Should probably sort auctions by kickTime so that we kick the most profitable auctions first.
   const query = gql`
-    query {
-      pool (id: "${poolAddress.toLowerCase()}") {
+    query GetLiquidations(
+      $poolId: ID!
+      $minCollateral: BigDecimal!
+      $first: Int!
+      $lastId: Bytes!
+    ) {
+      pool(id: $poolId) {
         hpb
         hpbIndex
-        liquidationAuctions (where: {collateralRemaining_gt: "${minCollateral}"}) {
+        liquidationAuctions(
+          first: $first
+          orderBy: id
+          where: { collateralRemaining_gt: $minCollateral, id_gt: $lastId }
+        ) {
+          id
           borrower
         }
       }
     }
   `;
 
-  const result: GetLiquidationResponse = await request(subgraphUrl, query);
-  return result;
+  type Page = {
+    pool: GetLiquidationResponse['pool'] & {
+      liquidationAuctions: WithId<
+        GetLiquidationResponse['pool']['liquidationAuctions'][number]
+      >[];
+    };
+  };
+  let pool = undefined as Page['pool'] | undefined;
+  const liquidationAuctions = await queryAllPages(async (lastId) => {
+    const result: Page = await timed(
+      subgraphDuration,
+      { query: 'getLiquidations' },
+      () =>
+        querySubgraph(subgraphUrl, query, {
+          poolId: poolAddress.toLowerCase(),
+          minCollateral: minCollateral.toString(),
+          first: PAGE_SIZE,
+          lastId,
+        })
+    );
+    pool = pool ?? result.pool;
+    return result.pool?.liquidationAuctions ?? [];
+  });
+  // A pool missing from the subgraph is passed through as before.
+  return {
+    pool: pool && { ...pool, liquidationAuctions },
+  } as GetLiquidationResponse;
 }
 
 export interface GetMeaningfulBucketResponse {
@@ -59,18 +187,18 @@ export interface GetMeaningfulBucketResponse {
   }[];
 }
 
-async function getHighestMeaningfulBucket(
-  subgraphUrl: string,
+async function queryHighestMeaningfulBucket(
+  subgraphUrl: SubgraphUrls,
   poolAddress: string,
   minDeposit: string
 ) {
   const query = gql`
-    query {
+    query GetHighestMeaningfulBucket(
+      $poolAddress: String!
+      $minDeposit: BigDecimal!
+    ) {
       buckets(
-        where: {
-          deposit_gt: "${minDeposit}"
-          poolAddress: "${poolAddress.toLowerCase()}"
-        }
+        where: { deposit_gt: $minDeposit, poolAddress: $poolAddress }
         first: 1
         orderBy: bucketPrice
         orderDirection: desc
@@ -80,7 +208,15 @@ async function getHighestMeaningfulBucket(
     }
   `;
 
-  const result: GetMeaningfulBucketResponse = await request(subgraphUrl, query);
+  const result: GetMeaningfulBucketResponse = await timed(
+    subgraphDuration,
+    { query: 'getHighestMeaningfulBucket' },
+    () =>
+      querySubgraph(subgraphUrl, query, {
+        poolAddress: poolAddress.toLowerCase(),
+        minDeposit,
+      })
+  );
   return result;
 }
 
@@ -96,15 +232,22 @@ export interface GetUnsettledAuctionsResponse {
   }[];
 }
 
-async function getUnsettledAuctions(subgraphUrl: string, poolAddress: string) {
+async function queryUnsettledAuctions(
+  subgraphUrl: SubgraphUrls,
+  poolAddress: string
+): Promise<GetUnsettledAuctionsResponse> {
   const query = gql`
-    query GetUnsettledAuctions($poolId: String!) {
+    query GetUnsettledAuctions(
+      $poolId: String!
+      $first: Int!
+      $lastId: Bytes!
+    ) {
       liquidationAuctions(
-        where: {
-          pool: $poolId,
-          settled: false
-        }
+        first: $first
+        orderBy: id
+        where: { pool: $poolId, settled: false, id_gt: $lastId }
       ) {
+        id
         borrower
         kickTime
         debtRemaining
@@ -116,18 +259,128 @@ async function getUnsettledAuctions(subgraphUrl: string, poolAddress: string) {
     }
   `;
 
-  const result: GetUnsettledAuctionsResponse = await request(subgraphUrl, query, {
-    poolId: poolAddress.toLowerCase()
+  const liquidationAuctions = await queryAllPages(async (lastId) => {
+    const result: {
+      liquidationAuctions: WithId<
+        GetUnsettledAuctionsResponse['liquidationAuctions'][number]
+      >[];
+    } = await timed(subgraphDuration, { query: 'getUnsettledAuctions' }, () =>
+      querySubgraph(subgraphUrl, query, {
+        poolId: poolAddress.toLowerCase(),
+        first: PAGE_SIZE,
+        lastId,
+      })
+    );
+    return result.liquidationAuctions;
   });
-  return result;
+  return { liquidationAuctions };
 }
 
+let fallback: SubgraphFallback | undefined;
+
+/**
+ * Answers queries from the chain instead while the subgraph is down or
+ * lagging. Pass undefined to always query the subgraph.
+ */
+export function configureSubgraphFallback(newFallback?: SubgraphFallback) {
+  fallback = newFallback;
+}
+
+/**
+ * Runs `query` against the subgraph, unless a fallback is configured and the
+ * subgraph is unhealthy. A failed subgraph query is retried on-chain.
+ */
+async function withFallback<T>(
+  name: string,
+  subgraphUrl: SubgraphUrls,
+  query: () => Promise<T>,
+  onChain: (fallback: SubgraphFallback) => Promise<T>
+): Promise<T> {
+  const current = fallback;
+  if (!current) return query();
+  if (await current.shouldUseFallback(subgraphUrl)) return onChain(current);
+  try {
+    return await query();
+  } catch (error) {
+    current.markUnhealthy(`subgraph query ${name} failed: ${error}`);
+    return onChain(current);
+  }
+}
+
+function getLoans(subgraphUrl: SubgraphUrls, poolAddress: string) {
+  return withFallback(
+    'getLoans',
+    subgraphUrl,
+    () => queryLoans(subgraphUrl, poolAddress),
+    (fallback) => fallback.getLoans(poolAddress)
+  );
+}
+
+function getLiquidations(
+  subgraphUrl: SubgraphUrls,
+  poolAddress: string,
+  minCollateral: number
+) {
+  return withFallback(
+    'getLiquidations',
+    subgraphUrl,
+    () => queryLiquidations(subgraphUrl, poolAddress, minCollateral),
+    (fallback) => fallback.getLiquidations(poolAddress, minCollateral)
+  );
+}
+
+function getHighestMeaningfulBucket(
+  subgraphUrl: SubgraphUrls,
+  poolAddress: string,
+  minDeposit: string
+) {
+  return withFallback(
+    'getHighestMeaningfulBucket',
+    subgraphUrl,
+    () => queryHighestMeaningfulBucket(subgraphUrl, poolAddress, minDeposit),
+    (fallback) => fallback.getHighestMeaningfulBucket(poolAddress, minDeposit)
+  );
+}
+
+function getUnsettledAuctions(subgraphUrl: SubgraphUrls, poolAddress: string) {
+  return withFallback(
+    'getUnsettledAuctions',
+    subgraphUrl,
+    () => queryUnsettledAuctions(subgraphUrl, poolAddress),
+    (fallback) => fallback.getUnsettledAuctions(poolAddress)
+  );
+}
+
+/** The latest block the subgraph has indexed. */
+async function getIndexedBlockNumber(
+  subgraphUrl: SubgraphUrls
+): Promise<number> {
+  if (typeof subgraphUrl !== 'string' && subgraphUrl.length > 1) {
+    return getEndpoints(subgraphUrl).getIndexedBlockNumber();
+  }
+  const query = gql`
+    query GetIndexedBlockNumber {
+      _meta {
+        block {
+          number
+        }
+      }
+    }
+  `;
+
+  const result: { _meta: { block: { number: number } } } = await timed(
+    subgraphDuration,
+    { query: 'getIndexedBlockNumber' },
+    () => querySubgraph(subgraphUrl, query)
+  );
+  return result._meta.block.number;
+}
 
 // Exported as default module to enable mocking in tests.
 export default { 
   getLoans, 
   getLiquidations, 
   getHighestMeaningfulBucket, 
-  getUnsettledAuctions 
+  getUnsettledAuctions,
+  getIndexedBlockNumber,
 };
-
@@ -3,6 +3,7 @@
 import { Contract, BigNumber, Signer, providers, ethers } from 'ethers';
 import { logger } from './logging';
 import { NonceTracker } from './nonce';
+import { preflight } from './preflight';
 import { weiToDecimaled } from './utils';
 import { getTokenFromAddress } from './uniswap';
 
@@ -125,6 +126,9 @@ export async function swapWithSushiswapRouter(
     if (currentAllowance.lt(amount)) {
       logger.info(`Approving SushiSwap router to spend ${tokenToSwap.symbol}`);
       await NonceTracker.queueTransaction(signer, async (nonce) => {
+        await preflight('approve', tokenAddress, () =>
+          tokenContract.callStatic.approve(swapRouterAddress, ethers.constants.MaxUint256)
+        );
         const approveTx = await tokenContract.approve(swapRouterAddress, ethers.constants.MaxUint256, { nonce });
         logger.info(`SushiSwap approval transaction sent: ${approveTx.hash}`);
         const receipt = await approveTx.wait();
@@ -164,6 +168,9 @@ export async function swapWithSushiswapRouter(
     
     // CRITICAL: Use NonceTracker like all other swap modules
     const receipt = await NonceTracker.queueTransaction(signer, async (nonce) => {
+      await preflight('swap', 'SushiSwap', () =>
+        routerContract.callStatic.exactInputSingle(swapParams)
+      );
       const swapTx = await routerContract.exactInputSingle(
         swapParams,
         {
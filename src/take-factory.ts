@@ -6,9 +6,13 @@ import subgraph from './subgraph';
 import { decimaledToWei, delay, RequireFields, weiToDecimaled } from './utils';
 import { KeeperConfig, LiquiditySource, PoolConfig } from './config-types';
 import { logger } from './logging';
-import { liquidationArbTake } from './transactions';
+import { estimateArbTakeGas, liquidationArbTake } from './transactions';
 import { BigNumber, ethers } from 'ethers';
 import { NonceTracker } from './nonce';
+import { recordGasSpent, recordTake } from './metrics';
+import { preflight } from './preflight';
+import { getFeeOverrides } from './provider';
+import { getLpAwarded, recordLedgerEntry, recordTakeInLedger } from './ledger';
 import { AjnaKeeperTakerFactory__factory } from '../typechain-types';
 // Import the Uniswap V3 quote provider (FIXED PATH)
 import { UniswapV3QuoteProvider } from './dex-providers/uniswap-quote-provider';
@@ -17,6 +21,14 @@ import { convertWadToTokenDecimals, getDecimalsErc20 } from './erc20';
 // FIXED: Import quoteTokenScale function
 import { quoteTokenScale } from '@ajna-finance/sdk/dist/contracts/pool';
 import { DexRouter } from './dex-router';
+import {
+  findPartialTake,
+  getArbTakeCollateral,
+  getTakeProfit,
+  isProfitableAfterGas,
+  TakeProfitConfig,
+} from './take-profit';
+import { scheduleTake } from './take-schedule';
 
 interface FactoryTakeParams {
   signer: Signer;
@@ -33,14 +45,19 @@ interface FactoryTakeParams {
     | 'sushiswapRouterOverrides'
     | 'curveRouterOverrides'
     | 'tokenAddresses'
-  >;
+  > &
+    TakeProfitConfig;
 }
 
 interface LiquidationToTake {
   borrower: string;
   hpbIndex: number;
   collateral: BigNumber;
+  /** Collateral to take when less than the auction's, in WAD. */
+  takeCollateral?: BigNumber;
   auctionPrice: BigNumber;
+  /** Quote token per collateral from the DEX quote, when takeable. */
+  marketPrice?: number;
   isTakeable: boolean;
   isArbTakeable: boolean;
 }
@@ -68,7 +85,10 @@ export async function handleFactoryTakes({
         pool,
         poolConfig,
         signer,
-        liquidation,
+        liquidation: {
+          ...liquidation,
+          collateral: liquidation.takeCollateral ?? liquidation.collateral,
+        },
         config,
       });
       
@@ -112,19 +132,41 @@ async function* getLiquidationsToTakeFactory({
     const collateral = liquidationStatus.collateral;
 
     let isTakeable = false;
+    let marketPrice: number | undefined;
+    let takeCollateral: BigNumber | undefined;
     let isArbTakeable = false;
     let arbHpbIndex = 0;
 
     // Check if external take is possible with configured DEX
     if (poolConfig.take.marketPriceFactor && poolConfig.take.liquiditySource) {
-      isTakeable = await checkIfTakeableFactory(
+      ({ isTakeable, marketPrice } = await checkIfTakeableFactory(
         pool,
         price,
         collateral,
         poolConfig,
         config,
         signer
-      );
+      ));
+      if (!isTakeable && marketPrice !== undefined) {
+        await scheduleTake(
+          pool,
+          borrower,
+          marketPrice * poolConfig.take.marketPriceFactor
+        );
+        const partialTake = await findPartialTake(
+          poolConfig.take,
+          collateral,
+          (amount) =>
+            checkIfTakeableFactory(pool, price, amount, poolConfig, config, signer)
+        );
+        if (partialTake) {
+          isTakeable = true;
+          ({ collateral: takeCollateral, marketPrice } = partialTake);
+          logger.info(
+            `Factory: Partial take of ${weiToDecimaled(takeCollateral)} of ${weiToDecimaled(collateral)} collateral is takeable - pool: ${pool.name}, borrower: ${borrower}`
+          );
+        }
+      }
     }
 
     // Check arbTake (same logic as existing)
@@ -155,7 +197,9 @@ async function* getLiquidationsToTakeFactory({
         borrower,
         hpbIndex: arbHpbIndex,
         collateral,
+        takeCollateral,
         auctionPrice: liquidationStatus.price,
+        marketPrice,
         isTakeable,
         isArbTakeable,
       };
@@ -167,6 +211,12 @@ async function* getLiquidationsToTakeFactory({
   }
 }
 
+interface TakeableCheck {
+  isTakeable: boolean;
+  /** Quote token per collateral from the DEX quote. */
+  marketPrice?: number;
+}
+
 /**
  * Check if external take is profitable using factory DEX sources
  */
@@ -177,15 +227,15 @@ async function checkIfTakeableFactory(
   poolConfig: RequireFields<PoolConfig, 'take'>,
   config: Pick<FactoryTakeParams['config'], 'universalRouterOverrides' | 'sushiswapRouterOverrides' | 'curveRouterOverrides'  >,
   signer: Signer
-): Promise<boolean> {
+): Promise<TakeableCheck> {
   
   if (!poolConfig.take.marketPriceFactor) {
-    return false;
+    return { isTakeable: false };
   }
 
   if (!collateral.gt(0)) {
     logger.debug(`Factory: Invalid collateral amount: ${collateral.toString()} for pool ${pool.name}`);
-    return false;
+    return { isTakeable: false };
   }
 
   try {
@@ -202,11 +252,11 @@ async function checkIfTakeableFactory(
     // Future: Add other DEX sources here
 
     logger.debug(`Factory: Unsupported liquidity source: ${poolConfig.take.liquiditySource}`);
-    return false;
+    return { isTakeable: false };
 
   } catch (error) {
     logger.error(`Factory: Failed to check takeability for pool ${pool.name}: ${error}`);
-    return false;
+    return { isTakeable: false };
   }
 }
 
@@ -221,11 +271,11 @@ async function checkUniswapV3Quote(
   poolConfig: RequireFields<PoolConfig, 'take'>,
   config: Pick<FactoryTakeParams['config'], 'universalRouterOverrides'>,
   signer: Signer
-): Promise<boolean> {
+): Promise<TakeableCheck> {
   
   if (!config.universalRouterOverrides) {
     logger.debug(`Factory: No universalRouterOverrides configured for pool ${pool.name}`);
-    return false;
+    return { isTakeable: false };
   }
 
   const routerConfig = config.universalRouterOverrides;
@@ -233,7 +283,7 @@ async function checkUniswapV3Quote(
   // Validate required configuration
   if (!routerConfig.universalRouterAddress || !routerConfig.poolFactoryAddress || !routerConfig.wethAddress) {
     logger.debug(`Factory: Missing required router configuration for pool ${pool.name}`);
-    return false;
+    return { isTakeable: false };
   }
 
   try {
@@ -249,7 +299,7 @@ async function checkUniswapV3Quote(
     // Check if the quote provider found a QuoterV2 contract
     if (!quoteProvider.isAvailable()) {
       logger.debug(`Factory: UniswapV3QuoteProvider not available for pool ${pool.name}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // Log the QuoterV2 address being used
@@ -274,7 +324,7 @@ async function checkUniswapV3Quote(
 
     if (!quoteResult.success || !quoteResult.dstAmount) {
       logger.debug(`Factory: Failed to get official Uniswap V3 quote for pool ${pool.name}: ${quoteResult.error}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // PHASE 3: Calculate actual market price from the OFFICIAL quote
@@ -283,7 +333,7 @@ async function checkUniswapV3Quote(
 
     if (collateralAmount <= 0 || quoteAmount <= 0) {
       logger.debug(`Factory: Invalid amounts - collateral: ${collateralAmount}, quote: ${quoteAmount} for pool ${pool.name}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // Market price = quoteAmount / collateralAmount (quote tokens per collateral token)
@@ -292,7 +342,7 @@ async function checkUniswapV3Quote(
     const marketPriceFactor = poolConfig.take.marketPriceFactor;
     if (!marketPriceFactor) {
       logger.debug(`Factory: No marketPriceFactor configured for pool ${pool.name}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // Calculate the maximum price we're willing to pay (including slippage/profit margin)
@@ -302,11 +352,11 @@ async function checkUniswapV3Quote(
     
     logger.debug(`Price check: pool=${pool.name}, auction=${auctionPrice.toFixed(4)}, market=${officialMarketPrice.toFixed(4)}, takeable=${takeablePrice.toFixed(4)}, profitable=${profitable}`);
 
-    return profitable;
+    return { isTakeable: profitable, marketPrice: officialMarketPrice };
 
   } catch (error) {
     logger.error(`Factory: Error getting official Uniswap V3 quote for pool ${pool.name}: ${error}`);
-    return false;
+    return { isTakeable: false };
   }
 }
 
@@ -321,11 +371,11 @@ async function checkSushiSwapQuote(
   poolConfig: RequireFields<PoolConfig, 'take'>,
   config: Pick<FactoryTakeParams['config'], 'sushiswapRouterOverrides'>,
   signer: Signer
-): Promise<boolean> {
+): Promise<TakeableCheck> {
   
   if (!config.sushiswapRouterOverrides) {
     logger.debug(`Factory: No sushiswapRouterOverrides configured for pool ${pool.name}`);
-    return false;
+    return { isTakeable: false };
   }
 
   const sushiConfig = config.sushiswapRouterOverrides;
@@ -333,7 +383,7 @@ async function checkSushiSwapQuote(
   // Validate required configuration
   if (!sushiConfig.swapRouterAddress || !sushiConfig.factoryAddress || !sushiConfig.wethAddress) {
     logger.debug(`Factory: Missing required SushiSwap configuration for pool ${pool.name}`);
-    return false;
+    return { isTakeable: false };
   }
 
   try {
@@ -350,7 +400,7 @@ async function checkSushiSwapQuote(
     const initialized = await quoteProvider.initialize();
     if (!initialized) {
       logger.debug(`Factory: SushiSwap quote provider not available for pool ${pool.name}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // Get token decimals for proper formatting
@@ -373,7 +423,7 @@ async function checkSushiSwapQuote(
 
     if (!quoteResult.success || !quoteResult.dstAmount) {
       logger.debug(`Factory: Failed to get SushiSwap quote for pool ${pool.name}: ${quoteResult.error}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // Calculate actual market price from the official quote
@@ -382,7 +432,7 @@ async function checkSushiSwapQuote(
 
     if (collateralAmount <= 0 || quoteAmount <= 0) {
       logger.debug(`Factory: Invalid amounts - collateral: ${collateralAmount}, quote: ${quoteAmount} for pool ${pool.name}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // Market price = quoteAmount / collateralAmount (quote tokens per collateral token)
@@ -391,7 +441,7 @@ async function checkSushiSwapQuote(
     const marketPriceFactor = poolConfig.take.marketPriceFactor;
     if (!marketPriceFactor) {
       logger.debug(`Factory: No marketPriceFactor configured for pool ${pool.name}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // Calculate the maximum price we're willing to pay (including slippage/profit margin)
@@ -401,11 +451,11 @@ async function checkSushiSwapQuote(
     
     logger.debug(`SushiSwap price check: pool=${pool.name}, auction=${auctionPrice.toFixed(4)}, market=${marketPrice.toFixed(4)}, takeable=${takeablePrice.toFixed(4)}, profitable=${profitable}`);
 
-    return profitable;
+    return { isTakeable: profitable, marketPrice };
 
   } catch (error) {
     logger.error(`Factory: Error getting SushiSwap quote for pool ${pool.name}: ${error}`);
-    return false;
+    return { isTakeable: false };
   }
 }
 
@@ -420,11 +470,11 @@ async function checkCurveQuote(
   poolConfig: RequireFields<PoolConfig, 'take'>,
   config: Pick<FactoryTakeParams['config'], 'curveRouterOverrides' | 'tokenAddresses'>,
   signer: Signer
-): Promise<boolean> {
+): Promise<TakeableCheck> {
   
   if (!config.curveRouterOverrides) {
     logger.debug(`Factory: No curveRouterOverrides configured for pool ${pool.name}`);
-    return false;
+    return { isTakeable: false };
   }
 
   const curveConfig = config.curveRouterOverrides;
@@ -432,7 +482,7 @@ async function checkCurveQuote(
   // Validate required configuration
   if (!curveConfig.poolConfigs || !curveConfig.wethAddress) {
     logger.debug(`Factory: Missing required Curve configuration for pool ${pool.name}`);
-    return false;
+    return { isTakeable: false };
   }
 
   try {
@@ -451,7 +501,7 @@ async function checkCurveQuote(
     const initialized = await quoteProvider.initialize();
     if (!initialized) {
       logger.debug(`Factory: Curve quote provider not available for pool ${pool.name}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // Get token decimals for proper formatting
@@ -470,7 +520,7 @@ async function checkCurveQuote(
 
     if (!quoteResult.success || !quoteResult.dstAmount) {
       logger.debug(`Factory: Failed to get Curve quote for pool ${pool.name}: ${quoteResult.error}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // Calculate actual market price from the official quote
@@ -479,7 +529,7 @@ async function checkCurveQuote(
 
     if (collateralAmount <= 0 || quoteAmount <= 0) {
       logger.debug(`Factory: Invalid amounts - collateral: ${collateralAmount}, quote: ${quoteAmount} for pool ${pool.name}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // Market price = quoteAmount / collateralAmount (quote tokens per collateral token)
@@ -488,7 +538,7 @@ async function checkCurveQuote(
     const marketPriceFactor = poolConfig.take.marketPriceFactor;
     if (!marketPriceFactor) {
       logger.debug(`Factory: No marketPriceFactor configured for pool ${pool.name}`);
-      return false;
+      return { isTakeable: false };
     }
 
     // Calculate the maximum price we're willing to pay (including slippage/profit margin)
@@ -498,11 +548,11 @@ async function checkCurveQuote(
     
     logger.debug(`Curve price check: pool=${pool.name}, auction=${auctionPrice.toFixed(4)}, market=${marketPrice.toFixed(4)}, takeable=${takeablePrice.toFixed(4)}, profitable=${profitable}`);
 
-    return profitable;
+    return { isTakeable: profitable, marketPrice };
 
   } catch (error) {
     logger.error(`Factory: Error getting Curve quote for pool ${pool.name}: ${error}`);
-    return false;
+    return { isTakeable: false };
   }
 }
 
@@ -514,7 +564,7 @@ async function checkIfArbTakeableFactory(
   price: number,
   collateral: BigNumber,
   poolConfig: RequireFields<PoolConfig, 'take'>,
-  subgraphUrl: string,
+  subgraphUrl: KeeperConfig['subgraphUrl'],
   minDeposit: string,
   signer: Signer
 ): Promise<{ isArbTakeable: boolean; hpbIndex: number }> {
@@ -567,7 +617,7 @@ async function takeLiquidationFactory({
   poolConfig: RequireFields<PoolConfig, 'take'>;
   signer: Signer;
   liquidation: LiquidationToTake;
-  config: Pick<FactoryTakeParams['config'], 'dryRun' | 'keeperTakerFactory' | 'universalRouterOverrides' | 'sushiswapRouterOverrides' | 'curveRouterOverrides' | 'tokenAddresses' >;
+  config: Pick<FactoryTakeParams['config'], 'dryRun' | 'keeperTakerFactory' | 'universalRouterOverrides' | 'sushiswapRouterOverrides' | 'curveRouterOverrides' | 'tokenAddresses' | 'coinGeckoApiKey' | 'ethRpcUrl' >;
 }) {
   
   const { borrower } = liquidation;
@@ -629,7 +679,7 @@ async function takeWithUniswapV3Factory({
   poolConfig: RequireFields<PoolConfig, 'take'>;
   signer: Signer;
   liquidation: LiquidationToTake;
-  config: Pick<FactoryTakeParams['config'], 'keeperTakerFactory' | 'universalRouterOverrides'>;
+  config: Pick<FactoryTakeParams['config'], 'keeperTakerFactory' | 'universalRouterOverrides' | 'tokenAddresses' | 'coinGeckoApiKey' | 'ethRpcUrl'>;
 }) {
 
   const factory = AjnaKeeperTakerFactory__factory.connect(config.keeperTakerFactory!, signer);
@@ -675,27 +725,53 @@ async function takeWithUniswapV3Factory({
     ]]
   );
 
+  const takeArgs = [
+    pool.poolAddress,
+    liquidation.borrower,
+    liquidation.auctionPrice,  // WAD amount
+    liquidation.collateral,    // WAD amount
+    Number(poolConfig.take.liquiditySource), // LiquiditySource.UNISWAPV3 = 2
+    swapDetails.universalRouter,
+    encodedSwapDetails,
+  ] as const;
+  const profitable = await isProfitableAfterGas({
+    pool,
+    poolConfig,
+    signer,
+    config,
+    action: 'take',
+    expectedProfit: getTakeProfit(
+      liquidation.collateral,
+      liquidation.auctionPrice,
+      liquidation.marketPrice ?? 0
+    ),
+    estimateGas: () => factory.estimateGas.takeWithAtomicSwap(...takeArgs),
+  });
+  if (!profitable) return;
+
   try {
     logger.debug(`Factory: Sending Uniswap V3 Take Tx - poolAddress: ${pool.poolAddress}, borrower: ${liquidation.borrower}`);
 
-    await NonceTracker.queueTransaction(signer, async (nonce: number) => {
-      // FIXED: Send WAD amounts directly - no decimal pre-conversion
-      const tx = await factory.takeWithAtomicSwap(
-        pool.poolAddress,
-        liquidation.borrower,
-        liquidation.auctionPrice,  // WAD amount
-        liquidation.collateral,    // WAD amount
-        Number(poolConfig.take.liquiditySource), // LiquiditySource.UNISWAPV3 = 2
-        swapDetails.universalRouter,
-        encodedSwapDetails,
-        { nonce: nonce.toString() }
+    recordTake(pool.name, poolConfig.take.liquiditySource, 'attempted');
+    const receipt = await NonceTracker.queueTransaction(signer, async (nonce: number) => {
+      await preflight('take', pool.name, () =>
+        factory.callStatic.takeWithAtomicSwap(...takeArgs)
       );
+      // FIXED: Send WAD amounts directly - no decimal pre-conversion
+      const tx = await factory.takeWithAtomicSwap(...takeArgs, {
+        nonce: nonce.toString(),
+        ...(await getFeeOverrides(signer, 'take')),
+      });
       return await tx.wait();
     });
 
+    recordTake(pool.name, poolConfig.take.liquiditySource, 'confirmed');
+    recordGasSpent(pool.name, 'take', receipt);
+    await recordTakeInLedger(pool, poolConfig.take.liquiditySource!, receipt, signer);
     logger.info(`Factory Uniswap V3 Take successful - poolAddress: ${pool.poolAddress}, borrower: ${liquidation.borrower}`);
 
   } catch (error) {
+    recordTake(pool.name, poolConfig.take.liquiditySource, 'failed');
     logger.error(`Factory: Failed to Uniswap V3 Take. pool: ${pool.name}, borrower: ${liquidation.borrower}`, error);
   }
 }
@@ -722,7 +798,7 @@ async function takeWithSushiSwapFactory({
   poolConfig: RequireFields<PoolConfig, 'take'>;
   signer: Signer;
   liquidation: LiquidationToTake;
-  config: Pick<FactoryTakeParams['config'], 'keeperTakerFactory' | 'sushiswapRouterOverrides'>;
+  config: Pick<FactoryTakeParams['config'], 'keeperTakerFactory' | 'sushiswapRouterOverrides' | 'tokenAddresses' | 'coinGeckoApiKey' | 'ethRpcUrl'>;
 }) {
   
   const factory = AjnaKeeperTakerFactory__factory.connect(config.keeperTakerFactory!, signer);
@@ -760,27 +836,53 @@ async function takeWithSushiSwapFactory({
     [swapDetails.feeTier, swapDetails.amountOutMinimum, swapDetails.deadline]
   );
 
+  const takeArgs = [
+    pool.poolAddress,
+    liquidation.borrower,
+    liquidation.auctionPrice,  // WAD amount
+    liquidation.collateral,    // WAD amount
+    Number(poolConfig.take.liquiditySource), // LiquiditySource.SUSHISWAP = 3
+    swapDetails.swapRouter,
+    encodedSwapDetails,
+  ] as const;
+  const profitable = await isProfitableAfterGas({
+    pool,
+    poolConfig,
+    signer,
+    config,
+    action: 'take',
+    expectedProfit: getTakeProfit(
+      liquidation.collateral,
+      liquidation.auctionPrice,
+      liquidation.marketPrice ?? 0
+    ),
+    estimateGas: () => factory.estimateGas.takeWithAtomicSwap(...takeArgs),
+  });
+  if (!profitable) return;
+
   try {
     logger.debug(`Factory: Sending SushiSwap Take Tx - poolAddress: ${pool.poolAddress}, borrower: ${liquidation.borrower}`);
     
-    await NonceTracker.queueTransaction(signer, async (nonce: number) => {
-      // FIXED: Send WAD amounts directly - no decimal pre-conversion
-      const tx = await factory.takeWithAtomicSwap(
-        pool.poolAddress,
-        liquidation.borrower,
-        liquidation.auctionPrice,  // WAD amount
-        liquidation.collateral,    // WAD amount  
-        Number(poolConfig.take.liquiditySource), // LiquiditySource.SUSHISWAP = 3
-        swapDetails.swapRouter,
-        encodedSwapDetails,
-        { nonce: nonce.toString() }
+    recordTake(pool.name, poolConfig.take.liquiditySource, 'attempted');
+    const receipt = await NonceTracker.queueTransaction(signer, async (nonce: number) => {
+      await preflight('take', pool.name, () =>
+        factory.callStatic.takeWithAtomicSwap(...takeArgs)
       );
+      // FIXED: Send WAD amounts directly - no decimal pre-conversion
+      const tx = await factory.takeWithAtomicSwap(...takeArgs, {
+        nonce: nonce.toString(),
+        ...(await getFeeOverrides(signer, 'take')),
+      });
       return await tx.wait();
     });
 
+    recordTake(pool.name, poolConfig.take.liquiditySource, 'confirmed');
+    recordGasSpent(pool.name, 'take', receipt);
+    await recordTakeInLedger(pool, poolConfig.take.liquiditySource!, receipt, signer);
     logger.info(`Factory SushiSwap Take successful - poolAddress: ${pool.poolAddress}, borrower: ${liquidation.borrower}`);
     
   } catch (error) {
+    recordTake(pool.name, poolConfig.take.liquiditySource, 'failed');
     logger.error(`Factory: Failed to SushiSwap Take. pool: ${pool.name}, borrower: ${liquidation.borrower}`, error);
   }
 }
@@ -800,7 +902,7 @@ async function takeWithCurveFactory({
   poolConfig: RequireFields<PoolConfig, 'take'>;
   signer: Signer;
   liquidation: LiquidationToTake;
-  config: Pick<FactoryTakeParams['config'], 'keeperTakerFactory' | 'curveRouterOverrides' | 'tokenAddresses'>;
+  config: Pick<FactoryTakeParams['config'], 'keeperTakerFactory' | 'curveRouterOverrides' | 'tokenAddresses' | 'coinGeckoApiKey' | 'ethRpcUrl'>;
 }) {
 
   const factory = AjnaKeeperTakerFactory__factory.connect(config.keeperTakerFactory!, signer);
@@ -900,6 +1002,30 @@ async function takeWithCurveFactory({
     );
 
 
+    const takeArgs = [
+      pool.poolAddress,
+      liquidation.borrower,
+      liquidation.auctionPrice,  // WAD amount
+      liquidation.collateral,    // WAD amount
+      Number(poolConfig.take.liquiditySource), // LiquiditySource.CURVE = 4
+      selectedPoolConfig.address, // swapRouter parameter (use pool address for Curve)
+      encodedSwapDetails,
+    ] as const;
+    const profitable = await isProfitableAfterGas({
+      pool,
+      poolConfig,
+      signer,
+      config,
+      action: 'take',
+      expectedProfit: getTakeProfit(
+        liquidation.collateral,
+        liquidation.auctionPrice,
+        liquidation.marketPrice ?? 0
+      ),
+      estimateGas: () => factory.estimateGas.takeWithAtomicSwap(...takeArgs),
+    });
+    if (!profitable) return;
+
     logger.debug(`Factory: Sending Curve Take Tx - poolAddress: ${pool.poolAddress}, borrower: ${liquidation.borrower}`);
     
     // L2 STATE PROPAGATION FIX: Apply to all networks to handle sequencer delays
@@ -907,24 +1033,26 @@ async function takeWithCurveFactory({
     logger.debug(`Adding 2000ms state propagation delay before factory take (L2 sequencer protection)`);
     await new Promise(resolve => setTimeout(resolve, 2000));
 
-    await NonceTracker.queueTransaction(signer, async (nonce: number) => {
-      // FIXED: Send WAD amounts directly - no decimal pre-conversion (follows SushiSwap pattern)
-      const tx = await factory.takeWithAtomicSwap(
-        pool.poolAddress,
-        liquidation.borrower,
-        liquidation.auctionPrice,  // WAD amount
-        liquidation.collateral,    // WAD amount
-        Number(poolConfig.take.liquiditySource), // LiquiditySource.CURVE = 4
-        selectedPoolConfig.address, // swapRouter parameter (use pool address for Curve)
-        encodedSwapDetails,
-        { nonce: nonce.toString() }
+    recordTake(pool.name, poolConfig.take.liquiditySource, 'attempted');
+    const receipt = await NonceTracker.queueTransaction(signer, async (nonce: number) => {
+      await preflight('take', pool.name, () =>
+        factory.callStatic.takeWithAtomicSwap(...takeArgs)
       );
+      // FIXED: Send WAD amounts directly - no decimal pre-conversion (follows SushiSwap pattern)
+      const tx = await factory.takeWithAtomicSwap(...takeArgs, {
+        nonce: nonce.toString(),
+        ...(await getFeeOverrides(signer, 'take')),
+      });
       return await tx.wait();
     });
 
+    recordTake(pool.name, poolConfig.take.liquiditySource, 'confirmed');
+    recordGasSpent(pool.name, 'take', receipt);
+    await recordTakeInLedger(pool, poolConfig.take.liquiditySource!, receipt, signer);
     logger.info(`Factory Curve Take successful - poolAddress: ${pool.poolAddress}, borrower: ${liquidation.borrower}`);
 
   } catch (error) {
+    recordTake(pool.name, poolConfig.take.liquiditySource, 'failed');
     logger.error(`Factory: Failed to Curve Take. pool: ${pool.name}, borrower: ${liquidation.borrower}`, error);
   }
 }
@@ -944,7 +1072,7 @@ async function arbTakeLiquidationFactory({
   poolConfig: RequireFields<PoolConfig, 'take'>;
   signer: Signer;
   liquidation: LiquidationToTake;
-  config: Pick<FactoryTakeParams['config'], 'dryRun'>;
+  config: Pick<FactoryTakeParams['config'], 'dryRun' | 'tokenAddresses' | 'coinGeckoApiKey' | 'ethRpcUrl'>;
 }) {
   
   const { borrower, hpbIndex } = liquidation;
@@ -955,15 +1083,41 @@ async function arbTakeLiquidationFactory({
     return;
   }
 
+  const liquidationSdk = pool.getLiquidation(borrower);
+  const profitable = await isProfitableAfterGas({
+    pool,
+    poolConfig,
+    signer,
+    config,
+    action: 'arbTake',
+    expectedProfit: getTakeProfit(
+      await getArbTakeCollateral(pool, hpbIndex, liquidation.collateral),
+      liquidation.auctionPrice,
+      Number(weiToDecimaled(pool.getBucketByIndex(hpbIndex).price))
+    ),
+    estimateGas: () => estimateArbTakeGas(liquidationSdk, signer, hpbIndex),
+  });
+  if (!profitable) return;
+
   try {
     logger.debug(`Factory: Sending ArbTake Tx - poolAddress: ${pool.poolAddress}, borrower: ${borrower}, hpbIndex: ${hpbIndex}`);
     
-    const liquidationSdk = pool.getLiquidation(borrower);
-    await liquidationArbTake(liquidationSdk, signer, hpbIndex);
+    recordTake(pool.name, undefined, 'attempted');
+    const receipt = await liquidationArbTake(liquidationSdk, signer, hpbIndex);
+    recordTake(pool.name, undefined, 'confirmed');
+    recordGasSpent(pool.name, 'arbTake', receipt);
+    await recordLedgerEntry({
+      action: 'arbTake',
+      strategy: 'arbTake',
+      pool,
+      receipt,
+      lpDelta: getLpAwarded(pool, receipt, await signer.getAddress()),
+    });
     
     logger.info(`Factory ArbTake successful - poolAddress: ${pool.poolAddress}, borrower: ${borrower}`);
     
   } catch (error) {
+    recordTake(pool.name, undefined, 'failed');
     logger.error(`Factory: Failed to ArbTake. pool: ${pool.name}, borrower: ${borrower}`, error);
   }
 }
@@ -0,0 +1,333 @@
+import { NonfungiblePool, Signer } from '@ajna-finance/sdk';
+import { BigNumber, constants, providers, utils } from 'ethers';
+import { KeeperConfig, LiquiditySource, PoolConfig } from './config-types';
+import {
+  convertWadToTokenDecimals,
+  getAllowanceOfErc20,
+  getBalanceOfErc20,
+  getDecimalsErc20,
+} from './erc20';
+import { clearAllowances } from './kick';
+import { getTakeAmounts, recordLedgerEntry } from './ledger';
+import { logger } from './logging';
+import { recordGasSpent, recordTake } from './metrics';
+import { NonceTracker } from './nonce';
+import { preflight } from './preflight';
+import { getFeeOverrides } from './provider';
+import subgraph from './subgraph';
+import {
+  arbTakeLiquidation,
+  checkIfArbTakeable,
+  LiquidationToTake,
+} from './take';
+import {
+  getTakeProfit,
+  isProfitableAfterGas,
+  resolvePrice,
+  TakeProfitConfig,
+} from './take-profit';
+import { scheduleTake } from './take-schedule';
+import { poolQuoteApprove } from './transactions';
+import {
+  delay,
+  RequireFields,
+  tokenChangeDecimals,
+  weiToDecimaled,
+} from './utils';
+
+const WAD = constants.WeiPerEther;
+
+/** Gas of an NFT take and the quote approval it needs, used to check profit before approving. */
+const NFT_TAKE_GAS_ESTIMATE = BigNumber.from(450000);
+
+const ERC721_INTERFACE = new utils.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+]);
+
+interface HandleNftTakeParams {
+  signer: Signer;
+  pool: NonfungiblePool;
+  poolConfig: RequireFields<PoolConfig, 'take'>;
+  config: Pick<KeeperConfig, 'dryRun' | 'subgraphUrl' | 'delayBetweenActions'> &
+    TakeProfitConfig;
+}
+
+/**
+ * Takes and arbTakes the auctions of an ERC721 pool. NFTs can't be swapped
+ * through a DEX in the same transaction, so a take pays the auction price
+ * with the keeper's quote token and the keeper keeps the NFTs. It is made
+ * when `auctionPrice <= price * marketPriceFactor`, with the pool's `price`
+ * being the value of one NFT in quote token.
+ */
+export async function handleNftTakes({
+  signer,
+  pool,
+  poolConfig,
+  config,
+}: HandleNftTakeParams) {
+  const { minCollateral, hpbPriceFactor, marketPriceFactor } = poolConfig.take;
+  const {
+    pool: { hpb, liquidationAuctions },
+  } = await subgraph.getLiquidations(
+    config.subgraphUrl,
+    pool.poolAddress,
+    minCollateral ?? 0
+  );
+  let approved = false;
+
+  for (const { borrower } of liquidationAuctions) {
+    const { price, collateral, debtToCover } = await pool
+      .getLiquidation(borrower)
+      .getStatus();
+    const auctionPrice = weiToDecimaled(price);
+    const liquidation: LiquidationToTake = {
+      borrower,
+      hpbIndex: 0,
+      collateral,
+      auctionPrice: price,
+      isTakeable: false,
+      isArbTakeable: false,
+    };
+
+    const nfts = getNftsToTake(collateral, debtToCover, price);
+    if (marketPriceFactor && nfts > 0) {
+      liquidation.marketPrice = await resolvePrice(
+        poolConfig.price,
+        pool,
+        await signer.getChainId(),
+        config
+      );
+      const takeablePrice = liquidation.marketPrice * marketPriceFactor;
+      liquidation.isTakeable = auctionPrice <= takeablePrice;
+      logger.info(
+        `NFT take check for pool ${pool.name}: marketPrice=${liquidation.marketPrice.toFixed(6)}, takeablePrice=${takeablePrice.toFixed(6)}, auctionPrice=${auctionPrice.toFixed(6)}, nfts=${nfts} → ${liquidation.isTakeable ? 'TAKEABLE' : 'skip'}`
+      );
+      if (!liquidation.isTakeable) {
+        await scheduleTake(pool, borrower, takeablePrice);
+      }
+    }
+
+    if (minCollateral && hpbPriceFactor) {
+      const { isArbTakeable, hpbIndex } = await checkIfArbTakeable(
+        pool,
+        auctionPrice,
+        collateral,
+        poolConfig,
+        config.subgraphUrl,
+        (minCollateral / hpb).toString(),
+        signer
+      );
+      liquidation.isArbTakeable = isArbTakeable;
+      liquidation.hpbIndex = hpbIndex;
+    }
+
+    if (liquidation.isTakeable) {
+      approved =
+        (await takeNfts({
+          pool,
+          poolConfig,
+          signer,
+          config,
+          liquidation,
+          nfts,
+        })) || approved;
+      if (liquidation.isArbTakeable) await delay(config.delayBetweenActions);
+    }
+    if (liquidation.isArbTakeable) {
+      await arbTakeLiquidation({
+        pool,
+        poolConfig,
+        signer,
+        liquidation,
+        config,
+      });
+    }
+  }
+
+  if (approved) {
+    await clearAllowances({ pool, signer });
+  }
+}
+
+/**
+ * Number of NFTs to take from an auction. Ajna only hands out whole NFTs: the
+ * collateral needed to cover the debt is rounded up to a whole NFT, the taker
+ * paying the auction price for all of it, and a fraction of an NFT beyond the
+ * borrower's whole NFTs is left to settlement. Zero when the borrower has no
+ * whole NFT left.
+ */
+export function getNftsToTake(
+  collateral: BigNumber,
+  debtToCover: BigNumber,
+  auctionPrice: BigNumber
+): number {
+  const wholeNfts = collateral.div(WAD);
+  if (auctionPrice.isZero()) return wholeNfts.toNumber();
+  const collateralCoveringDebt = ceilDiv(debtToCover.mul(WAD), auctionPrice);
+  const nftsCoveringDebt = ceilDiv(collateralCoveringDebt, WAD);
+  return (
+    nftsCoveringDebt.lt(wholeNfts) ? nftsCoveringDebt : wholeNfts
+  ).toNumber();
+}
+
+function ceilDiv(a: BigNumber, b: BigNumber): BigNumber {
+  return a.add(b).sub(1).div(b);
+}
+
+/** Ids of the NFTs of `collectionAddress` transferred to `account` in a receipt. */
+export function getReceivedTokenIds(
+  receipt: Pick<providers.TransactionReceipt, 'logs'>,
+  collectionAddress: string,
+  account: string
+): string[] {
+  const tokenIds: string[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== collectionAddress.toLowerCase()) continue;
+    try {
+      const { name, args } = ERC721_INTERFACE.parseLog(log);
+      if (
+        name === 'Transfer' &&
+        args.to.toLowerCase() === account.toLowerCase()
+      ) {
+        tokenIds.push(args.tokenId.toString());
+      }
+    } catch (error) {
+      // Not a Transfer of an NFT, e.g. an ERC20 Transfer without an indexed amount.
+    }
+  }
+  return tokenIds;
+}
+
+interface TakeNftsParams extends HandleNftTakeParams {
+  liquidation: LiquidationToTake;
+  nfts: number;
+}
+
+/**
+ * Takes `nfts` if profitable, approving the quote token for them at the
+ * auction price first when the allowance is short.
+ * @returns True if the pool's allowance was raised.
+ */
+async function takeNfts({
+  pool,
+  poolConfig,
+  signer,
+  config,
+  liquidation,
+  nfts,
+}: TakeNftsParams): Promise<boolean> {
+  const { borrower, auctionPrice } = liquidation;
+  if (config.dryRun) {
+    logger.info(
+      `DryRun - would Take ${nfts} NFTs - pool: ${pool.name}, borrower: ${borrower}`
+    );
+    return false;
+  }
+
+  const cost = auctionPrice.mul(nfts);
+  const [balance, quoteDecimals] = await Promise.all([
+    getBalanceOfErc20(signer, pool.quoteAddress),
+    getDecimalsErc20(signer, pool.quoteAddress),
+  ]);
+  if (tokenChangeDecimals(balance, quoteDecimals).lt(cost)) {
+    logger.info(
+      `Insufficient quote token to take NFTs. pool: ${pool.name}, borrower: ${borrower}, balance: ${weiToDecimaled(balance, quoteDecimals)}, cost: ${weiToDecimaled(cost)}`
+    );
+    return false;
+  }
+
+  const allowance = await getAllowanceOfErc20(
+    signer,
+    pool.quoteAddress,
+    pool.poolAddress
+  );
+  const needsApproval = allowance.lt(
+    convertWadToTokenDecimals(cost, quoteDecimals)
+  );
+
+  // Checked before approving, so an unprofitable take costs no transactions.
+  const contract = pool.contract.connect(signer);
+  const keeper = await signer.getAddress();
+  const takeArgs = [borrower, nfts, keeper, '0x'] as const;
+  const profitable = await isProfitableAfterGas({
+    pool,
+    poolConfig,
+    signer,
+    config,
+    action: 'take',
+    expectedProfit: getTakeProfit(
+      WAD.mul(nfts),
+      auctionPrice,
+      liquidation.marketPrice ?? 0
+    ),
+    // Without the allowance the take would revert, so it can't be estimated yet.
+    estimateGas: async () =>
+      needsApproval
+        ? NFT_TAKE_GAS_ESTIMATE
+        : contract.estimateGas.take(...takeArgs),
+  });
+  if (!profitable) return false;
+
+  let approved = false;
+  if (needsApproval) {
+    try {
+      const receipt = await poolQuoteApprove(pool, signer, cost, 'take');
+      recordGasSpent(pool.name, 'approve', receipt);
+      approved = true;
+    } catch (error) {
+      logger.error(
+        `Failed to approve quote for NFT take. pool: ${pool.name}, borrower: ${borrower}`,
+        error
+      );
+      return false;
+    }
+  }
+
+  try {
+    logger.debug(
+      `Sending NFT Take Tx - poolAddress: ${pool.poolAddress}, borrower: ${borrower}, nfts: ${nfts}`
+    );
+    recordTake(pool.name, LiquiditySource.NONE, 'attempted');
+    const receipt = await NonceTracker.queueTransaction(
+      signer,
+      async (nonce: number) => {
+        await preflight('take', pool.name, () =>
+          contract.callStatic.take(...takeArgs)
+        );
+        const tx = await contract.take(...takeArgs, {
+          nonce: nonce.toString(),
+          ...(await getFeeOverrides(signer, 'take')),
+        });
+        return await tx.wait();
+      }
+    );
+    recordTake(pool.name, LiquiditySource.NONE, 'confirmed');
+    recordGasSpent(pool.name, 'take', receipt);
+    const tokenIds = getReceivedTokenIds(
+      receipt,
+      pool.collateralAddress,
+      keeper
+    );
+    const quotePaid = weiToDecimaled(getTakeAmounts(pool, receipt).quotePaid);
+    await recordLedgerEntry({
+      action: 'take',
+      strategy: 'take:nft',
+      pool,
+      receipt,
+      collateralDelta: tokenIds.length,
+      quoteDelta: -quotePaid,
+      collateralTaken: tokenIds.length,
+      quotePaid,
+    });
+    logger.info(
+      `NFT Take successful - pool: ${pool.name}, borrower: ${borrower}, tokenIds: ${tokenIds.join(', ')} | tx: ${receipt.transactionHash}`
+    );
+  } catch (error) {
+    recordTake(pool.name, LiquiditySource.NONE, 'failed');
+    logger.error(
+      `Failed to Take NFTs. pool: ${pool.name}, borrower: ${borrower}`,
+      error
+    );
+  }
+  return approved;
+}
@@ -0,0 +1,223 @@
+import { Signer } from '@ajna-finance/sdk';
+import { BigNumber, constants, utils } from 'ethers';
+import {
+  KeeperConfig,
+  PoolConfig,
+  PriceOrigin,
+  PriceOriginSource,
+  TakeSettings,
+} from './config-types';
+import { logger } from './logging';
+import { getPrice } from './price';
+import { AjnaPool, decimaledToWei, RequireFields } from './utils';
+
+/** Settings used to price gas and profit. `ethRpcUrl` is only needed for the Alchemy price fallback. */
+export type TakeProfitConfig = Pick<
+  KeeperConfig,
+  'coinGeckoApiKey' | 'tokenAddresses'
+> &
+  Partial<Pick<KeeperConfig, 'ethRpcUrl'>>;
+
+export interface TakeProfitParams {
+  pool: AjnaPool;
+  poolConfig: RequireFields<PoolConfig, 'take'>;
+  signer: Signer;
+  config: TakeProfitConfig;
+  /** `take` or `arbTake`, for logging. */
+  action: string;
+  /** Quote token gained before gas, in whole tokens. */
+  expectedProfit: number;
+  /** Estimates the gas of the exact transaction about to be sent. */
+  estimateGas: () => Promise<BigNumber>;
+}
+
+/** Quote token gained by taking `collateral` at `auctionPrice` and selling it at `marketPrice`. */
+export function getTakeProfit(
+  collateral: BigNumber,
+  auctionPrice: BigNumber,
+  marketPrice: number
+): number {
+  const collateralAmount = Number(utils.formatEther(collateral));
+  return (
+    collateralAmount * (marketPrice - Number(utils.formatEther(auctionPrice)))
+  );
+}
+
+/**
+ * Collateral (WAD) an arbTake into bucket `bucketIndex` takes: the auction's
+ * `collateral`, capped at what the bucket's deposit covers at its price.
+ */
+export async function getArbTakeCollateral(
+  pool: AjnaPool,
+  bucketIndex: number,
+  collateral: BigNumber
+): Promise<BigNumber> {
+  const bucket = pool.getBucketByIndex(bucketIndex);
+  const { deposit }: { deposit: BigNumber } = await bucket.getStatus();
+  const price: BigNumber = bucket.price;
+  if (price.isZero()) return collateral;
+  const covered = deposit.mul(constants.WeiPerEther).div(price);
+  return covered.lt(collateral) ? covered : collateral;
+}
+
+/** A collateral amount (WAD) found takeable, and the market price quoted for it. */
+export interface PartialTake {
+  collateral: BigNumber;
+  marketPrice: number;
+}
+
+/**
+ * The largest part of `collateral` (WAD) which `isTakeable` accepts, for
+ * auctions whose whole collateral would move the DEX price too much. Binary
+ * searches below `collateral`, halving the range `partialTakeSteps` times,
+ * each step getting a fresh quote. Amounts below `minCollateral` are not
+ * tried. Undefined when `partialTakeSteps` is unset or nothing is takeable.
+ */
+export async function findPartialTake(
+  take: Pick<TakeSettings, 'partialTakeSteps' | 'minCollateral'>,
+  collateral: BigNumber,
+  isTakeable: (
+    amount: BigNumber
+  ) => Promise<{ isTakeable: boolean; marketPrice?: number }>
+): Promise<PartialTake | undefined> {
+  const { partialTakeSteps, minCollateral } = take;
+  if (!partialTakeSteps) return undefined;
+  const minAmount = decimaledToWei(minCollateral ?? 0);
+  let takeable: PartialTake | undefined;
+  let low = BigNumber.from(0);
+  let high = collateral;
+  for (let step = 0; step < partialTakeSteps; step++) {
+    const amount = low.add(high).div(2);
+    if (amount.isZero() || amount.lt(minAmount)) break;
+    const check = await isTakeable(amount);
+    if (check.isTakeable && check.marketPrice !== undefined) {
+      takeable = { collateral: amount, marketPrice: check.marketPrice };
+      low = amount;
+    } else {
+      high = amount;
+    }
+  }
+  return takeable;
+}
+
+/**
+ * Whether a take or arbTake still clears the pool's `minProfit` and
+ * `minProfitUsd` once its gas is paid. Always true when neither is set. A gas
+ * estimate which fails, usually because the transaction would revert, or a
+ * price which cannot be read, counts as unprofitable.
+ */
+export async function isProfitableAfterGas({
+  pool,
+  poolConfig,
+  signer,
+  config,
+  action,
+  expectedProfit,
+  estimateGas,
+}: TakeProfitParams): Promise<boolean> {
+  const { minProfit, minProfitUsd } = poolConfig.take;
+  if (minProfit === undefined && minProfitUsd === undefined) return true;
+
+  try {
+    const gas = await estimateGas();
+    const gasCost = await getGasCostInQuote(
+      gas,
+      pool,
+      poolConfig.take.nativeTokenPrice,
+      signer,
+      config
+    );
+    const netProfit = expectedProfit - gasCost;
+    const quoteUsdPrice =
+      minProfitUsd !== undefined
+        ? await resolvePrice(
+            poolConfig.take.quoteUsdPrice!,
+            pool,
+            await signer.getChainId(),
+            config
+          )
+        : undefined;
+
+    const profitable =
+      (minProfit === undefined || netProfit >= minProfit) &&
+      (minProfitUsd === undefined ||
+        netProfit * quoteUsdPrice! >= minProfitUsd);
+    logger.info(
+      `Profit check for ${action} in pool ${pool.name}: expected=${expectedProfit.toFixed(6)}, gas=${gas.toString()} units costing ${gasCost.toFixed(6)}, net=${netProfit.toFixed(6)} quote${quoteUsdPrice !== undefined ? ` (${(netProfit * quoteUsdPrice).toFixed(2)} USD)` : ''} → ${profitable ? 'PROFITABLE' : 'skip'}`
+    );
+    return profitable;
+  } catch (error) {
+    logger.warn(
+      `Could not check profit of ${action} in pool ${pool.name}, skipping it:`,
+      error
+    );
+    return false;
+  }
+}
+
+/**
+ * Cost in `pool`'s quote token of `gas` at the current gas price.
+ * `nativeTokenPrice` prices the native token in quote token, and may be
+ * omitted when the quote token is `tokenAddresses.weth`.
+ */
+export async function getGasCostInQuote(
+  gas: BigNumber,
+  pool: AjnaPool,
+  nativeTokenPrice: PriceOrigin | undefined,
+  signer: Signer,
+  config: TakeProfitConfig
+): Promise<number> {
+  const [gasPrice, nativePrice] = await Promise.all([
+    signer.getGasPrice(),
+    getNativeTokenPrice(pool, nativeTokenPrice, signer, config),
+  ]);
+  return Number(utils.formatEther(gas.mul(gasPrice))) * nativePrice;
+}
+
+async function getNativeTokenPrice(
+  pool: AjnaPool,
+  nativeTokenPrice: PriceOrigin | undefined,
+  signer: Signer,
+  config: TakeProfitConfig
+): Promise<number> {
+  if (nativeTokenPrice) {
+    return resolvePrice(
+      nativeTokenPrice,
+      pool,
+      await signer.getChainId(),
+      config
+    );
+  }
+  if (
+    pool.quoteAddress.toLowerCase() ===
+    config.tokenAddresses?.weth?.toLowerCase()
+  ) {
+    return 1;
+  }
+  throw new Error(
+    'nativeTokenPrice is required unless the quote token is tokenAddresses.weth'
+  );
+}
+
+/**
+ * Reads `priceOrigin`, fetching `pool`'s prices only for the `pool` source.
+ */
+export async function resolvePrice(
+  priceOrigin: PriceOrigin,
+  pool: AjnaPool,
+  chainId: number,
+  config: TakeProfitConfig
+): Promise<number> {
+  const poolPrices =
+    priceOrigin.source === PriceOriginSource.POOL
+      ? await pool.getPrices()
+      : undefined;
+  return getPrice(
+    priceOrigin,
+    config.coinGeckoApiKey,
+    poolPrices,
+    chainId,
+    config.ethRpcUrl,
+    config.tokenAddresses
+  );
+}
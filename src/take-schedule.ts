@@ -0,0 +1,122 @@
+import { logger } from './logging';
+import { AjnaPool, weiToDecimaled } from './utils';
+
+/** Auctions can no longer be taken 72 hours after the kick. */
+const AUCTION_DURATION_SECONDS = 72 * 60 * 60;
+
+/** Least time between re-checks of an auction, covering blocks trailing the clock. */
+const MIN_RECHECK_SECONDS = 2;
+
+/**
+ * Ajna's auction price `elapsedSeconds` after the kick. Starting at 256 times
+ * the reference price, it halves every 20 minutes for 2 hours, every 2 hours
+ * for the next 12 hours, then every hour, reaching 1/16 of the reference
+ * price 14 hours after the kick.
+ */
+export function getAuctionPrice(
+  referencePrice: number,
+  elapsedSeconds: number
+): number {
+  const minutes = elapsedSeconds / 60;
+  if (minutes < 120) return 256 * referencePrice * 2 ** (-minutes / 20);
+  if (minutes < 840) return 4 * referencePrice * 2 ** (-(minutes - 120) / 120);
+  return (referencePrice * 2 ** (-(minutes - 840) / 60)) / 16;
+}
+
+/**
+ * Seconds after the kick at which the auction price falls to `targetPrice`,
+ * rounded up. Infinity when the target is not positive.
+ */
+export function getSecondsToReachPrice(
+  referencePrice: number,
+  targetPrice: number
+): number {
+  if (targetPrice <= 0) return Infinity;
+  const ratio = targetPrice / referencePrice;
+  let minutes: number;
+  if (ratio >= 256) minutes = 0;
+  else if (ratio > 4) minutes = 20 * Math.log2(256 / ratio);
+  else if (ratio > 1 / 16) minutes = 120 + 120 * Math.log2(4 / ratio);
+  else minutes = 840 + 60 * Math.log2(1 / (16 * ratio));
+  return Math.ceil(minutes * 60);
+}
+
+/**
+ * Times at which auctions are re-checked for a take, by pool and borrower,
+ * so the take loop wakes up as an auction becomes profitable rather than on
+ * its next run.
+ */
+export class TakeSchedule {
+  private times: Map<string, Map<string, number>> = new Map();
+
+  /** Re-checks `borrower`'s auction at the unix time `time`, replacing any earlier schedule. */
+  public schedule(poolAddress: string, borrower: string, time: number) {
+    const borrowers = this.times.get(poolAddress) ?? new Map<string, number>();
+    borrowers.set(borrower, time);
+    this.times.set(poolAddress, borrowers);
+  }
+
+  /** The earliest scheduled time, if any. */
+  public get nextTime(): number | undefined {
+    let next: number | undefined;
+    this.times.forEach((borrowers) =>
+      borrowers.forEach((time) => {
+        if (next === undefined || time < next) next = time;
+      })
+    );
+    return next;
+  }
+
+  /** Removes the re-checks due at `now` and returns their pool addresses. */
+  public takeDue(now: number): Set<string> {
+    const due = new Set<string>();
+    this.times.forEach((borrowers, poolAddress) => {
+      borrowers.forEach((time, borrower) => {
+        if (time > now) return;
+        due.add(poolAddress);
+        borrowers.delete(borrower);
+      });
+      if (borrowers.size === 0) this.times.delete(poolAddress);
+    });
+    return due;
+  }
+}
+
+export const takeSchedule = new TakeSchedule();
+
+/**
+ * Schedules a re-check of `borrower`'s auction for when its price reaches
+ * `takeablePrice`, from the kick time and reference price the pool keeps for
+ * the auction. Auctions which won't reach it before they end are not
+ * scheduled.
+ */
+export async function scheduleTake(
+  pool: AjnaPool,
+  borrower: string,
+  takeablePrice: number
+) {
+  try {
+    const { kickTime_, referencePrice_ } =
+      await pool.contract.auctionInfo(borrower);
+    if (kickTime_.eq(0)) return;
+    const elapsed = getSecondsToReachPrice(
+      weiToDecimaled(referencePrice_),
+      takeablePrice
+    );
+    if (elapsed >= AUCTION_DURATION_SECONDS) return;
+
+    const time = Math.max(
+      kickTime_.toNumber() + elapsed,
+      Math.ceil(Date.now() / 1000) + MIN_RECHECK_SECONDS
+    );
+    takeSchedule.schedule(pool.poolAddress, borrower, time);
+    logger.debug(
+      `Scheduled take check - pool: ${pool.name}, borrower: ${borrower}, takeablePrice: ${takeablePrice.toFixed(6)}, at: ${new Date(time * 1000).toISOString()}`
+    );
+  } catch (error) {
+    logger.warn(
+      `Failed to schedule take check. pool: ${pool.name}, borrower: ${borrower}`,
+      error
+    );
+  }
+}
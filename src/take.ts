@@ -1,17 +1,40 @@
 import { Signer, FungiblePool } from '@ajna-finance/sdk';
 import subgraph from './subgraph';
-import { decimaledToWei, delay, RequireFields, weiToDecimaled } from './utils';
-import { KeeperConfig, LiquiditySource, PoolConfig } from './config-types';
+import {
+  AjnaPool,
+  decimaledToWei,
+  delay,
+  RequireFields,
+  weiToDecimaled,
+} from './utils';
+import {
+  CollateralType,
+  KeeperConfig,
+  LiquiditySource,
+  PoolConfig,
+} from './config-types';
 import { logger } from './logging';
-import { liquidationArbTake } from './transactions';
+import { estimateArbTakeGas, liquidationArbTake } from './transactions';
 import { DexRouter } from './dex-router';
 import { BigNumber, ethers } from 'ethers';
 import { convertSwapApiResponseToDetailsBytes } from './1inch';
 import { AjnaKeeperTaker__factory } from '../typechain-types';
 import { convertWadToTokenDecimals, getDecimalsErc20 } from './erc20';
 import { NonceTracker } from './nonce';
+import { recordGasSpent, recordTake } from './metrics';
+import { preflight } from './preflight';
+import { getFeeOverrides } from './provider';
+import { getLpAwarded, recordLedgerEntry, recordTakeInLedger } from './ledger';
 import { SmartDexManager } from './smart-dex-manager';
 import { handleFactoryTakes } from './take-factory';
+import {
+  findPartialTake,
+  getArbTakeCollateral,
+  getTakeProfit,
+  isProfitableAfterGas,
+  TakeProfitConfig,
+} from './take-profit';
+import { scheduleTake } from './take-schedule';
 
 interface HandleTakeParams {
   signer: Signer;
@@ -31,7 +54,8 @@ interface HandleTakeParams {
     | 'sushiswapRouterOverrides'     
     | 'curveRouterOverrides'    
     | 'tokenAddresses'
-  >;
+  > &
+    TakeProfitConfig;
 }
 
 export async function handleTakes({
@@ -80,6 +104,8 @@ export async function handleTakes({
 	  sushiswapRouterOverrides: (config as any).sushiswapRouterOverrides,
 	  curveRouterOverrides: (config as any).curveRouterOverrides,
           tokenAddresses: config.tokenAddresses,
+          coinGeckoApiKey: config.coinGeckoApiKey,
+          ethRpcUrl: config.ethRpcUrl,
         },
       });
       break;
@@ -131,7 +157,10 @@ export async function handleTakesWith1inch({
         pool,
         poolConfig,
         signer,
-        liquidation,
+        liquidation: {
+          ...liquidation,
+          collateral: liquidation.takeCollateral ?? liquidation.collateral,
+        },
         config,
       });
       // If an arbTake is also possible, give the take transaction some time to be included
@@ -150,11 +179,15 @@ export async function handleTakesWith1inch({
   }
 }
 
-interface LiquidationToTake {
+export interface LiquidationToTake {
   borrower: string;
   hpbIndex: number;
   collateral: BigNumber; // WAD
+  /** Collateral to take when less than the auction's, in WAD. */
+  takeCollateral?: BigNumber;
   auctionPrice: BigNumber; // WAD
+  /** Quote token per collateral from the DEX quote, when takeable. */
+  marketPrice?: number;
   isTakeable: boolean;
   isArbTakeable: boolean;
 }
@@ -167,12 +200,12 @@ interface GetLiquidationsToTakeParams
   >;
 }
 
-async function checkIfArbTakeable(
-  pool: FungiblePool,
+export async function checkIfArbTakeable(
+  pool: AjnaPool,
   price: number,
   collateral: BigNumber,
   poolConfig: RequireFields<PoolConfig, 'take'>,
-  subgraphUrl: string,
+  subgraphUrl: KeeperConfig['subgraphUrl'],
   minDeposit: string,
   signer: Signer
 ): Promise<{ isArbTakeable: boolean; hpbIndex: number }> {
@@ -180,10 +213,11 @@ async function checkIfArbTakeable(
     return { isArbTakeable: false, hpbIndex: 0 };
   }
 
-  const collateralDecimals = await getDecimalsErc20(
-    signer,
-    pool.collateralAddress
-  );
+  // NFT collateral is counted in whole NFTs, as a WAD.
+  const collateralDecimals =
+    poolConfig.collateralType === CollateralType.ERC721
+      ? 18
+      : await getDecimalsErc20(signer, pool.collateralAddress);
   const minCollateral = ethers.BigNumber.from(
     decimaledToWei(poolConfig.take.minCollateral, collateralDecimals)
   );
@@ -228,7 +262,7 @@ async function checkIfTakeable(
   signer: Signer,
   oneInchRouters: { [chainId: number]: string } | undefined,
   connectorTokens: string[] | undefined
-): Promise<{ isTakeable: boolean }> {
+): Promise<{ isTakeable: boolean; marketPrice?: number }> {
   if (
     poolConfig.take.liquiditySource !== LiquiditySource.ONEINCH ||
     !poolConfig.take.marketPriceFactor
@@ -307,7 +341,7 @@ async function checkIfTakeable(
       `Take check for pool ${pool.name}: marketPrice=${marketPrice.toFixed(6)}, takeablePrice=${takeablePrice.toFixed(6)}, auctionPrice=${price.toFixed(6)}, collateral=${collateralAmount}, factor=${poolConfig.take.marketPriceFactor} → ${takeable ? 'TAKEABLE' : 'skip'}`
     );
 
-    return { isTakeable: takeable };
+    return { isTakeable: takeable, marketPrice };
   } catch (error) {
     logger.error(`Failed to fetch quote data for pool ${pool.name}: ${error}`);
     return { isTakeable: false };
@@ -335,11 +369,13 @@ export async function* getLiquidationsToTake({
     const collateral = liquidationStatus.collateral;
 
     let isTakeable = false;
+    let marketPrice: number | undefined;
+    let takeCollateral: BigNumber | undefined;
     let isArbTakeable = false;
     let arbHpbIndex = 0;
 
     if (poolConfig.take.marketPriceFactor && poolConfig.take.liquiditySource) {
-      isTakeable = (await checkIfTakeable(
+      ({ isTakeable, marketPrice } = await checkIfTakeable(
         pool,
         price,
         collateral,
@@ -348,7 +384,36 @@ export async function* getLiquidationsToTake({
         signer,
         oneInchRouters,
         connectorTokens
-      )).isTakeable;
+      ));
+      if (!isTakeable && marketPrice !== undefined) {
+        await scheduleTake(
+          pool,
+          borrower,
+          marketPrice * poolConfig.take.marketPriceFactor
+        );
+        const partialTake = await findPartialTake(
+          poolConfig.take,
+          collateral,
+          (amount) =>
+            checkIfTakeable(
+              pool,
+              price,
+              amount,
+              poolConfig,
+              config,
+              signer,
+              oneInchRouters,
+              connectorTokens
+            )
+        );
+        if (partialTake) {
+          isTakeable = true;
+          ({ collateral: takeCollateral, marketPrice } = partialTake);
+          logger.info(
+            `Partial take of ${weiToDecimaled(takeCollateral)} of ${weiToDecimaled(collateral)} collateral is takeable - pool: ${pool.name}, borrower: ${borrower}`
+          );
+        }
+      }
     }
 
     if (poolConfig.take.minCollateral && poolConfig.take.hpbPriceFactor) {
@@ -377,7 +442,9 @@ export async function* getLiquidationsToTake({
         borrower,
         hpbIndex: arbHpbIndex,
         collateral,
+        takeCollateral,
         auctionPrice: liquidationStatus.price,
+        marketPrice,
         isTakeable,
         isArbTakeable,
       };
@@ -396,8 +463,13 @@ interface TakeLiquidationParams
   liquidation: LiquidationToTake;
   config: Pick<
     KeeperConfig,
-    'dryRun' | 'delayBetweenActions' | 'connectorTokens' | 'oneInchRouters' | 'keeperTaker'
-  >;
+    | 'dryRun'
+    | 'delayBetweenActions'
+    | 'connectorTokens'
+    | 'oneInchRouters'
+    | 'keeperTaker'
+  > &
+    TakeProfitConfig;
 }
 
 export async function takeLiquidation({
@@ -455,28 +527,54 @@ export async function takeLiquidation({
         `  Swap Data Length: ${swapData.data.length} chars`
       );
 
+      const takeArgs = [
+        pool.poolAddress,
+        liquidation.borrower,
+        liquidation.auctionPrice,
+        liquidation.collateral,
+        Number(poolConfig.take.liquiditySource),
+        dexRouter.getRouter(await signer.getChainId())!!,
+        convertSwapApiResponseToDetailsBytes(swapData.data),
+      ] as const;
+      const profitable = await isProfitableAfterGas({
+        pool,
+        poolConfig,
+        signer,
+        config,
+        action: 'take',
+        expectedProfit: getTakeProfit(
+          liquidation.collateral,
+          liquidation.auctionPrice,
+          liquidation.marketPrice ?? 0
+        ),
+        estimateGas: () => keeperTaker.estimateGas.takeWithAtomicSwap(...takeArgs),
+      });
+      if (!profitable) return;
+
       try {
         logger.debug(
           `Sending Take Tx - poolAddress: ${pool.poolAddress}, borrower: ${borrower}`
         );
-        await NonceTracker.queueTransaction(signer, async (nonce: number) => {
-          const tx = await keeperTaker.takeWithAtomicSwap(
-          pool.poolAddress,
-          liquidation.borrower,
-          liquidation.auctionPrice,
-          liquidation.collateral,
-          Number(poolConfig.take.liquiditySource),
-          dexRouter.getRouter(await signer.getChainId())!!,
-          convertSwapApiResponseToDetailsBytes(swapData.data),
-          { nonce: nonce.toString() }
+        recordTake(pool.name, poolConfig.take.liquiditySource, 'attempted');
+        const receipt = await NonceTracker.queueTransaction(signer, async (nonce: number) => {
+          await preflight('take', pool.name, () =>
+            keeperTaker.callStatic.takeWithAtomicSwap(...takeArgs)
           );
+          const tx = await keeperTaker.takeWithAtomicSwap(...takeArgs, {
+            nonce: nonce.toString(),
+            ...(await getFeeOverrides(signer, 'take')),
+          });
           const receipt = await tx.wait();
           logger.info(
             `Take successful - pool: ${pool.name}, borrower: ${borrower} | tx: ${receipt.transactionHash}`
           );
           return receipt;
         });
+        recordTake(pool.name, poolConfig.take.liquiditySource, 'confirmed');
+        recordGasSpent(pool.name, 'take', receipt);
+        await recordTakeInLedger(pool, poolConfig.take.liquiditySource!, receipt, signer);
       } catch (error) {
+        recordTake(pool.name, poolConfig.take.liquiditySource, 'failed');
         logger.error(
           `Failed to Take. pool: ${pool.name}, borrower: ${borrower}`,
           error
@@ -491,9 +589,10 @@ export async function takeLiquidation({
 }
 
 interface ArbTakeLiquidationParams
-  extends Pick<HandleTakeParams, 'pool' | 'poolConfig' | 'signer'> {
+  extends Pick<HandleTakeParams, 'poolConfig' | 'signer'> {
+  pool: AjnaPool;
   liquidation: LiquidationToTake;
-  config: Pick<KeeperConfig, 'dryRun'>;
+  config: Pick<KeeperConfig, 'dryRun'> & TakeProfitConfig;
 }
 
 export async function arbTakeLiquidation({
@@ -511,16 +610,42 @@ export async function arbTakeLiquidation({
       `DryRun - would ArbTake - poolAddress: ${pool.poolAddress}, borrower: ${borrower}`
     );
   } else {
+    const liquidationSdk = pool.getLiquidation(borrower);
+    const profitable = await isProfitableAfterGas({
+      pool,
+      poolConfig,
+      signer,
+      config,
+      action: 'arbTake',
+      expectedProfit: getTakeProfit(
+        await getArbTakeCollateral(pool, hpbIndex, liquidation.collateral),
+        liquidation.auctionPrice,
+        Number(weiToDecimaled(pool.getBucketByIndex(hpbIndex).price))
+      ),
+      estimateGas: () => estimateArbTakeGas(liquidationSdk, signer, hpbIndex),
+    });
+    if (!profitable) return;
+
     try {
       logger.debug(
         `Sending ArbTake Tx - poolAddress: ${pool.poolAddress}, borrower: ${borrower}, hpbIndex: ${hpbIndex}`
       );
-      const liquidationSdk = pool.getLiquidation(borrower);
-      await liquidationArbTake(liquidationSdk, signer, hpbIndex);
+      recordTake(pool.name, undefined, 'attempted');
+      const receipt = await liquidationArbTake(liquidationSdk, signer, hpbIndex);
+      recordTake(pool.name, undefined, 'confirmed');
+      recordGasSpent(pool.name, 'arbTake', receipt);
+      await recordLedgerEntry({
+        action: 'arbTake',
+        strategy: 'arbTake',
+        pool,
+        receipt,
+        lpDelta: getLpAwarded(pool, receipt, await signer.getAddress()),
+      });
       logger.info(
         `ArbTake successful - poolAddress: ${pool.poolAddress}, borrower: ${borrower}`
       );
     } catch (error) {
+      recordTake(pool.name, undefined, 'failed');
       logger.error(
         `Failed to ArbTake. pool: ${pool.name}, borrower: ${borrower}`,
         error
@@ -0,0 +1,272 @@
+import { BigNumber, providers, Signer, utils } from 'ethers';
+import { StuckTransactionSettings } from './config-types';
+import { capFeeData } from './gas-policy';
+import { logger } from './logging';
+import { recordStuckTransaction } from './metrics';
+
+const DEFAULT_BUMP_PERCENT = 20;
+const DEFAULT_MAX_BUMPS = 3;
+
+/** Gas for a zero-value transfer, used to cancel a transaction. */
+const TRANSFER_GAS_LIMIT = 21000;
+
+const ethersLogger = new utils.Logger('transaction-manager');
+
+/** Thrown when a stuck transaction was cancelled, so it will never execute. */
+export class TransactionCancelledError extends Error {
+  constructor(
+    public readonly nonce: number,
+    public readonly receipt: providers.TransactionReceipt
+  ) {
+    super(
+      `Transaction with nonce ${nonce} was not mined in time and was cancelled | tx: ${receipt.transactionHash}`
+    );
+    this.name = 'TransactionCancelledError';
+    Object.setPrototypeOf(this, TransactionCancelledError.prototype);
+  }
+}
+
+/** Thrown when neither fee bumps nor a cancellation got a transaction's nonce mined. */
+export class TransactionStuckError extends Error {
+  constructor(
+    public readonly nonce: number,
+    public readonly hashes: string[]
+  ) {
+    super(
+      `Transaction with nonce ${nonce} is still pending after ${hashes.length} attempts: ${hashes.join(', ')}`
+    );
+    this.name = 'TransactionStuckError';
+    Object.setPrototypeOf(this, TransactionStuckError.prototype);
+  }
+}
+
+export interface PendingTransaction {
+  nonce: number;
+  /** Hashes of every transaction sent with this nonce, latest last. */
+  hashes: string[];
+  sentAt: number;
+  cancelling: boolean;
+}
+
+type FeeOverrides = Pick<
+  providers.TransactionRequest,
+  'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'
+>;
+
+function bump(value: BigNumber, percent: number): BigNumber {
+  return value.mul(100 + percent).div(100);
+}
+
+function max(a: BigNumber, b: BigNumber | null | undefined): BigNumber {
+  return b && b.gt(a) ? b : a;
+}
+
+/**
+ * Waits for transactions to be mined. One which is not mined within
+ * `timeoutSeconds` is resent with the same nonce and higher fees, up to
+ * `maxBumps` times, then cancelled with a zero-value transfer to self.
+ */
+export class TransactionManager {
+  private pending = new Map<number, PendingTransaction>();
+  private timeoutMs: number;
+  private bumpPercent: number;
+  private maxBumps: number;
+
+  constructor(settings: StuckTransactionSettings) {
+    this.timeoutMs = settings.timeoutSeconds * 1000;
+    this.bumpPercent = settings.bumpPercent ?? DEFAULT_BUMP_PERCENT;
+    this.maxBumps = settings.maxBumps ?? DEFAULT_MAX_BUMPS;
+  }
+
+  getPending(): PendingTransaction[] {
+    return Array.from(this.pending.values());
+  }
+
+  /**
+   * Resolves with the receipt of whichever transaction with `tx`'s nonce is
+   * mined, the original or a fee bump. Throws like `tx.wait()` if it
+   * reverted, or a TransactionCancelledError or TransactionStuckError.
+   */
+  async wait(
+    signer: Signer,
+    tx: providers.TransactionResponse,
+    confirmations = 1
+  ): Promise<providers.TransactionReceipt> {
+    const pending: PendingTransaction = {
+      nonce: tx.nonce,
+      hashes: [tx.hash],
+      sentAt: Date.now(),
+      cancelling: false,
+    };
+    this.pending.set(tx.nonce, pending);
+    try {
+      const receipt = await this.waitOrReplace(
+        signer,
+        tx,
+        pending,
+        confirmations
+      );
+      if (receipt.status === 0) {
+        throw ethersLogger.makeError(
+          'transaction failed',
+          utils.Logger.errors.CALL_EXCEPTION,
+          { transactionHash: receipt.transactionHash, transaction: tx, receipt }
+        );
+      }
+      return receipt;
+    } finally {
+      this.pending.delete(tx.nonce);
+    }
+  }
+
+  private async waitOrReplace(
+    signer: Signer,
+    tx: providers.TransactionResponse,
+    pending: PendingTransaction,
+    confirmations: number
+  ): Promise<providers.TransactionReceipt> {
+    const provider = signer.provider!;
+    let fees: FeeOverrides = {
+      gasPrice: tx.gasPrice,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    };
+    for (let attempt = 0; ; attempt++) {
+      const receipt = await this.waitForAny(
+        provider,
+        pending.hashes,
+        confirmations
+      );
+      if (receipt) {
+        return this.settled(pending, receipt);
+      }
+      if (attempt > this.maxBumps) {
+        recordStuckTransaction('stuck');
+        throw new TransactionStuckError(pending.nonce, pending.hashes);
+      }
+
+      const cancel = attempt === this.maxBumps;
+      fees = await this.bumpedFees(provider, fees);
+      const replacement: providers.TransactionRequest = cancel
+        ? {
+            to: tx.from,
+            value: 0,
+            data: '0x',
+            gasLimit: TRANSFER_GAS_LIMIT,
+            nonce: tx.nonce,
+            type: tx.type ?? undefined,
+            ...fees,
+          }
+        : {
+            to: tx.to,
+            value: tx.value,
+            data: tx.data,
+            gasLimit: tx.gasLimit,
+            nonce: tx.nonce,
+            type: tx.type ?? undefined,
+            ...fees,
+          };
+      try {
+        const sent = await signer.sendTransaction(replacement);
+        pending.hashes.push(sent.hash);
+        pending.cancelling = cancel;
+        logger.warn(
+          `Transaction with nonce ${tx.nonce} not mined after ${this.timeoutMs / 1000}s, ${cancel ? 'cancelling it' : 'resending with higher fees'} | tx: ${sent.hash}`
+        );
+      } catch (error) {
+        // Usually the nonce was mined meanwhile, which the next wait picks up.
+        logger.warn(
+          `Could not replace transaction with nonce ${tx.nonce}: ${error}`
+        );
+      }
+    }
+  }
+
+  private settled(
+    pending: PendingTransaction,
+    receipt: providers.TransactionReceipt
+  ): providers.TransactionReceipt {
+    const [original] = pending.hashes;
+    const cancel = pending.cancelling
+      ? pending.hashes[pending.hashes.length - 1]
+      : undefined;
+    if (receipt.transactionHash === cancel) {
+      recordStuckTransaction('cancelled');
+      throw new TransactionCancelledError(pending.nonce, receipt);
+    }
+    if (receipt.transactionHash !== original) {
+      recordStuckTransaction('bumped');
+      logger.info(
+        `Transaction with nonce ${pending.nonce} was mined after a fee bump | tx: ${receipt.transactionHash}`
+      );
+    }
+    return receipt;
+  }
+
+  /** The first receipt of any of `hashes`, or undefined if none is mined before the timeout. */
+  private waitForAny(
+    provider: providers.Provider,
+    hashes: string[],
+    confirmations: number
+  ): Promise<providers.TransactionReceipt | undefined> {
+    return new Promise((resolve) => {
+      let remaining = hashes.length;
+      for (const hash of hashes) {
+        provider
+          .waitForTransaction(hash, confirmations, this.timeoutMs)
+          .catch(() => undefined)
+          .then((receipt) => {
+            remaining -= 1;
+            if (receipt) resolve(receipt);
+            else if (remaining === 0) resolve(undefined);
+          });
+      }
+    });
+  }
+
+  /**
+   * Fees raised by `bumpPercent` over the last attempt, and at least the
+   * current network fees, but no more than the gas policy's ceiling.
+   */
+  private async bumpedFees(
+    provider: providers.Provider,
+    previous: FeeOverrides
+  ): Promise<FeeOverrides> {
+    const feeData = await provider.getFeeData();
+    if (previous.maxFeePerGas && previous.maxPriorityFeePerGas) {
+      return capFeeData({
+        maxFeePerGas: max(
+          bump(BigNumber.from(previous.maxFeePerGas), this.bumpPercent),
+          feeData.maxFeePerGas
+        ),
+        maxPriorityFeePerGas: max(
+          bump(BigNumber.from(previous.maxPriorityFeePerGas), this.bumpPercent),
+          feeData.maxPriorityFeePerGas
+        ),
+      });
+    }
+    return capFeeData({
+      gasPrice: max(
+        bump(BigNumber.from(previous.gasPrice ?? 0), this.bumpPercent),
+        feeData.gasPrice
+      ),
+    });
+  }
+}
+
+/**
+ * Makes `wait()` on every transaction `signer` sends go through `manager`,
+ * including transactions sent by contracts and the Ajna SDK.
+ */
+export function manageTransactions(
+  signer: Signer,
+  manager: TransactionManager
+): void {
+  const sendTransaction = signer.sendTransaction.bind(signer);
+  signer.sendTransaction = async (transaction) => {
+    const tx = await sendTransaction(transaction);
+    tx.wait = (confirmations?: number) =>
+      manager.wait(signer, tx, confirmations);
+    return tx;
+  };
+}
@@ -1,4 +1,4 @@
-import { FungiblePool, Signer } from '@ajna-finance/sdk';
+import { Signer } from '@ajna-finance/sdk';
 import {
   removeQuoteToken,
   withdrawBonds,
@@ -6,9 +6,11 @@ import {
   kick,
   bucketTake,
 } from '@ajna-finance/sdk/dist/contracts/pool';
-import { BigNumber, ethers } from 'ethers';
+import { BigNumber, Contract, ethers } from 'ethers';
 import { MAX_FENWICK_INDEX, MAX_UINT_256 } from './constants';
+import { GasAction } from './config-types';
 import { NonceTracker } from './nonce';
+import { getFeeOverrides } from './provider';
 import { Bucket } from '@ajna-finance/sdk/dist/classes/Bucket';
 import {
   removeCollateral,
@@ -17,14 +19,19 @@ import {
 import { Liquidation } from '@ajna-finance/sdk/dist/classes/Liquidation';
 import { settle } from '@ajna-finance/sdk/dist/contracts/pool';
 import { getAllowanceOfErc20, getDecimalsErc20, convertWadToTokenDecimals } from './erc20';
-import { weiToDecimaled } from './utils';
+import Erc20Abi from './abis/erc20.abi.json';
+import { preflight } from './preflight';
+import { AjnaPool, weiToDecimaled } from './utils';
 import { logger } from './logging';
 
-export async function poolWithdrawBonds(pool: FungiblePool, signer: Signer) {
+export async function poolWithdrawBonds(pool: AjnaPool, signer: Signer) {
   const contractPoolWithSigner = pool.contract.connect(signer);
   const recipient = await signer.getAddress();
 
-  await NonceTracker.queueTransaction(signer, async (nonce) => {
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('withdrawBonds', pool.name, () =>
+      contractPoolWithSigner.callStatic.withdrawBonds(recipient, MAX_UINT_256)
+    );
     const tx = await withdrawBonds(
       contractPoolWithSigner,
       recipient,
@@ -45,12 +52,18 @@ export async function bucketRemoveQuoteToken(
   maxAmount: BigNumber = MAX_UINT_256
 ) {
   const contractPoolWithSigner = bucket.poolContract.connect(signer);
-  await NonceTracker.queueTransaction(signer, async (nonce) => {
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('removeQuoteToken', `bucket ${bucket.index}`, () =>
+      contractPoolWithSigner.callStatic.removeQuoteToken(maxAmount, bucket.index)
+    );
     const tx = await removeQuoteToken(
       contractPoolWithSigner,
       maxAmount,
       bucket.index,
-      { nonce: nonce.toString() }
+      {
+        nonce: nonce.toString(),
+        ...(await getFeeOverrides(signer, 'lpRedeem')),
+      }
     );
     const receipt = await tx.verifyAndSubmit();
     logger.info(`Removed quote token from bucket ${bucket.index} | tx: ${receipt.transactionHash}`);
@@ -64,12 +77,18 @@ export async function bucketRemoveCollateralToken(
   maxAmount: BigNumber = MAX_UINT_256
 ) {
   const contractPoolWithSigner = bucket.poolContract.connect(signer);
-  await NonceTracker.queueTransaction(signer, async (nonce) => {
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('removeCollateral', `bucket ${bucket.index}`, () =>
+      contractPoolWithSigner.callStatic.removeCollateral(maxAmount, bucket.index)
+    );
     const tx = await removeCollateral(
       contractPoolWithSigner,
       bucket.index,
       maxAmount,
-      { nonce: nonce.toString() }
+      {
+        nonce: nonce.toString(),
+        ...(await getFeeOverrides(signer, 'lpRedeem')),
+      }
     );
     const receipt = await tx.verifyAndSubmit();
     logger.info(`Removed collateral from bucket ${bucket.index} | tx: ${receipt.transactionHash}`);
@@ -78,21 +97,31 @@ export async function bucketRemoveCollateralToken(
 }
 
 export async function poolQuoteApprove(
-  pool: FungiblePool,
+  pool: AjnaPool,
   signer: Signer,
-  allowance: BigNumber
+  allowance: BigNumber,
+  action?: GasAction
 ) {
   const denormalizedAllowance = allowance.div(
     await quoteTokenScale(pool.contract)
   );
   
-  await NonceTracker.queueTransaction(signer, async (nonce) => {
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('approve', pool.name, () =>
+      new Contract(pool.quoteAddress, Erc20Abi, signer).callStatic.approve(
+        pool.poolAddress,
+        denormalizedAllowance
+      )
+    );
     const tx = await approve(
       signer,
       pool.poolAddress,
       pool.quoteAddress,
       denormalizedAllowance,
-      { nonce: nonce.toString() }
+      {
+        nonce: nonce.toString(),
+        ...(action && (await getFeeOverrides(signer, action))),
+      }
     );
     const receipt = await tx.verifyAndSubmit();
     logger.info(`Approved quote token for pool ${pool.name}, allowance: ${weiToDecimaled(allowance)} | tx: ${receipt.transactionHash}`);
@@ -102,15 +131,19 @@ export async function poolQuoteApprove(
 
 
 export async function poolKick(
-  pool: FungiblePool,
+  pool: AjnaPool,
   signer: Signer,
   borrower: string,
   limitIndex: number = MAX_FENWICK_INDEX
 ) {
   const contractPoolWithSigner = pool.contract.connect(signer);
-  await NonceTracker.queueTransaction(signer, async (nonce) => {
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('kick', pool.name, () =>
+      contractPoolWithSigner.callStatic.kick(borrower, limitIndex)
+    );
     const tx = await kick(contractPoolWithSigner, borrower, limitIndex, {
       nonce: nonce.toString(),
+      ...(await getFeeOverrides(signer, 'kick')),
     });
     const receipt = await tx.verifyAndSubmit();
     logger.info(`Kicked borrower ${borrower.slice(0, 8)} in pool ${pool.name} | tx: ${receipt.transactionHash}`);
@@ -124,7 +157,14 @@ export async function liquidationArbTake(
   bucketIndex: number
 ) {
   const contractPoolWithSigner = liquidation.poolContract.connect(signer);
-  await NonceTracker.queueTransaction(signer, async (nonce) => {
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('arbTake', `bucket ${bucketIndex}`, () =>
+      contractPoolWithSigner.callStatic.bucketTake(
+        liquidation.borrowerAddress,
+        false,
+        bucketIndex
+      )
+    );
     const tx = await bucketTake(
       contractPoolWithSigner,
       liquidation.borrowerAddress,
@@ -132,6 +172,7 @@ export async function liquidationArbTake(
       bucketIndex,
       {
         nonce: nonce.toString(),
+        ...(await getFeeOverrides(signer, 'take')),
       }
     );
     const receipt = await tx.verifyAndSubmit();
@@ -140,21 +181,36 @@ export async function liquidationArbTake(
   });
 }
 
+/** Gas for the bucketTake sent by liquidationArbTake. */
+export async function estimateArbTakeGas(
+  liquidation: Liquidation,
+  signer: Signer,
+  bucketIndex: number
+): Promise<BigNumber> {
+  return await liquidation.poolContract
+    .connect(signer)
+    .estimateGas.bucketTake(liquidation.borrowerAddress, false, bucketIndex);
+}
+
 export async function poolSettle(
-  pool: FungiblePool, 
+  pool: AjnaPool, 
   signer: Signer, 
   borrower: string, 
   bucketDepth: number = 50
 ) {
   const contractPoolWithSigner = pool.contract.connect(signer);
   
-  await NonceTracker.queueTransaction(signer, async (nonce) => {
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('settle', pool.name, () =>
+      contractPoolWithSigner.callStatic.settle(borrower, bucketDepth)
+    );
     const tx = await settle(
       contractPoolWithSigner,
       borrower,
       bucketDepth,
       {
         nonce: nonce.toString(),
+        ...(await getFeeOverrides(signer, 'settle')),
         gasLimit: 800000 // Conservative gas limit for settlement
       }
     );
@@ -164,3 +220,140 @@ export async function poolSettle(
   });
 }
 
+
+export async function poolKickReserveAuction(pool: AjnaPool, signer: Signer) {
+  const contractPoolWithSigner = pool.contract.connect(signer);
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('kickReserveAuction', pool.name, () =>
+      contractPoolWithSigner.callStatic.kickReserveAuction()
+    );
+    const tx = await contractPoolWithSigner.kickReserveAuction({
+      nonce: nonce.toString(),
+      ...(await getFeeOverrides(signer, 'reserveAuction')),
+    });
+    const receipt = await tx.wait();
+    logger.info(`Kicked reserve auction in pool ${pool.name} | tx: ${receipt.transactionHash}`);
+    return receipt;
+  });
+}
+
+/**
+ * Takes up to `maxAmount` quote token (WAD) from the pool's reserve auction,
+ * burning the AJNA it costs at the auction price.
+ */
+export async function poolTakeReserves(
+  pool: AjnaPool,
+  signer: Signer,
+  maxAmount: BigNumber
+) {
+  const contractPoolWithSigner = pool.contract.connect(signer);
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('takeReserves', pool.name, () =>
+      contractPoolWithSigner.callStatic.takeReserves(maxAmount)
+    );
+    const tx = await contractPoolWithSigner.takeReserves(maxAmount, {
+      nonce: nonce.toString(),
+      ...(await getFeeOverrides(signer, 'reserveAuction')),
+    });
+    const receipt = await tx.wait();
+    logger.info(`Took ${weiToDecimaled(maxAmount)} reserves from pool ${pool.name} | tx: ${receipt.transactionHash}`);
+    return receipt;
+  });
+}
+
+export async function poolUpdateInterest(pool: AjnaPool, signer: Signer) {
+  const contractPoolWithSigner = pool.contract.connect(signer);
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('updateInterest', pool.name, () =>
+      contractPoolWithSigner.callStatic.updateInterest()
+    );
+    const tx = await contractPoolWithSigner.updateInterest({
+      nonce: nonce.toString(),
+      ...(await getFeeOverrides(signer, 'updateInterest')),
+    });
+    const receipt = await tx.wait();
+    logger.info(`Updated interest rate of pool ${pool.name} | tx: ${receipt.transactionHash}`);
+    return receipt;
+  });
+}
+
+/** Pledges `amount` collateral (WAD) from the signer to `borrower`'s loan, without drawing debt. */
+export async function poolPledgeCollateral(
+  pool: AjnaPool,
+  signer: Signer,
+  borrower: string,
+  amount: BigNumber
+) {
+  const contractPoolWithSigner = pool.contract.connect(signer);
+  const drawDebtArgs = [borrower, 0, MAX_FENWICK_INDEX, amount] as const;
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('pledgeCollateral', pool.name, () =>
+      contractPoolWithSigner.callStatic.drawDebt(...drawDebtArgs)
+    );
+    const tx = await contractPoolWithSigner.drawDebt(...drawDebtArgs, {
+      nonce: nonce.toString(),
+      ...(await getFeeOverrides(signer, 'borrowerProtection')),
+    });
+    const receipt = await tx.wait();
+    logger.info(`Pledged ${weiToDecimaled(amount)} collateral for borrower ${borrower.slice(0, 8)} in pool ${pool.name} | tx: ${receipt.transactionHash}`);
+    return receipt;
+  });
+}
+
+/** Repays up to `maxAmount` quote token (WAD) of `borrower`'s debt from the signer's wallet. */
+export async function poolRepayDebt(
+  pool: AjnaPool,
+  signer: Signer,
+  borrower: string,
+  maxAmount: BigNumber
+) {
+  const contractPoolWithSigner = pool.contract.connect(signer);
+  const repayArgs = [
+    borrower,
+    maxAmount,
+    0,
+    borrower,
+    MAX_FENWICK_INDEX,
+  ] as const;
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    await preflight('repayDebt', pool.name, () =>
+      contractPoolWithSigner.callStatic.repayDebt(...repayArgs)
+    );
+    const tx = await contractPoolWithSigner.repayDebt(...repayArgs, {
+      nonce: nonce.toString(),
+      ...(await getFeeOverrides(signer, 'borrowerProtection')),
+    });
+    const receipt = await tx.wait();
+    logger.info(`Repaid ${weiToDecimaled(maxAmount)} debt of borrower ${borrower.slice(0, 8)} in pool ${pool.name} | tx: ${receipt.transactionHash}`);
+    return receipt;
+  });
+}
+
+/**
+ * Moves up to `maxAmount` quote token (WAD) of the signer's deposit from
+ * bucket `fromIndex` to bucket `toIndex`.
+ */
+export async function poolMoveQuoteToken(
+  pool: AjnaPool,
+  signer: Signer,
+  maxAmount: BigNumber,
+  fromIndex: number,
+  toIndex: number
+) {
+  const contractPoolWithSigner = pool.contract.connect(signer);
+  return await NonceTracker.queueTransaction(signer, async (nonce) => {
+    // From when the transaction is sent, not queued, so a wait in the queue can't expire it.
+    const expiry = Math.floor(Date.now() / 1000) + 10 * 60;
+    const moveArgs = [maxAmount, fromIndex, toIndex, expiry] as const;
+    await preflight('moveQuoteToken', pool.name, () =>
+      contractPoolWithSigner.callStatic.moveQuoteToken(...moveArgs)
+    );
+    const tx = await contractPoolWithSigner.moveQuoteToken(...moveArgs, {
+      nonce: nonce.toString(),
+      ...(await getFeeOverrides(signer, 'lenderGuard')),
+    });
+    const receipt = await tx.wait();
+    logger.info(`Moved ${weiToDecimaled(maxAmount)} quote token from bucket ${fromIndex} to ${toIndex} in pool ${pool.name} | tx: ${receipt.transactionHash}`);
+    return receipt;
+  });
+}
@@ -29,6 +29,8 @@ import {
 import ERC20_ABI from './abis/erc20.abi.json';
 import { logger } from './logging';
 import { NonceTracker } from './nonce';
+import { preflight } from './preflight';
+import { getFeeOverrides } from './provider';
 import { weiToDecimaled } from './utils';
 import { approveErc20, getAllowanceOfErc20 } from './erc20';
 import { UniswapV3Overrides } from './config-types';
@@ -236,20 +238,24 @@ export async function swapToWeth(
     );
 
   try {
+    const swapParams = {
+      tokenIn: tokenToSwap.address,
+      tokenOut: weth.address,
+      fee: feeAmount,
+      recipient: recipient,
+      deadline: currentBlockTimestamp + 60 * 60 * 60,
+      amountIn: amount,
+      amountOutMinimum: minOut,
+      sqrtPriceLimitX96: ethers.constants.Zero,
+    };
     await NonceTracker.queueTransaction(signer, async (nonce: number) => {
-      const tx = await swapRouter.exactInputSingle(
-        {
-          tokenIn: tokenToSwap.address,
-          tokenOut: weth.address,
-          fee: feeAmount,
-          recipient: recipient,
-          deadline: currentBlockTimestamp + 60 * 60 * 60,
-          amountIn: amount,
-          amountOutMinimum: minOut,
-          sqrtPriceLimitX96: ethers.constants.Zero,
-        },
-        { nonce: nonce.toString() }
+      await preflight('swap', 'Uniswap V3', () =>
+        swapRouter.callStatic.exactInputSingle(swapParams)
       );
+      const tx = await swapRouter.exactInputSingle(swapParams, {
+        nonce: nonce.toString(),
+        ...(await getFeeOverrides(signer, 'rewardSwap')),
+      });
       return await tx.wait();
     });
     
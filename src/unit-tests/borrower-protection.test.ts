@@ -0,0 +1,123 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import sinon from 'sinon';
+import {
+  CollateralType,
+  PriceOriginSource,
+  ProtectionAction,
+} from '../config-types';
+import {
+  getProtectionAmount,
+  handleBorrowerProtection,
+} from '../borrower-protection';
+import * as erc20 from '../erc20';
+import { logger } from '../logging';
+
+const wad = (value: number) => utils.parseEther(value.toString());
+
+const SAFE = '0x0000000000000000000000000000000000000001';
+const AT_RISK = '0x0000000000000000000000000000000000000002';
+
+describe('getProtectionAmount', () => {
+  // TP of 1.2 with 100 debt and 100 collateral.
+  const loan = {
+    debt: wad(100),
+    collateral: wad(100),
+    thresholdPrice: wad(1.2),
+  };
+
+  it('pledges the collateral bringing TP down to the target', () => {
+    expect(
+      getProtectionAmount(ProtectionAction.ADD_COLLATERAL, loan, wad(0.8))
+    ).to.deep.equal(wad(50));
+  });
+
+  it('repays the debt bringing TP down to the target', () => {
+    expect(
+      getProtectionAmount(ProtectionAction.REPAY, loan, wad(0.9))
+    ).to.deep.equal(wad(25));
+  });
+
+  it('does nothing for loans already at or below the target', () => {
+    expect(
+      getProtectionAmount(ProtectionAction.REPAY, loan, wad(1.2))
+    ).to.deep.equal(BigNumber.from(0));
+  });
+});
+
+describe('handleBorrowerProtection', () => {
+  const loans: { [borrower: string]: any } = {
+    [SAFE]: { debt: wad(100), collateral: wad(200), thresholdPrice: wad(0.5) },
+    [AT_RISK]: {
+      debt: wad(100),
+      collateral: wad(100),
+      thresholdPrice: wad(0.95),
+    },
+  };
+  const pool: any = {
+    name: 'Test Pool',
+    quoteAddress: '0x00000000000000000000000000000000000000aa',
+    collateralAddress: '0x00000000000000000000000000000000000000bb',
+    getPrices: async () => ({ lup: wad(1.5) }),
+    getLoan: async (borrower: string) => loans[borrower],
+  };
+  const params = (action: ProtectionAction) => ({
+    pool,
+    poolConfig: {
+      name: 'Test Pool',
+      price: { source: PriceOriginSource.FIXED, value: 1 },
+      borrowerProtection: {
+        borrowers: [SAFE, AT_RISK],
+        triggerRatio: 0.9,
+        targetRatio: 0.8,
+        action,
+      },
+    } as any,
+    signer: { getChainId: async () => 1 } as any,
+    config: { dryRun: true },
+  });
+  let info: sinon.SinonStub;
+
+  beforeEach(() => {
+    info = sinon.stub(logger, 'info');
+    sinon.stub(logger, 'warn');
+    sinon.stub(erc20, 'getDecimalsErc20').resolves(18);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('tops up loans whose TP nears the lower of LUP and price', async () => {
+    sinon.stub(erc20, 'getBalanceOfErc20').resolves(wad(1000));
+
+    await handleBorrowerProtection(params(ProtectionAction.REPAY));
+
+    // TP of 0.95 is above 0.9 of the price of 1, and is brought to 0.8.
+    expect(info.calledOnce).to.be.true;
+    expect(info.firstCall.args[0]).to.match(
+      /^DryRun - Would repay 15\.789\d* - pool: Test Pool, borrower: 0x0+2$/
+    );
+  });
+
+  it('uses what the wallet holds when it is not enough', async () => {
+    sinon.stub(erc20, 'getBalanceOfErc20').resolves(wad(10));
+
+    await handleBorrowerProtection(params(ProtectionAction.ADD_COLLATERAL));
+
+    expect(info.firstCall.args[0]).to.equal(
+      `DryRun - Would pledge 10 - pool: Test Pool, borrower: ${AT_RISK}`
+    );
+  });
+
+  it('does not pledge collateral in ERC721 pools', async () => {
+    const getPrices = sinon.spy(pool, 'getPrices');
+    const protectParams = params(ProtectionAction.ADD_COLLATERAL);
+    protectParams.poolConfig.collateralType = CollateralType.ERC721;
+
+    await handleBorrowerProtection(protectParams);
+
+    expect(getPrices.called).to.be.false;
+    expect(info.called).to.be.false;
+  });
+});
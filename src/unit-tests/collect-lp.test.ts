@@ -0,0 +1,260 @@
+import * as sdk from '@ajna-finance/sdk';
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sinon from 'sinon';
+import { LpCollector, LpRewardState } from '../collect-lp';
+import { RewardActionTracker } from '../reward-action-tracker';
+
+const POOL_ADDRESS = '0x00000000000000000000000000000000000000AA';
+const SIGNER_ADDRESS = '0x00000000000000000000000000000000000000BB';
+
+const poolInterface = new utils.Interface([
+  'event BucketTake(address indexed borrower, uint256 index, uint256 amount, uint256 collateral, uint256 bondChange, bool isReward)',
+]);
+
+interface FakeAward {
+  role: 'taker' | 'kicker';
+  blockNumber: number;
+  logIndex: number;
+  /** Bucket of the BucketTake following the award, none if undefined. */
+  bucketIndex?: number;
+  lp: number;
+}
+
+function bucketTakeLog(bucketIndex: number, logIndex: number) {
+  const { data, topics } = poolInterface.encodeEventLog(
+    poolInterface.getEvent('BucketTake'),
+    ['0x0000000000000000000000000000000000000001', bucketIndex, 1, 1, 0, true]
+  );
+  return { address: POOL_ADDRESS, data, topics, logIndex };
+}
+
+function toEvent({ blockNumber, logIndex, bucketIndex, lp }: FakeAward) {
+  return {
+    blockNumber,
+    logIndex,
+    transactionHash: `0xtx${blockNumber}`,
+    args: {
+      lpAwardedTaker: BigNumber.from(lp),
+      lpAwardedKicker: BigNumber.from(lp),
+    },
+    getTransactionReceipt: async () => ({
+      logs:
+        bucketIndex === undefined
+          ? []
+          : [
+              // A take of another bucket earlier in the same transaction.
+              bucketTakeLog(1, logIndex - 1),
+              bucketTakeLog(bucketIndex, logIndex + 1),
+            ],
+    }),
+  };
+}
+
+describe('LpCollector state', () => {
+  let dir: string;
+  let awards: FakeAward[];
+  let blockNumber: number;
+  let positions: { [bucketIndex: number]: number };
+  let queryFilter: sinon.SinonStub;
+
+  function createCollector(backfillFromBlock?: number) {
+    const pool = {
+      name: 'Test Pool',
+      poolAddress: POOL_ADDRESS,
+      contract: { interface: poolInterface },
+      getBucketByIndex: (bucketIndex: number) => ({
+        getPosition: async () => ({
+          lpBalance: BigNumber.from(positions[bucketIndex] ?? 0),
+        }),
+      }),
+    } as unknown as sdk.FungiblePool;
+    const signer = {
+      getAddress: async () => SIGNER_ADDRESS,
+      getChainId: async () => 1,
+    } as unknown as sdk.Signer;
+    return new LpCollector(
+      pool,
+      signer,
+      {
+        collectLpReward: {
+          minAmountQuote: 0,
+          minAmountCollateral: 0,
+          backfillFromBlock,
+        },
+      },
+      { dryRun: true, stateDir: dir },
+      {} as RewardActionTracker
+    );
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'collect-lp-'));
+    awards = [];
+    blockNumber = 100;
+    positions = {};
+    queryFilter = sinon
+      .stub()
+      .callsFake(async (filter, from, to) =>
+        awards
+          .filter(
+            ({ role, blockNumber }) =>
+              role === filter.role && blockNumber >= from && blockNumber <= to
+          )
+          .map(toEvent)
+      );
+    const poolContract = {
+      filters: {
+        BucketTakeLPAwarded: (taker?: string) => ({
+          role: taker ? 'taker' : 'kicker',
+        }),
+      },
+      on: sinon.stub(),
+      off: sinon.stub(),
+      queryFilter,
+      provider: { getBlockNumber: async () => blockNumber },
+    };
+    sinon.stub(sdk.ERC20Pool__factory, 'connect').returns(poolContract as any);
+  });
+
+  afterEach(async () => {
+    sinon.restore();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function readState(): Promise<LpRewardState> {
+    const [file] = await fs.readdir(dir);
+    return JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8'));
+  }
+
+  it('backfills awards as taker and kicker from the configured block', async () => {
+    awards = [
+      { role: 'taker', blockNumber: 10, logIndex: 0, bucketIndex: 3000, lp: 5 },
+      {
+        role: 'kicker',
+        blockNumber: 20,
+        logIndex: 1,
+        bucketIndex: 3000,
+        lp: 2,
+      },
+      {
+        role: 'kicker',
+        blockNumber: 30,
+        logIndex: 0,
+        bucketIndex: 3001,
+        lp: 4,
+      },
+      { role: 'taker', blockNumber: 5, logIndex: 0, bucketIndex: 3002, lp: 9 },
+    ];
+    positions = { 3000: 100, 3001: 100 };
+
+    const collector = createCollector(10);
+    await collector.startSubscription();
+    await collector.stopSubscription();
+
+    expect(collector.lpMap.get(3000)!.toNumber()).to.equal(7);
+    expect(collector.lpMap.get(3001)!.toNumber()).to.equal(4);
+    expect(collector.lpMap.has(3002)).to.be.false;
+    expect(await readState()).to.deep.equal({
+      scannedThroughBlock: 100,
+      processedEvents: {},
+      rewards: { 3000: '7', 3001: '4' },
+    });
+  });
+
+  it('skips awards whose transaction has no BucketTake of the pool', async () => {
+    awards = [
+      { role: 'taker', blockNumber: 10, logIndex: 2, lp: 5 },
+      {
+        role: 'kicker',
+        blockNumber: 20,
+        logIndex: 2,
+        bucketIndex: 3000,
+        lp: 2,
+      },
+    ];
+    positions = { 3000: 100 };
+
+    const collector = createCollector(10);
+    await collector.startSubscription();
+    await collector.stopSubscription();
+
+    expect(Array.from(collector.lpMap.keys())).to.deep.equal([3000]);
+    expect(collector.lpMap.get(3000)!.toNumber()).to.equal(2);
+    expect((await readState()).scannedThroughBlock).to.equal(100);
+  });
+
+  it('restores persisted rewards and only scans blocks after the last scan', async () => {
+    awards = [
+      { role: 'taker', blockNumber: 10, logIndex: 0, bucketIndex: 3000, lp: 5 },
+    ];
+    positions = { 3000: 100 };
+    const first = createCollector(1);
+    await first.startSubscription();
+    await first.stopSubscription();
+
+    awards.push({
+      role: 'taker',
+      blockNumber: 150,
+      logIndex: 0,
+      bucketIndex: 3000,
+      lp: 1,
+    });
+    blockNumber = 200;
+    queryFilter.resetHistory();
+    const second = createCollector(1);
+    await second.startSubscription();
+    await second.stopSubscription();
+
+    expect(second.lpMap.get(3000)!.toNumber()).to.equal(6);
+    expect(queryFilter.firstCall.args.slice(1)).to.deep.equal([101, 200]);
+  });
+
+  it('caps restored rewards at the signer position', async () => {
+    awards = [
+      { role: 'taker', blockNumber: 10, logIndex: 0, bucketIndex: 3000, lp: 5 },
+      { role: 'taker', blockNumber: 11, logIndex: 0, bucketIndex: 3001, lp: 5 },
+    ];
+    positions = { 3000: 3, 3001: 0 };
+
+    const collector = createCollector(1);
+    await collector.startSubscription();
+    await collector.stopSubscription();
+
+    expect(collector.lpMap.get(3000)!.toNumber()).to.equal(3);
+    expect(collector.lpMap.has(3001)).to.be.false;
+    expect((await readState()).rewards).to.deep.equal({ 3000: '3' });
+  });
+
+  it('does not backfill without a state directory', async () => {
+    awards = [
+      { role: 'taker', blockNumber: 10, logIndex: 0, bucketIndex: 3000, lp: 5 },
+    ];
+    const pool = {
+      name: 'Test Pool',
+      poolAddress: POOL_ADDRESS,
+    } as unknown as sdk.FungiblePool;
+    const signer = {
+      getAddress: async () => SIGNER_ADDRESS,
+    } as unknown as sdk.Signer;
+    const collector = new LpCollector(
+      pool,
+      signer,
+      {
+        collectLpReward: {
+          minAmountQuote: 0,
+          minAmountCollateral: 0,
+          backfillFromBlock: 1,
+        },
+      },
+      { dryRun: true },
+      {} as RewardActionTracker
+    );
+    await collector.startSubscription();
+    expect(queryFilter.called).to.be.false;
+    expect(collector.lpMap.size).to.equal(0);
+  });
+});
@@ -0,0 +1,212 @@
+import { expect } from 'chai';
+import { constants, providers, utils, Wallet } from 'ethers';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sinon from 'sinon';
+import { CurvePoolType, KeeperConfig, LiquiditySource } from '../config-types';
+import { checkDeployment, formatCheckResults } from '../deployment-check';
+
+const POOL = '0x1f0d51a052aa79527fffaf3108fb4440d3f53ce6';
+const COLLATERAL = '0x2f2a2543b76a4166549f7aab2e75bef0aefc5b0f';
+const QUOTE = '0xaf88d065e77c8cc2239327c5edb3a432268e5831';
+const OTHER_TOKEN = '0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9';
+const UNISWAP_FACTORY = '0x1f98431c8ad98523631ae4a59f267346ea31f984';
+const UNISWAP_POOL = '0xc6962004f452be9203591991d15f6b388e09e8d0';
+const CURVE_POOL = '0x7f90122bf0700f9e7e1f688fe926940e8839f353';
+
+const erc20 = new utils.Interface([
+  'function decimals() external view returns (uint8)',
+]);
+const curve = new utils.Interface([
+  'function coins(uint256 i) external view returns (address)',
+]);
+const v3Factory = new utils.Interface([
+  'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)',
+]);
+
+/** Serves view calls for the tokens, Curve pool and Uniswap factory above. */
+function fakeProvider() {
+  const provider = new providers.JsonRpcProvider('http://localhost:1');
+  sinon.stub(provider, 'getCode').resolves('0x6080');
+  sinon.stub(provider, 'call').callsFake(async (tx: any) => {
+    const to = tx.to.toLowerCase();
+    if (to === COLLATERAL || to === QUOTE) {
+      return erc20.encodeFunctionResult('decimals', [to === QUOTE ? 6 : 18]);
+    }
+    if (to === CURVE_POOL) {
+      const coins = [QUOTE, OTHER_TOKEN];
+      const i = curve.decodeFunctionData('coins', tx.data)[0].toNumber();
+      if (i >= coins.length) throw new Error('execution reverted');
+      return curve.encodeFunctionResult('coins', [coins[i]]);
+    }
+    if (to === UNISWAP_FACTORY) {
+      const [, , fee] = v3Factory.decodeFunctionData('getPool', tx.data);
+      const pool = fee === 3000 ? UNISWAP_POOL : constants.AddressZero;
+      return v3Factory.encodeFunctionResult('getPool', [pool]);
+    }
+    throw new Error(`Unexpected call to ${tx.to}`);
+  });
+  return provider;
+}
+
+function makeConfig(overrides: Partial<KeeperConfig> = {}): KeeperConfig {
+  return {
+    keeperKeystore: '/nonexistent/keystore.json',
+    tokenAddresses: { usdc: QUOTE, usdt: OTHER_TOKEN, weth: COLLATERAL },
+    pools: [
+      {
+        name: 'WETH / USDC',
+        address: POOL,
+        take: {
+          liquiditySource: LiquiditySource.UNISWAPV3,
+          marketPriceFactor: 0.99,
+        },
+      },
+    ],
+    universalRouterOverrides: { poolFactoryAddress: UNISWAP_FACTORY },
+    ...overrides,
+  } as KeeperConfig;
+}
+
+describe('checkDeployment', () => {
+  const getPool = async () => ({
+    collateralAddress: COLLATERAL,
+    quoteAddress: QUOTE,
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('passes a config which matches the chain', async () => {
+    const results = await checkDeployment({
+      config: makeConfig({
+        curveRouterOverrides: {
+          poolConfigs: {
+            'usdc-usdt': {
+              address: CURVE_POOL,
+              poolType: CurvePoolType.STABLE,
+            },
+          },
+        },
+      }),
+      provider: fakeProvider(),
+      getPool,
+    });
+
+    expect(results.map(({ check, ok }) => [check, ok])).to.deep.equal([
+      [`pool WETH / USDC (${POOL})`, true],
+      ['taker contracts', true],
+      [`curve pool usdc-usdt (${CURVE_POOL})`, true],
+      ['uniswap pool for WETH / USDC', true],
+    ]);
+    expect(results[0].detail).to.equal(
+      `collateral ${COLLATERAL} (18 decimals), quote ${QUOTE} (6 decimals)`
+    );
+    expect(results[3].detail).to.equal(
+      `${utils.getAddress(UNISWAP_POOL)} at fee tier 3000`
+    );
+  });
+
+  it('reports pools which do not resolve, wrong Curve coins and missing DEX pools', async () => {
+    const results = await checkDeployment({
+      config: makeConfig({
+        pools: [
+          ...makeConfig().pools,
+          { name: 'Missing', address: OTHER_TOKEN } as any,
+        ],
+        universalRouterOverrides: {
+          poolFactoryAddress: UNISWAP_FACTORY,
+          defaultFeeTier: 500,
+        },
+        curveRouterOverrides: {
+          poolConfigs: {
+            'usdc-weth': {
+              address: CURVE_POOL,
+              poolType: CurvePoolType.STABLE,
+            },
+            'usdc-dai': { address: CURVE_POOL, poolType: CurvePoolType.STABLE },
+          },
+        },
+      }),
+      provider: fakeProvider(),
+      getPool: async (address) => {
+        if (address === OTHER_TOKEN) throw new Error('Pool not found');
+        return getPool();
+      },
+    });
+
+    const failures = results.filter(({ ok }) => !ok);
+    expect(failures.map(({ check, detail }) => [check, detail])).to.deep.equal([
+      [`pool Missing (${OTHER_TOKEN})`, 'Pool not found'],
+      [
+        `curve pool usdc-weth (${CURVE_POOL})`,
+        `pool does not hold weth, its coins are ${QUOTE}, ${OTHER_TOKEN}`,
+      ],
+      [
+        `curve pool usdc-dai (${CURVE_POOL})`,
+        'dai is missing from tokenAddresses',
+      ],
+      [
+        'uniswap pool for WETH / USDC',
+        `no pool for ${COLLATERAL}/${QUOTE} at fee tier 500`,
+      ],
+    ]);
+  });
+
+  it('checks that the keystore decrypts with the given password', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'deployment-check-'));
+    const keystorePath = path.join(dir, 'keystore.json');
+    const wallet = Wallet.createRandom();
+    await fs.writeFile(
+      keystorePath,
+      await wallet.encrypt('secret', { scrypt: { N: 2 } })
+    );
+    const config = makeConfig({ keeperKeystore: keystorePath, pools: [] });
+
+    try {
+      const [, good] = await checkDeployment({
+        config,
+        provider: fakeProvider(),
+        getPool,
+        getPassword: async () => 'secret',
+      });
+      sinon.restore();
+      const [, bad] = await checkDeployment({
+        config,
+        provider: fakeProvider(),
+        getPool,
+        getPassword: async () => 'wrong',
+      });
+
+      expect(good).to.deep.equal({
+        check: `keystore ${keystorePath}`,
+        ok: true,
+        detail: `decrypts to ${wallet.address}`,
+      });
+      expect(bad.ok).to.be.false;
+      expect(bad.detail).to.equal('invalid password');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('formatCheckResults', () => {
+  it('lists each check and counts the failures', () => {
+    const text = formatCheckResults([
+      { check: 'taker contracts', ok: true, detail: 'none deployment' },
+      { check: 'keystore k.json', ok: false, detail: 'invalid password' },
+    ]);
+
+    expect(text).to.equal(
+      [
+        'OK   taker contracts: none deployment',
+        'FAIL keystore k.json: invalid password',
+        '',
+        '1 of 2 checks failed.',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,241 @@
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { BigNumber, providers, utils } from 'ethers';
+import sinon from 'sinon';
+import { FailoverJsonRpcProvider } from '../failover-provider';
+
+chai.use(chaiAsPromised);
+
+const PRIMARY = 'https://primary.test/v2/secret-key';
+const SECONDARY = 'https://secondary.test';
+const TERTIARY = 'https://tertiary.test';
+
+const POOL = '0x1f0d51a052aa79527fffaf3108fb4440d3f53ce6';
+const BORROWER = '0x0000000000000000000000000000000000000b0b';
+const auctionInfo = new utils.Interface([
+  'function auctionInfo(address borrower_) view returns (address kicker_)',
+  'function totalT0Debt() view returns (uint256)',
+]);
+
+const noResponse = () =>
+  Object.assign(new Error('missing response'), {
+    code: utils.Logger.errors.SERVER_ERROR,
+    reason: 'missing response',
+  });
+const rpcError = (code: number, message: string) =>
+  Object.assign(new Error('processing response error'), {
+    code: utils.Logger.errors.SERVER_ERROR,
+    error: Object.assign(new Error(message), { code }),
+  });
+
+type Handler = (method: string, params: any[]) => any;
+
+describe('FailoverJsonRpcProvider', () => {
+  let handlers: { [url: string]: Handler };
+  let sendStub: sinon.SinonStub;
+
+  beforeEach(() => {
+    const answer = (url: string) => () => url;
+    handlers = {
+      [PRIMARY]: answer(PRIMARY),
+      [SECONDARY]: answer(SECONDARY),
+      [TERTIARY]: answer(TERTIARY),
+    };
+    sendStub = sinon
+      .stub(providers.JsonRpcProvider.prototype, 'send')
+      .callsFake(async function (
+        this: providers.JsonRpcProvider,
+        method: string,
+        params: any[]
+      ) {
+        return handlers[this.connection.url](method, params);
+      });
+    sinon
+      .stub(providers.JsonRpcProvider.prototype, 'detectNetwork')
+      .resolves({ name: 'homestead', chainId: 1 });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  const urlsCalled = (method: string) =>
+    sendStub
+      .getCalls()
+      .filter(({ args }) => args[0] === method)
+      .map(({ thisValue }) => thisValue.connection.url);
+
+  it('fails over to the next endpoint when one does not respond', async () => {
+    handlers[PRIMARY] = () => {
+      throw noResponse();
+    };
+    const provider = new FailoverJsonRpcProvider([PRIMARY, SECONDARY]);
+
+    expect(await provider.send('eth_blockNumber', [])).to.equal(SECONDARY);
+    // The failed endpoint is passed over until it is due a retry.
+    expect(await provider.send('eth_blockNumber', [])).to.equal(SECONDARY);
+    expect(urlsCalled('eth_blockNumber')).to.deep.equal([
+      PRIMARY,
+      SECONDARY,
+      SECONDARY,
+    ]);
+  });
+
+  it('fails over on rate limits but not on reverts', async () => {
+    handlers[PRIMARY] = (method) => {
+      throw method === 'eth_call'
+        ? rpcError(3, 'execution reverted')
+        : rpcError(-32005, 'limit exceeded');
+    };
+    const provider = new FailoverJsonRpcProvider([PRIMARY, SECONDARY]);
+
+    await expect(
+      provider.send('eth_call', [{ to: POOL, data: '0x' }, 'latest'])
+    ).to.be.rejectedWith('processing response error');
+    expect(await provider.send('eth_gasPrice', [])).to.equal(SECONDARY);
+  });
+
+  it('reads fee data through the endpoint in use', async () => {
+    const provider = new FailoverJsonRpcProvider([PRIMARY, SECONDARY]);
+    handlers[PRIMARY] = () => {
+      throw noResponse();
+    };
+    handlers[SECONDARY] = (method) => {
+      switch (method) {
+        case 'eth_getBlockByNumber':
+          return {
+            number: '0x10',
+            hash: '0x' + '11'.repeat(32),
+            parentHash: '0x' + '22'.repeat(32),
+            timestamp: '0x1',
+            nonce: '0x0',
+            difficulty: '0x0',
+            gasLimit: '0x1c9c380',
+            gasUsed: '0x0',
+            miner: POOL,
+            extraData: '0x',
+            transactions: [],
+          };
+        case 'eth_gasPrice':
+          return '0x77359400';
+        case 'eth_maxPriorityFeePerGas':
+          return '0x5f5e100';
+      }
+    };
+
+    const feeData = await provider.getFeeData();
+
+    // A block without a base fee, so only the gas price is set.
+    expect(feeData).to.deep.equal({
+      gasPrice: BigNumber.from(2_000_000_000),
+      maxFeePerGas: null,
+      maxPriorityFeePerGas: null,
+      lastBaseFeePerGas: null,
+    });
+  });
+
+  describe('quorum reads', () => {
+    const auctionCall = [
+      {
+        to: POOL,
+        data: auctionInfo.encodeFunctionData('auctionInfo', [BORROWER]),
+      },
+      'latest',
+    ];
+
+    it('returns a result once enough endpoints agree', async () => {
+      const provider = new FailoverJsonRpcProvider(
+        [PRIMARY, SECONDARY, TERTIARY],
+        { quorum: 2 }
+      );
+      handlers[PRIMARY] = () => '0xabc';
+      handlers[SECONDARY] = () => '0xdef';
+      handlers[TERTIARY] = () => '0xabc';
+
+      expect(await provider.send('eth_call', auctionCall)).to.equal('0xabc');
+      expect(urlsCalled('eth_call')).to.deep.equal([
+        PRIMARY,
+        SECONDARY,
+        TERTIARY,
+      ]);
+    });
+
+    it('throws when the endpoints do not agree', async () => {
+      const provider = new FailoverJsonRpcProvider([PRIMARY, SECONDARY], {
+        quorum: 2,
+      });
+      handlers[PRIMARY] = () => '0xabc';
+      handlers[SECONDARY] = () => '0xdef';
+
+      await expect(provider.send('eth_call', auctionCall)).to.be.rejectedWith(
+        'RPC endpoints disagree on eth_call'
+      );
+    });
+
+    it('pins calls at latest to one block for every endpoint', async () => {
+      const provider = new FailoverJsonRpcProvider([PRIMARY, SECONDARY], {
+        quorum: 2,
+      });
+      // The auction price depends on the block, and the heads are a block apart.
+      const endpointAt = (head: number) => (method: string, params: any[]) =>
+        method === 'eth_blockNumber'
+          ? utils.hexValue(head)
+          : `0x${BigNumber.from(params[1]).toNumber().toString(16)}00`;
+      handlers[PRIMARY] = endpointAt(101);
+      handlers[SECONDARY] = endpointAt(100);
+
+      expect(await provider.send('eth_call', auctionCall)).to.equal('0x6400');
+      const blockTags = sendStub
+        .getCalls()
+        .filter(({ args }) => args[0] === 'eth_call')
+        .map(({ args }) => args[1][1]);
+      expect(blockTags).to.deep.equal(['0x64', '0x64']);
+    });
+
+    it('reads other calls from one endpoint', async () => {
+      const provider = new FailoverJsonRpcProvider([PRIMARY, SECONDARY], {
+        quorum: 2,
+      });
+
+      await provider.send('eth_call', [
+        { to: POOL, data: auctionInfo.encodeFunctionData('totalT0Debt') },
+        'latest',
+      ]);
+
+      expect(urlsCalled('eth_call')).to.deep.equal([PRIMARY]);
+    });
+  });
+
+  describe('sending transactions', () => {
+    it('broadcasts to every endpoint and returns the accepted hash', async () => {
+      const provider = new FailoverJsonRpcProvider(
+        [PRIMARY, SECONDARY, TERTIARY],
+        { broadcastTransactions: true }
+      );
+      handlers[PRIMARY] = () => {
+        throw noResponse();
+      };
+      handlers[SECONDARY] = () => '0xhash';
+      handlers[TERTIARY] = () => {
+        throw rpcError(-32000, 'already known');
+      };
+
+      expect(
+        await provider.send('eth_sendRawTransaction', ['0xsigned'])
+      ).to.equal('0xhash');
+      expect(urlsCalled('eth_sendRawTransaction')).to.have.members([
+        PRIMARY,
+        SECONDARY,
+        TERTIARY,
+      ]);
+    });
+
+    it('sends to the endpoint in use only by default', async () => {
+      const provider = new FailoverJsonRpcProvider([PRIMARY, SECONDARY]);
+
+      await provider.send('eth_sendRawTransaction', ['0xsigned']);
+
+      expect(urlsCalled('eth_sendRawTransaction')).to.deep.equal([PRIMARY]);
+    });
+  });
+});
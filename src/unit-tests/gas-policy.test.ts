@@ -0,0 +1,162 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sinon from 'sinon';
+import {
+  capFeeData,
+  configureGasPolicy,
+  getGasBudgetStatus,
+  shouldDeferForGas,
+  trackGasSpend,
+} from '../gas-policy';
+
+const gwei = (value: number) => utils.parseUnits(value.toString(), 'gwei');
+
+/** A receipt which paid `cost` in the native token. */
+const receiptCosting = (cost: number) =>
+  ({
+    gasUsed: BigNumber.from(100000),
+    effectiveGasPrice: utils.parseEther(cost.toString()).div(100000),
+  }) as any;
+
+describe('gas policy', () => {
+  let gasPrice: BigNumber;
+  let signer: any;
+
+  beforeEach(() => {
+    gasPrice = gwei(20);
+    signer = { getGasPrice: sinon.stub().callsFake(async () => gasPrice) };
+  });
+
+  afterEach(async () => {
+    await configureGasPolicy({}, 1);
+  });
+
+  it('caps fees at the chain ceiling', async () => {
+    await configureGasPolicy({ gasPolicy: { maxGasPriceGwei: 50 } }, 1);
+
+    const feeData = capFeeData({
+      gasPrice: gwei(80),
+      maxFeePerGas: gwei(120),
+      maxPriorityFeePerGas: gwei(60),
+      lastBaseFeePerGas: gwei(40),
+    });
+
+    expect(feeData).to.deep.equal({
+      gasPrice: gwei(50),
+      maxFeePerGas: gwei(50),
+      maxPriorityFeePerGas: gwei(50),
+      lastBaseFeePerGas: gwei(40),
+    });
+  });
+
+  it('defers an action while the gas price is above its ceiling', async () => {
+    await configureGasPolicy(
+      {
+        gasPolicy: {
+          maxGasPriceGwei: 100,
+          actionMaxGasPriceGwei: { lpRedeem: 10 },
+        },
+      },
+      1
+    );
+
+    expect(await shouldDeferForGas('lpRedeem', signer)).to.be.true;
+    expect(await shouldDeferForGas('take', signer)).to.be.false;
+    gasPrice = gwei(150);
+    expect(await shouldDeferForGas('take', signer)).to.be.true;
+  });
+
+  it("lets an action's own ceiling win over a lower chain ceiling", async () => {
+    await configureGasPolicy(
+      {
+        gasPolicy: {
+          maxGasPriceGwei: 50,
+          actionMaxGasPriceGwei: { borrowerProtection: 200 },
+        },
+      },
+      1
+    );
+    gasPrice = gwei(150);
+
+    expect(await shouldDeferForGas('borrowerProtection', signer)).to.be.false;
+    expect(await shouldDeferForGas('take', signer)).to.be.true;
+    // Fees of a protection transaction are not capped below the price it ran at.
+    expect(capFeeData({ gasPrice }, 'borrowerProtection')).to.deep.equal({
+      gasPrice: gwei(150),
+    });
+  });
+
+  it('caps fees at the ceiling of their action, or the chain ceiling', async () => {
+    await configureGasPolicy(
+      {
+        gasPolicy: {
+          maxGasPriceGwei: 50,
+          actionMaxGasPriceGwei: { take: 500, lpRedeem: 10 },
+        },
+      },
+      1
+    );
+    const feeData = { gasPrice: gwei(800) };
+
+    expect(capFeeData(feeData, 'take')).to.deep.equal({ gasPrice: gwei(500) });
+    expect(capFeeData(feeData, 'lpRedeem')).to.deep.equal({
+      gasPrice: gwei(10),
+    });
+    expect(capFeeData(feeData, 'kick')).to.deep.equal({ gasPrice: gwei(50) });
+    expect(capFeeData(feeData)).to.deep.equal({ gasPrice: gwei(50) });
+  });
+
+  it('pauses non-critical actions once the daily budget is spent', async () => {
+    await configureGasPolicy({ gasPolicy: { dailyBudget: 0.01 } }, 1);
+    signer.sendTransaction = async () => ({
+      wait: async () => receiptCosting(0.006),
+    });
+    trackGasSpend(signer);
+
+    await (await signer.sendTransaction({})).wait();
+    expect(await shouldDeferForGas('rewardSwap', signer)).to.be.false;
+    await (await signer.sendTransaction({})).wait();
+
+    expect(await shouldDeferForGas('rewardSwap', signer)).to.be.true;
+    expect(await shouldDeferForGas('lpRedeem', signer)).to.be.true;
+    expect(await shouldDeferForGas('kick', signer)).to.be.false;
+  });
+
+  it('counts the gas of reverted transactions', async () => {
+    await configureGasPolicy({ gasPolicy: { dailyBudget: 1 } }, 1);
+    signer.sendTransaction = async () => ({
+      wait: async () => {
+        throw Object.assign(new Error('transaction failed'), {
+          receipt: receiptCosting(0.25),
+        });
+      },
+    });
+    trackGasSpend(signer);
+
+    const tx = await signer.sendTransaction({});
+    await tx.wait().catch(() => {});
+
+    expect(getGasBudgetStatus()).to.include({ spent: 0.25, budget: 1 });
+  });
+
+  it("restores today's spend from the state directory", async () => {
+    const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gas-policy-'));
+    const config = { gasPolicy: { dailyBudget: 1 }, stateDir };
+    await configureGasPolicy(config, 8453);
+    signer.sendTransaction = async () => ({
+      wait: async () => receiptCosting(0.5),
+    });
+    trackGasSpend(signer);
+    await (await signer.sendTransaction({})).wait();
+    // Wait for the background save.
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await configureGasPolicy(config, 8453);
+
+    expect(getGasBudgetStatus()).to.include({ spent: 0.5 });
+    await fs.rm(stateDir, { recursive: true });
+  });
+});
@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sinon from 'sinon';
+import { KeeperConfig, PoolConfig, PriceOriginSource } from '../config-types';
+import { ConfigWatcher, diffPools, getRestartOnlyChanges } from '../hot-reload';
+
+const ADDRESS_ZERO = '0x0000000000000000000000000000000000000000';
+
+function poolAddress(n: number): string {
+  return '0x' + String(n).repeat(40);
+}
+
+function createPool(
+  address: string,
+  overrides: Partial<PoolConfig> = {}
+): PoolConfig {
+  return {
+    name: `Pool ${address}`,
+    address,
+    price: { source: PriceOriginSource.FIXED, value: 1 },
+    kick: { minDebt: 1, priceFactor: 0.9 },
+    ...overrides,
+  };
+}
+
+function createConfig(pools: PoolConfig[]): KeeperConfig {
+  return {
+    ethRpcUrl: 'mock://rpc',
+    subgraphUrl: 'mock://subgraph',
+    keeperKeystore: '/path/to/keystore.json',
+    delayBetweenRuns: 15,
+    delayBetweenActions: 1,
+    ajna: {
+      erc20PoolFactory: ADDRESS_ZERO,
+      erc721PoolFactory: ADDRESS_ZERO,
+      poolUtils: ADDRESS_ZERO,
+      positionManager: ADDRESS_ZERO,
+      ajnaToken: ADDRESS_ZERO,
+    },
+    pools,
+  } as KeeperConfig;
+}
+
+describe('diffPools', () => {
+  it('finds added, removed and changed pools by address', () => {
+    const unchanged = createPool(poolAddress(1));
+    const changedBefore = createPool(poolAddress(2));
+    const changedAfter = createPool(poolAddress(2), {
+      kick: { minDebt: 1, priceFactor: 0.95 },
+    });
+    const removed = createPool(poolAddress(3));
+    const added = createPool(poolAddress(4));
+
+    const changes = diffPools(
+      [unchanged, changedBefore, removed],
+      [unchanged, changedAfter, added]
+    );
+
+    expect(changes).to.deep.equal({
+      added: [added],
+      removed: [removed],
+      changed: [changedAfter],
+    });
+  });
+});
+
+describe('getRestartOnlyChanges', () => {
+  it('lists changed settings other than pools', () => {
+    const oldConfig = createConfig([createPool(poolAddress(1))]);
+    const newConfig = {
+      ...createConfig([createPool(poolAddress(2))]),
+      delayBetweenRuns: 30,
+      dryRun: true,
+    };
+    expect(getRestartOnlyChanges(oldConfig, newConfig)).to.deep.equal([
+      'delayBetweenRuns',
+      'dryRun',
+    ]);
+  });
+});
+
+describe('ConfigWatcher', () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-watcher-'));
+    configPath = path.join(dir, 'config.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('passes a valid config to onReload', async () => {
+    const config = createConfig([createPool(poolAddress(1))]);
+    await fs.writeFile(configPath, JSON.stringify(config));
+    const onReload = sinon.stub().resolves();
+
+    await new ConfigWatcher(configPath, onReload).reload();
+
+    expect(onReload.calledOnce).to.be.true;
+    expect(onReload.firstCall.args[0]).to.deep.equal(config);
+  });
+
+  it('ignores a config which fails to parse or validate', async () => {
+    const onReload = sinon.stub().resolves();
+    const watcher = new ConfigWatcher(configPath, onReload);
+
+    await fs.writeFile(configPath, '{"pools": [');
+    await watcher.reload();
+    await fs.writeFile(
+      configPath,
+      JSON.stringify(
+        createConfig([createPool(poolAddress(1)), createPool(poolAddress(1))])
+      )
+    );
+    await watcher.reload();
+
+    expect(onReload.called).to.be.false;
+  });
+
+  it('keeps reloading after onReload fails', async () => {
+    await fs.writeFile(configPath, JSON.stringify(createConfig([])));
+    const onReload = sinon.stub();
+    onReload.onFirstCall().rejects(new Error('pool not found'));
+    onReload.onSecondCall().resolves();
+    const watcher = new ConfigWatcher(configPath, onReload);
+
+    await watcher.reload();
+    await watcher.reload();
+
+    expect(onReload.calledTwice).to.be.true;
+  });
+});
@@ -0,0 +1,329 @@
+import { expect } from 'chai';
+import {
+  assertIsValidConfig,
+  CollateralType,
+  KeeperConfig,
+  LiquiditySource,
+  PostAuctionDex,
+  PriceOriginSource,
+  ProtectionAction,
+  RewardActionLabel,
+} from '../config-types';
+import { ConfigValidationError, validateConfig } from '../keeper-config-schema';
+
+const ADDRESS_ZERO = '0x0000000000000000000000000000000000000000';
+const POOL_ADDRESS = '0x63a366fc5976ff72999c89f69366f388b7d233e8';
+const WETH_ADDRESS = '0x4200000000000000000000000000000000000006';
+
+function createConfig(): any {
+  return {
+    ethRpcUrl: 'https://rpc.example',
+    logLevel: 'info',
+    subgraphUrl: 'https://subgraph.example',
+    keeperKeystore: '/path/to/keystore.json',
+    delayBetweenRuns: 15,
+    delayBetweenActions: 1,
+    ajna: {
+      erc20PoolFactory: '0x214f62B5836D83f3D6c4f71F174209097B1A779C',
+      erc721PoolFactory: ADDRESS_ZERO,
+      poolUtils: ADDRESS_ZERO,
+      positionManager: ADDRESS_ZERO,
+      ajnaToken: ADDRESS_ZERO,
+      grantFund: '',
+    },
+    tokenAddresses: { weth: WETH_ADDRESS },
+    oneInchRouters: { 8453: '0x1111111254EEB25477B68fb85Ed929f73A960582' },
+    pools: [
+      {
+        name: 'wstETH / WETH',
+        address: POOL_ADDRESS,
+        price: { source: PriceOriginSource.FIXED, value: 1.15 },
+        kick: { minDebt: 0.07, priceFactor: 0.9 },
+        take: { minCollateral: 0.01, hpbPriceFactor: 0.9 },
+        collectBond: true,
+        collectLpReward: {
+          minAmountQuote: 0.001,
+          minAmountCollateral: 1000,
+          rewardActionQuote: {
+            action: RewardActionLabel.EXCHANGE,
+            address: WETH_ADDRESS,
+            targetToken: 'weth',
+            slippage: 1,
+            dexProvider: PostAuctionDex.ONEINCH,
+          },
+        },
+      },
+    ],
+  };
+}
+
+describe('validateConfig', () => {
+  it('accepts a valid config', () => {
+    expect(validateConfig(createConfig())).to.deep.equal([]);
+  });
+
+  it('treats keys set to undefined as missing', () => {
+    const config = createConfig();
+    config.coinGeckoApiKey = undefined;
+    expect(validateConfig(config)).to.deep.equal([]);
+  });
+
+  it('reports every problem at once with its path', () => {
+    const config = createConfig();
+    delete config.subgraphUrl;
+    config.delayBetweenRuns = '15';
+    config.pools[0].kick = { minDebts: 1, priceFactor: 1.2 };
+
+    expect(validateConfig(config)).to.deep.equal([
+      { path: 'subgraphUrl', message: 'is required' },
+      { path: 'pools[0].kick.minDebt', message: 'is required' },
+      {
+        path: 'pools[0].kick.priceFactor',
+        message: 'must be less than 1, got 1.2',
+      },
+      {
+        path: 'pools[0].kick.minDebts',
+        message: 'unknown key, did you mean "minDebt"?',
+      },
+      { path: 'delayBetweenRuns', message: 'must be a number, got "15"' },
+    ]);
+  });
+
+  it('accepts one subgraph url or a non-empty list of them', () => {
+    const config = createConfig();
+    config.subgraphUrl = ['https://a.example', 'https://b.example'];
+    expect(validateConfig(config)).to.deep.equal([]);
+
+    config.subgraphUrl = ['https://a.example', ''];
+    expect(validateConfig(config)).to.deep.equal([
+      { path: 'subgraphUrl[1]', message: 'must not be empty' },
+    ]);
+    config.subgraphUrl = [];
+    expect(validateConfig(config)).to.deep.equal([
+      { path: 'subgraphUrl', message: 'must not be an empty array' },
+    ]);
+  });
+
+  it('checks addresses and their checksums', () => {
+    const config = createConfig();
+    config.pools[0].address = '0xaddressOfWstETH';
+    config.keeperTaker = '0x63A366fc5976ff72999c89f69366f388b7d233e8';
+
+    expect(validateConfig(config)).to.deep.equal([
+      {
+        path: 'keeperTaker',
+        message:
+          'has an invalid checksum, expected 0x63A366fc5976FF72999C89f69366F388b7D233e8',
+      },
+      {
+        path: 'pools[0].address',
+        message:
+          'must be a 0x-prefixed 20 byte hex address, got "0xaddressOfWstETH"',
+      },
+    ]);
+  });
+
+  it('checks the fields of each price source and reward action', () => {
+    const config = createConfig();
+    config.pools[0].price = {
+      source: PriceOriginSource.COINGECKO,
+      quoteId: 'weth',
+    };
+    config.pools[0].collectLpReward.rewardActionCollateral = {
+      action: 'swap',
+    };
+
+    expect(validateConfig(config)).to.deep.equal([
+      {
+        path: 'pools[0].collectLpReward.rewardActionCollateral.action',
+        message: 'must be one of transfer, exchange, got "swap"',
+      },
+      {
+        path: 'pools[0].price',
+        message:
+          'coingecko prices need either query, or both quoteId and collateralId',
+      },
+    ]);
+  });
+
+  it('checks requirements between fields', () => {
+    const config = createConfig();
+    config.pools.push({ ...createConfig().pools[0], name: 'Duplicate' });
+    config.pools[0].take = {
+      liquiditySource: LiquiditySource.ONEINCH,
+      marketPriceFactor: 0.98,
+    };
+    config.pools[0].collectLpReward.rewardActionQuote.dexProvider =
+      PostAuctionDex.SUSHISWAP;
+    config.pools[0].collectLpReward.rewardActionQuote.targetToken = 'usdc';
+
+    expect(validateConfig(config)).to.deep.equal([
+      {
+        path: 'pools[0].take',
+        message: 'keeperTaker required when liquiditySource is ONEINCH',
+      },
+      {
+        path: 'pools[0].collectLpReward.rewardActionQuote.dexProvider',
+        message:
+          'PostAuctionDex.SUSHISWAP requires sushiswapRouterOverrides configuration',
+      },
+      {
+        path: 'pools[0].collectLpReward.rewardActionQuote.targetToken',
+        message: '"usdc" is not in tokenAddresses',
+      },
+      {
+        path: 'pools[1].address',
+        message: 'duplicates the address of pools[0]',
+      },
+    ]);
+  });
+
+  it('checks the settings of ERC721 pools', () => {
+    const config = createConfig();
+    config.pools[0].collateralType = CollateralType.ERC721;
+    config.pools[0].take = {
+      liquiditySource: LiquiditySource.ONEINCH,
+      marketPriceFactor: 0.9,
+    };
+
+    expect(validateConfig(config)).to.deep.equal([
+      {
+        path: 'pools[0].take',
+        message:
+          "liquiditySource is not supported in ERC721 pools, NFTs are taken with the keeper's quote token",
+      },
+      {
+        path: 'pools[0].collectLpReward',
+        message: 'is not supported in ERC721 pools',
+      },
+    ]);
+
+    delete config.pools[0].take.liquiditySource;
+    delete config.pools[0].collectLpReward;
+    expect(validateConfig(config)).to.deep.equal([]);
+  });
+
+  it('checks that reserve auctions are kicked, taken or both', () => {
+    const config = createConfig();
+    config.pools[0].reserveAuction = {
+      ajnaPrice: { source: PriceOriginSource.FIXED, value: 0.01 },
+    };
+
+    expect(validateConfig(config)).to.deep.equal([
+      {
+        path: 'pools[0].reserveAuction',
+        message: 'needs minKickReserves, takePriceFactor or both',
+      },
+    ]);
+
+    config.pools[0].reserveAuction.takePriceFactor = 0.9;
+    expect(validateConfig(config)).to.deep.equal([]);
+  });
+
+  it('checks borrower protection ratios and actions', () => {
+    const config = createConfig();
+    config.pools[0].collateralType = CollateralType.ERC721;
+    delete config.pools[0].take;
+    delete config.pools[0].collectLpReward;
+    config.pools[0].borrowerProtection = {
+      borrowers: [ADDRESS_ZERO],
+      triggerRatio: 0.8,
+      targetRatio: 0.9,
+      action: ProtectionAction.ADD_COLLATERAL,
+    };
+
+    expect(validateConfig(config)).to.deep.equal([
+      {
+        path: 'pools[0].borrowerProtection.targetRatio',
+        message: 'must be below triggerRatio',
+      },
+      {
+        path: 'pools[0].borrowerProtection.action',
+        message: 'addCollateral is not supported in ERC721 pools',
+      },
+    ]);
+  });
+
+  it('checks lender guard buckets and offsets', () => {
+    const config = createConfig();
+    config.pools[0].lenderGuard = {
+      bucketIndexes: [3000, 7389],
+      riskOffset: 10,
+      targetOffset: 10,
+    };
+
+    expect(validateConfig(config)).to.deep.equal([
+      {
+        path: 'pools[0].lenderGuard.bucketIndexes[1]',
+        message: 'must be at most 7388, got 7389',
+      },
+    ]);
+
+    config.pools[0].lenderGuard.bucketIndexes = [3000];
+    expect(validateConfig(config)).to.deep.equal([
+      {
+        path: 'pools[0].lenderGuard.targetOffset',
+        message: 'must be above riskOffset',
+      },
+    ]);
+  });
+
+  it('checks the RPC quorum against the number of endpoints', () => {
+    const config = createConfig();
+    config.rpcFailover = { fallbackUrls: ['https://rpc2.example'], quorum: 3 };
+
+    expect(validateConfig(config)).to.deep.equal([
+      {
+        path: 'rpcFailover.quorum',
+        message: 'is more than the 2 configured RPC endpoints',
+      },
+    ]);
+  });
+
+  it('checks gas policy ceilings by action', () => {
+    const config = createConfig();
+    config.gasPolicy = {
+      maxGasPriceGwei: 50,
+      actionMaxGasPriceGwei: { take: 0, claim: 5 },
+    };
+
+    expect(validateConfig(config)).to.deep.equal([
+      {
+        path: 'gasPolicy.actionMaxGasPriceGwei.take',
+        message: 'must be greater than 0, got 0',
+      },
+      {
+        path: 'gasPolicy.actionMaxGasPriceGwei.claim',
+        message: 'unknown key',
+      },
+    ]);
+  });
+
+  it('lists numeric enum values with their names', () => {
+    const config = createConfig();
+    config.pools[0].take = { liquiditySource: 7, marketPriceFactor: 0.9 };
+
+    expect(validateConfig(config)).to.deep.equal([
+      {
+        path: 'pools[0].take.liquiditySource',
+        message:
+          'must be one of 0 (NONE), 1 (ONEINCH), 2 (UNISWAPV3), 3 (SUSHISWAP), 4 (CURVE), got number',
+      },
+    ]);
+  });
+});
+
+describe('assertIsValidConfig', () => {
+  it('throws a ConfigValidationError listing every problem', () => {
+    const config: Partial<KeeperConfig> = createConfig();
+    delete config.ethRpcUrl;
+    delete config.pools;
+
+    expect(() => assertIsValidConfig(config))
+      .to.throw(ConfigValidationError)
+      .with.property('message')
+      .that.equals(
+        'Invalid config, found 2 problem(s):\n  ethRpcUrl: is required\n  pools: is required'
+      );
+  });
+});
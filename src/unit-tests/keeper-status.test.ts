@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import { KeeperStatus } from '../keeper-status';
+
+describe('KeeperStatus', () => {
+  let now: number;
+  let status: KeeperStatus;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    status = new KeeperStatus(() => now);
+  });
+
+  it('is healthy when loops have iterated recently', () => {
+    status.registerLoop('kick', 10);
+    now += 20_000;
+    status.recordLoopIteration('kick');
+    now += 50_000;
+    expect(status.isHealthy()).to.be.true;
+    expect(status.getLoopHealth().kick).to.include({
+      healthy: true,
+      secondsSinceLastIteration: 50,
+      staleAfterSeconds: 60,
+    });
+  });
+
+  it('is unhealthy once a loop misses three intervals', () => {
+    status.registerLoop('kick', 10);
+    status.registerLoop('settlement', 120);
+    status.recordLoopIteration('kick');
+    status.recordLoopIteration('settlement');
+    now += 61_000;
+    expect(status.getLoopHealth().kick.healthy).to.be.false;
+    expect(status.getLoopHealth().settlement.healthy).to.be.true;
+    expect(status.isHealthy()).to.be.false;
+  });
+
+  it('measures staleness from registration before the first iteration', () => {
+    status.registerLoop('take', 10);
+    now += 30_000;
+    expect(status.getLoopHealth().take).to.deep.equal({
+      healthy: true,
+      lastIteration: null,
+      secondsSinceLastIteration: null,
+      staleAfterSeconds: 60,
+    });
+    now += 31_000;
+    expect(status.isHealthy()).to.be.false;
+  });
+
+  it('keeps the latest outcome per pool and action', () => {
+    status.recordPoolOutcome('0xPool', 'WETH / USDC', 'kick');
+    status.recordPoolOutcome('0xPool', 'WETH / USDC', 'take', new Error('reverted'));
+    now += 1_000;
+    status.recordPoolOutcome('0xpool', 'WETH / USDC', 'kick', 'timeout');
+
+    const outcomes = status.getPoolOutcomes()['0xpool'];
+    expect(outcomes.name).to.equal('WETH / USDC');
+    expect(outcomes.outcomes.kick).to.deep.equal({
+      at: new Date(now).toISOString(),
+      success: false,
+      error: 'timeout',
+    });
+    expect(outcomes.outcomes.take).to.include({ success: false, error: 'reverted' });
+    expect(outcomes.outcomes.settle).to.be.undefined;
+  });
+
+  it('forgets removed pools', () => {
+    status.recordPoolOutcome('0xPool', 'WETH / USDC', 'kick');
+    status.removePool('0xPOOL');
+    expect(status.getPoolOutcomes()).to.deep.equal({});
+  });
+});
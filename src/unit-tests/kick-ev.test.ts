@@ -0,0 +1,161 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import sinon from 'sinon';
+import { PriceOriginSource } from '../config-types';
+import * as erc20 from '../erc20';
+import { handleKicksByExpectedReturn } from '../kick';
+import { estimateKickReturn } from '../kick-ev';
+import { logger } from '../logging';
+import subgraph from '../subgraph';
+
+const WETH = '0x4200000000000000000000000000000000000006';
+const wad = (value: number) => utils.parseEther(value.toString());
+
+describe('estimateKickReturn', () => {
+  // A bond of 1% of the debt, NP 10% above TP.
+  const loan = {
+    debt: wad(100),
+    collateral: wad(100),
+    thresholdPrice: wad(1),
+    neutralPrice: wad(1.1),
+    liquidationBond: wad(1),
+  };
+
+  it('earns the full bond factor when taken at or below TP', () => {
+    expect(estimateKickReturn({ ...loan, marketPrice: 0.9 })).to.be.closeTo(
+      0.9,
+      1e-9
+    );
+  });
+
+  it('scales the reward by where the market is between TP and NP', () => {
+    // Half way between TP and NP, paying the whole debt.
+    expect(estimateKickReturn({ ...loan, marketPrice: 1.05 })).to.be.closeTo(
+      0.5,
+      1e-9
+    );
+  });
+
+  it('loses part of the bond when the market is above NP', () => {
+    expect(estimateKickReturn({ ...loan, marketPrice: 1.15 })).to.be.closeTo(
+      -0.5,
+      1e-9
+    );
+  });
+});
+
+describe('handleKicksByExpectedReturn', () => {
+  const signer: any = {
+    getGasPrice: async () => utils.parseUnits('1', 'gwei'),
+    getChainId: async () => 8453,
+  };
+
+  const createPool = (name: string, neutralPrice: number) => {
+    const loanDetails = {
+      thresholdPrice: wad(1),
+      neutralPrice: wad(neutralPrice),
+      liquidationBond: wad(1),
+      debt: wad(100),
+      collateral: wad(100),
+    };
+    return {
+      name,
+      poolAddress: `0x${name}`,
+      quoteAddress: WETH,
+      getLoans: async () => new Map([['0xborrower', loanDetails]]),
+      getLoan: async () => loanDetails,
+      getPrices: async () => ({ lup: wad(0.5), hpb: wad(2) }),
+    } as any;
+  };
+  const kickSettings = {
+    minDebt: 1,
+    priceFactor: 0.5,
+    minExpectedReturn: 0.1,
+  };
+  const poolConfig = (name: string) =>
+    ({
+      name,
+      price: { source: PriceOriginSource.FIXED, value: 1.05 },
+      kick: kickSettings,
+    }) as any;
+
+  beforeEach(() => {
+    sinon.stub(subgraph, 'getLoans').resolves({
+      loans: [{ borrower: '0xborrower', thresholdPrice: 1 }],
+    } as any);
+    sinon.stub(erc20, 'getAllowanceOfErc20').resolves(BigNumber.from(0));
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('kicks across pools best first, skipping those below the threshold', async () => {
+    const info = sinon.stub(logger, 'info');
+    const pools = [
+      { pool: createPool('small', 1.06), poolConfig: poolConfig('small') },
+      { pool: createPool('large', 1.1), poolConfig: poolConfig('large') },
+      { pool: createPool('loss', 1.01), poolConfig: poolConfig('loss') },
+    ];
+
+    const errors = await handleKicksByExpectedReturn({
+      pools,
+      signer,
+      config: {
+        dryRun: true,
+        subgraphUrl: 'https://subgraph.example',
+        delayBetweenActions: 0,
+        tokenAddresses: { weth: WETH },
+        ethRpcUrl: 'https://rpc.example',
+      },
+    });
+
+    expect(errors.size).to.equal(0);
+    const kicked = info
+      .getCalls()
+      .map(({ args }) => String(args[0]))
+      .filter((message: string) => message.startsWith('DryRun'));
+    expect(kicked).to.deep.equal([
+      'DryRun - Would kick loan - pool: large, borrower: 0xborrower',
+      'DryRun - Would kick loan - pool: small, borrower: 0xborrower',
+    ]);
+  });
+
+  it('counts the gas of approving the bond when the allowance is short', async () => {
+    const expectedReturn = async (allowance: number) => {
+      const getAllowance = erc20.getAllowanceOfErc20 as sinon.SinonStub;
+      getAllowance.reset();
+      getAllowance.resolves(BigNumber.from(0));
+      getAllowance.onFirstCall().resolves(wad(allowance));
+      const info = sinon.stub(logger, 'info');
+      await handleKicksByExpectedReturn({
+        pools: [
+          { pool: createPool('large', 1.1), poolConfig: poolConfig('large') },
+        ],
+        signer: {
+          ...signer,
+          getGasPrice: async () => utils.parseUnits('10', 'gwei'),
+        },
+        config: {
+          dryRun: true,
+          subgraphUrl: 'https://subgraph.example',
+          delayBetweenActions: 0,
+          tokenAddresses: { weth: WETH },
+          ethRpcUrl: 'https://rpc.example',
+        },
+      });
+      const message = info
+        .getCalls()
+        .map(({ args }) => String(args[0]))
+        .find((message) => message.startsWith('Kicking loan'));
+      info.restore();
+      return Number(message?.match(/expected return (-?\d+\.\d+)/)?.[1]);
+    };
+
+    // 50000 gas of approval at 10 gwei, in WETH.
+    expect((await expectedReturn(2)) - (await expectedReturn(0))).to.be.closeTo(
+      0.0005,
+      1e-6
+    );
+  });
+});
@@ -0,0 +1,226 @@
+import { FungiblePool } from '@ajna-finance/sdk';
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sinon from 'sinon';
+import { LiquiditySource, PriceOriginSource } from '../config-types';
+import * as erc20 from '../erc20';
+import {
+  configureLedger,
+  getLpAwarded,
+  readLedger,
+  recordLedgerEntry,
+  recordTakeInLedger,
+} from '../ledger';
+
+const POOL_ADDRESS = '0x0000000000000000000000000000000000000001';
+const KEEPER = '0x00000000000000000000000000000000000000aa';
+const OTHER = '0x00000000000000000000000000000000000000bb';
+
+const lpAwardedInterface = new utils.Interface([
+  'event BucketTakeLPAwarded(address indexed taker, address indexed kicker, uint256 lpAwardedTaker, uint256 lpAwardedKicker)',
+]);
+
+const QUOTE_ADDRESS = '0x00000000000000000000000000000000000000cc';
+
+const takeInterface = new utils.Interface([
+  'event Take(address indexed borrower, uint256 amount, uint256 collateral, uint256 bondChange, bool isReward)',
+]);
+const transferInterface = new utils.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+function makeLog(
+  address: string,
+  iface: utils.Interface,
+  name: string,
+  args: any[]
+): any {
+  const { data, topics } = iface.encodeEventLog(iface.getEvent(name), args);
+  return { address, data, topics };
+}
+
+const pool = {
+  name: 'WETH / USDC',
+  poolAddress: POOL_ADDRESS,
+  contract: { interface: lpAwardedInterface },
+} as unknown as FungiblePool;
+
+const receipt = {
+  transactionHash: '0xabc',
+  gasUsed: BigNumber.from(100000),
+  effectiveGasPrice: BigNumber.from(1_000_000_000),
+};
+
+describe('ledger', () => {
+  let dir: string;
+  let ledgerFile: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ledger-'));
+    ledgerFile = path.join(dir, 'nested', 'ledger.jsonl');
+    configureLedger(
+      {
+        ledgerFile,
+        ethRpcUrl: 'mock://rpc',
+        pools: [
+          {
+            name: 'WETH / USDC',
+            address: POOL_ADDRESS,
+            price: { source: PriceOriginSource.FIXED, value: 2000 },
+          },
+        ],
+      },
+      8453
+    );
+  });
+
+  afterEach(async () => {
+    configureLedger({ ethRpcUrl: 'mock://rpc', pools: [] }, 0);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends entries with pool, tx hash and gas cost', async () => {
+    await recordLedgerEntry({
+      action: 'kick',
+      strategy: 'kick',
+      pool,
+      receipt,
+      quoteDelta: -10,
+      price: 1990,
+    });
+    await recordLedgerEntry({
+      action: 'rewardSwap',
+      strategy: 'swap:curve',
+      token: '0xtoken',
+      tokenDelta: -1,
+    });
+
+    const entries = await readLedger(ledgerFile);
+    expect(entries).to.have.length(2);
+    expect(entries[0]).to.include({
+      chainId: 8453,
+      action: 'kick',
+      strategy: 'kick',
+      pool: 'WETH / USDC',
+      poolAddress: POOL_ADDRESS,
+      txHash: '0xabc',
+      gasCost: 0.0001,
+      quoteDelta: -10,
+      price: 1990,
+    });
+    expect(entries[1].pool).to.be.undefined;
+    expect(entries[1].tokenDelta).to.equal(-1);
+  });
+
+  it('snapshots the configured price when collateral moves', async () => {
+    await recordLedgerEntry({
+      action: 'take',
+      strategy: 'take:nft',
+      pool,
+      receipt,
+      collateralDelta: 2,
+      quoteDelta: -3000,
+    });
+
+    const [entry] = await readLedger(ledgerFile);
+    expect(entry).to.include({
+      action: 'take',
+      strategy: 'take:nft',
+      collateralDelta: 2,
+      quoteDelta: -3000,
+      price: 2000,
+    });
+  });
+
+  it('records the quote a swapped take sends the keeper', async () => {
+    sinon.stub(erc20, 'getDecimalsErc20').resolves(6);
+    const signer = { getAddress: async () => KEEPER } as any;
+    const takePool = {
+      ...pool,
+      quoteAddress: QUOTE_ADDRESS,
+      contract: { interface: takeInterface },
+    } as unknown as FungiblePool;
+    const takeReceipt = {
+      ...receipt,
+      logs: [
+        makeLog(POOL_ADDRESS, takeInterface, 'Take', [
+          OTHER,
+          utils.parseEther('3000'),
+          utils.parseEther('2'),
+          0,
+          false,
+        ]),
+        makeLog(QUOTE_ADDRESS, transferInterface, 'Transfer', [
+          OTHER,
+          POOL_ADDRESS,
+          3000_000000,
+        ]),
+        makeLog(QUOTE_ADDRESS, transferInterface, 'Transfer', [
+          OTHER,
+          KEEPER,
+          150_500000,
+        ]),
+      ],
+    };
+
+    try {
+      await recordTakeInLedger(
+        takePool,
+        LiquiditySource.UNISWAPV3,
+        takeReceipt,
+        signer
+      );
+    } finally {
+      sinon.restore();
+    }
+
+    const [entry] = await readLedger(ledgerFile);
+    expect(entry).to.include({
+      action: 'take',
+      strategy: 'take:uniswapv3',
+      quoteDelta: 150.5,
+      collateralTaken: 2,
+      quotePaid: 3000,
+      price: 2000,
+    });
+    expect(entry.collateralDelta).to.be.undefined;
+  });
+
+  it('records nothing when no ledger file is configured', async () => {
+    configureLedger({ ethRpcUrl: 'mock://rpc', pools: [] }, 1);
+    await recordLedgerEntry({ action: 'kick', strategy: 'kick', quoteDelta: -1 });
+    await fs.access(ledgerFile).then(
+      () => expect.fail('ledger file should not exist'),
+      () => {}
+    );
+  });
+
+  it('skips malformed lines when reading', async () => {
+    await fs.mkdir(path.dirname(ledgerFile), { recursive: true });
+    await fs.writeFile(
+      ledgerFile,
+      '{"action":"kick","strategy":"kick"}\nnot json\n\n{"action":"take","strategy":"take:curve"}\n'
+    );
+    const entries = await readLedger(ledgerFile);
+    expect(entries.map(({ action }) => action)).to.deep.equal(['kick', 'take']);
+  });
+
+  it('sums LP awarded to the keeper as taker or kicker', () => {
+    const awarded = (taker: string, kicker: string, lpTaker: string, lpKicker: string) => {
+      const log = lpAwardedInterface.encodeEventLog(
+        lpAwardedInterface.getEvent('BucketTakeLPAwarded'),
+        [taker, kicker, utils.parseEther(lpTaker), utils.parseEther(lpKicker)]
+      );
+      return { ...log, address: POOL_ADDRESS };
+    };
+    const logs = [
+      awarded(KEEPER, OTHER, '3', '1'),
+      awarded(OTHER, KEEPER, '5', '0.5'),
+      { ...awarded(KEEPER, KEEPER, '100', '100'), address: OTHER },
+    ];
+    expect(getLpAwarded(pool, { logs } as any, KEEPER)).to.equal(3.5);
+  });
+});
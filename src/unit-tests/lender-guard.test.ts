@@ -0,0 +1,122 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import sinon from 'sinon';
+import { PriceOriginPoolReference } from '../config-types';
+import { getSaferBucketIndex, handleLenderGuard } from '../lender-guard';
+import { logger } from '../logging';
+
+const wad = (value: number) => utils.parseEther(value.toString());
+
+describe('getSaferBucketIndex', () => {
+  it('leaves deposits more than riskOffset buckets above the reference alone', () => {
+    expect(getSaferBucketIndex(4089, 4100, 10, 20)).to.be.undefined;
+  });
+
+  it('moves deposits near or below the reference targetOffset buckets above it', () => {
+    expect(getSaferBucketIndex(4090, 4100, 10, 20)).to.equal(4080);
+    expect(getSaferBucketIndex(4200, 4100, 10, 20)).to.equal(4080);
+  });
+
+  it('does not move past the highest priced bucket', () => {
+    expect(getSaferBucketIndex(12, 10, 5, 20)).to.equal(1);
+    expect(getSaferBucketIndex(1, 3, 5, 20)).to.be.undefined;
+  });
+});
+
+describe('handleLenderGuard', () => {
+  // LUP in bucket 4100, HTP in bucket 4300.
+  const lup = wad(1.5);
+  const htp = wad(0.2);
+  const deposits: { [index: number]: number } = {
+    4050: 100,
+    4095: 200,
+    4150: 0.5,
+    4250: 300,
+    4295: 50,
+  };
+  const createPool = (debt = true): any => ({
+    name: 'Test Pool',
+    poolAddress: '0x000000000000000000000000000000000000a7a1',
+    getPrices: async () => ({
+      lup,
+      htp: debt ? htp : BigNumber.from(0),
+    }),
+    getBucketByPrice: (price: BigNumber) => ({
+      index: price.eq(lup) ? 4100 : 4300,
+    }),
+    getBucketByIndex: (index: number) => ({
+      getPosition: async () => ({
+        depositRedeemable: wad(deposits[index] ?? 0),
+      }),
+    }),
+  });
+  const signer: any = {
+    getAddress: async () => '0x000000000000000000000000000000000000beef',
+  };
+  const poolConfig = (reference?: PriceOriginPoolReference): any => ({
+    name: 'Test Pool',
+    lenderGuard: {
+      bucketIndexes: Object.keys(deposits).map(Number),
+      reference,
+      riskOffset: 10,
+      targetOffset: 20,
+      minAmount: 1,
+    },
+  });
+  let info: sinon.SinonStub;
+
+  const dryRunMessages = () =>
+    info
+      .getCalls()
+      .map(({ args }) => String(args[0]))
+      .filter((message) => message.startsWith('DryRun'));
+
+  beforeEach(() => {
+    info = sinon.stub(logger, 'info');
+    sinon.stub(logger, 'warn');
+    sinon.stub(logger, 'debug');
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('moves deposits at risk above LUP', async () => {
+    await handleLenderGuard({
+      pool: createPool(),
+      poolConfig: poolConfig(),
+      signer,
+      config: { dryRun: true },
+    });
+
+    expect(dryRunMessages()).to.deep.equal([
+      'DryRun - Would move 200 quote token from bucket 4095 to 4080 - pool: Test Pool',
+      'DryRun - Would move 300 quote token from bucket 4250 to 4080 - pool: Test Pool',
+      'DryRun - Would move 50 quote token from bucket 4295 to 4080 - pool: Test Pool',
+    ]);
+  });
+
+  it('moves deposits at risk above HTP', async () => {
+    await handleLenderGuard({
+      pool: createPool(),
+      poolConfig: poolConfig(PriceOriginPoolReference.HTP),
+      signer,
+      config: { dryRun: true },
+    });
+
+    expect(dryRunMessages()).to.deep.equal([
+      'DryRun - Would move 50 quote token from bucket 4295 to 4280 - pool: Test Pool',
+    ]);
+  });
+
+  it('does nothing in pools without debt', async () => {
+    await handleLenderGuard({
+      pool: createPool(false),
+      poolConfig: poolConfig(),
+      signer,
+      config: { dryRun: true },
+    });
+
+    expect(dryRunMessages()).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { expect } from 'chai';
+import { KeeperLifecycle, settlesWithin } from '../lifecycle';
+
+describe('KeeperLifecycle', () => {
+  it('is not stopping until a stop is requested', () => {
+    const lifecycle = new KeeperLifecycle();
+    expect(lifecycle.isStopping).to.be.false;
+    lifecycle.requestStop('test');
+    expect(lifecycle.isStopping).to.be.true;
+  });
+
+  it('wakes up sleeping loops when a stop is requested', async () => {
+    const lifecycle = new KeeperLifecycle();
+    const start = Date.now();
+    const sleeping = lifecycle.delay(60);
+    lifecycle.requestStop('test');
+    await sleeping;
+    expect(Date.now() - start).to.be.lessThan(1000);
+  });
+
+  it('does not sleep once stopping', async () => {
+    const lifecycle = new KeeperLifecycle();
+    lifecycle.requestStop('test');
+    const start = Date.now();
+    await lifecycle.delay(60);
+    expect(Date.now() - start).to.be.lessThan(1000);
+  });
+
+  it('sleeps for the full delay when no stop is requested', async () => {
+    const lifecycle = new KeeperLifecycle();
+    const start = Date.now();
+    await lifecycle.delay(0.1);
+    expect(Date.now() - start).to.be.at.least(90);
+  });
+});
+
+describe('settlesWithin', () => {
+  it('resolves true when the promise settles in time', async () => {
+    expect(await settlesWithin(Promise.resolve(), 1)).to.be.true;
+  });
+
+  it('resolves true when the promise rejects in time', async () => {
+    expect(await settlesWithin(Promise.reject(new Error('boom')), 1)).to.be
+      .true;
+  });
+
+  it('resolves false when the timeout is reached first', async () => {
+    const never = new Promise(() => {});
+    expect(await settlesWithin(never, 0.05)).to.be.false;
+  });
+});
@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { LiquiditySource, PostAuctionDex } from '../config-types';
+import {
+  gasCostTotal,
+  gasUsedTotal,
+  kicksTotal,
+  MetricsRegistry,
+  recordGasSpent,
+  recordKick,
+  recordSettlementIteration,
+  recordSettlementResult,
+  recordSwap,
+  recordTake,
+  registry,
+  settlementIterationsTotal,
+  settlementsTotal,
+  swapsTotal,
+  takesTotal,
+  timed,
+} from '../metrics';
+
+describe('metrics', () => {
+  beforeEach(() => {
+    registry.reset();
+  });
+
+  it('renders counters with default labels in Prometheus format', () => {
+    const testRegistry = new MetricsRegistry();
+    const counter = testRegistry.counter('test_total', 'A test counter.');
+    testRegistry.setDefaultLabels({ chain_id: 1 });
+    counter.inc({ pool: 'WETH / "USDC"' });
+    counter.inc({ pool: 'WETH / "USDC"' }, 2);
+
+    expect(testRegistry.render()).to.equal(
+      '# HELP test_total A test counter.\n' +
+        '# TYPE test_total counter\n' +
+        'test_total{chain_id="1",pool="WETH / \\"USDC\\""} 3\n'
+    );
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const testRegistry = new MetricsRegistry();
+    const histogram = testRegistry.histogram('test_seconds', 'A test histogram.', [1, 5]);
+    histogram.observe({ method: 'eth_call' }, 0.5);
+    histogram.observe({ method: 'eth_call' }, 3);
+    histogram.observe({ method: 'eth_call' }, 10);
+
+    const lines = testRegistry.render().split('\n');
+    expect(lines).to.include.members([
+      'test_seconds_bucket{method="eth_call",le="1"} 1',
+      'test_seconds_bucket{method="eth_call",le="5"} 2',
+      'test_seconds_bucket{method="eth_call",le="+Inf"} 3',
+      'test_seconds_sum{method="eth_call"} 13.5',
+      'test_seconds_count{method="eth_call"} 3',
+    ]);
+  });
+
+  it('counts kicks, takes and arbTakes by status', () => {
+    recordKick('pool', 'attempted');
+    recordKick('pool', 'failed');
+    recordTake('pool', LiquiditySource.UNISWAPV3, 'confirmed');
+    recordTake('pool', undefined, 'attempted');
+
+    expect(kicksTotal.get({ pool: 'pool', status: 'attempted' })).to.equal(1);
+    expect(kicksTotal.get({ pool: 'pool', status: 'failed' })).to.equal(1);
+    expect(
+      takesTotal.get({
+        pool: 'pool',
+        type: 'take',
+        liquidity_source: 'uniswapv3',
+        status: 'confirmed',
+      })
+    ).to.equal(1);
+    expect(
+      takesTotal.get({
+        pool: 'pool',
+        type: 'arbTake',
+        liquidity_source: 'none',
+        status: 'attempted',
+      })
+    ).to.equal(1);
+  });
+
+  it('counts settlement iterations and results', () => {
+    recordSettlementIteration('pool');
+    recordSettlementIteration('pool');
+    recordSettlementResult('pool', { success: true, completed: false });
+    recordSettlementResult('pool', { success: false, completed: false });
+
+    expect(settlementIterationsTotal.get({ pool: 'pool' })).to.equal(2);
+    expect(settlementsTotal.get({ pool: 'pool', result: 'partial' })).to.equal(1);
+    expect(settlementsTotal.get({ pool: 'pool', result: 'failed' })).to.equal(1);
+  });
+
+  it('counts swaps by dex and status', () => {
+    recordSwap(PostAuctionDex.CURVE, true);
+    recordSwap(PostAuctionDex.CURVE, false);
+    expect(swapsTotal.get({ dex: 'curve', status: 'success' })).to.equal(1);
+    expect(swapsTotal.get({ dex: 'curve', status: 'failure' })).to.equal(1);
+  });
+
+  it('records gas used and its cost in the native token', () => {
+    recordGasSpent('pool', 'kick', {
+      gasUsed: BigNumber.from(200000),
+      effectiveGasPrice: BigNumber.from(5_000_000_000),
+    });
+    expect(gasUsedTotal.get({ pool: 'pool', action: 'kick' })).to.equal(200000);
+    expect(gasCostTotal.get({ pool: 'pool', action: 'kick' })).to.equal(0.001);
+  });
+
+  it('skips gas metrics when there is no receipt', () => {
+    recordGasSpent('pool', 'settle', undefined);
+    expect(gasUsedTotal.get({ pool: 'pool', action: 'settle' })).to.equal(0);
+  });
+
+  it('times calls and labels them by status', async () => {
+    const testRegistry = new MetricsRegistry();
+    const histogram = testRegistry.histogram('test_seconds', 'A test histogram.');
+    await timed(histogram, { query: 'q' }, async () => 1);
+    await timed(histogram, { query: 'q' }, async () => {
+      throw new Error('boom');
+    }).catch(() => {});
+
+    expect(histogram.getCount({ query: 'q', status: 'ok' })).to.equal(1);
+    expect(histogram.getCount({ query: 'q', status: 'error' })).to.equal(1);
+  });
+});
@@ -237,4 +237,27 @@ describe('NonceTracker', () => {
     const result = await NonceTracker.queueTransaction(signer, async (nonce) => nonce);
     expect(result).to.equal(11);
   });
+
+  it('drains in-flight transactions, including ones queued while draining', async function () {
+    this.timeout(10000);
+    sinon.stub(signer, 'getTransactionCount').resolves(10);
+
+    const completed: number[] = [];
+    NonceTracker.queueTransaction(signer, async (nonce) => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      completed.push(nonce);
+      NonceTracker.queueTransaction(signer, async (nonce) => {
+        completed.push(nonce);
+      });
+    });
+    // Let the first transaction register its queue entry
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    await NonceTracker.drain();
+    expect(completed).to.deep.equal([10, 11]);
+  });
+
+  it('drains immediately when nothing is queued', async () => {
+    await NonceTracker.drain();
+  });
 });
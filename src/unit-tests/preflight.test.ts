@@ -0,0 +1,98 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import sinon from 'sinon';
+import { logger } from '../logging';
+import { preflightRevertsTotal } from '../metrics';
+import {
+  decodeRevertReason,
+  preflight,
+  SimulationRevertedError,
+} from '../preflight';
+
+const takerErrors = new utils.Interface(['error TakerNotSet()']);
+
+/** An error shaped like the one ethers throws for a reverted `callStatic`. */
+const callException = (data: string) =>
+  Object.assign(new Error('call revert exception'), {
+    code: 'CALL_EXCEPTION',
+    data,
+  });
+
+describe('preflight', () => {
+  beforeEach(() => {
+    sinon.stub(logger, 'warn');
+    preflightRevertsTotal.reset();
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('decodes Ajna and taker custom errors', () => {
+    expect(
+      decodeRevertReason(
+        callException(takerErrors.encodeErrorResult('TakerNotSet'))
+      )
+    ).to.equal('TakerNotSet');
+    expect(
+      decodeRevertReason(
+        callException(utils.id('AuctionNotTakeable()').slice(0, 10))
+      )
+    ).to.equal('AuctionNotTakeable');
+  });
+
+  it('decodes require messages and panics nested in RPC errors', () => {
+    const message = utils.hexConcat([
+      '0x08c379a0',
+      utils.defaultAbiCoder.encode(['string'], ['Router mismatch']),
+    ]);
+    const panic = utils.hexConcat([
+      '0x4e487b71',
+      utils.defaultAbiCoder.encode(['uint256'], [0x11]),
+    ]);
+
+    expect(
+      decodeRevertReason({
+        code: 'UNPREDICTABLE_GAS_LIMIT',
+        error: { body: JSON.stringify({ error: { data: message } }) },
+      })
+    ).to.equal('Router mismatch');
+    expect(decodeRevertReason({ error: { error: { data: panic } } })).to.equal(
+      'Panic(0x11)'
+    );
+    expect(decodeRevertReason(callException('0xdeadbeef'))).to.equal(
+      'unknown error 0xdeadbeef'
+    );
+  });
+
+  it('returns the simulated result when the call succeeds', async () => {
+    expect(await preflight('kick', 'Test Pool', async () => 42)).to.equal(42);
+  });
+
+  it('throws the decoded reason and counts it when the call reverts', async () => {
+    const data = takerErrors.encodeErrorResult('TakerNotSet');
+
+    const error = await preflight('take', 'Test Pool', async () => {
+      throw callException(data);
+    }).catch((error) => error);
+
+    expect(error).to.be.instanceOf(SimulationRevertedError);
+    expect(error.message).to.equal('take would revert: TakerNotSet');
+    expect(
+      preflightRevertsTotal.get({ action: 'take', reason: 'TakerNotSet' })
+    ).to.equal(1);
+  });
+
+  it('rethrows errors which are not reverts', async () => {
+    const timeout = Object.assign(new Error('timeout'), { code: 'TIMEOUT' });
+
+    const error = await preflight('kick', 'Test Pool', async () => {
+      throw timeout;
+    }).catch((error) => error);
+
+    expect(error).to.equal(timeout);
+    expect(
+      preflightRevertsTotal.get({ action: 'kick', reason: 'timeout' })
+    ).to.equal(0);
+  });
+});
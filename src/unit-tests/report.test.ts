@@ -0,0 +1,101 @@
+import { expect } from 'chai';
+import { LedgerEntry } from '../ledger';
+import { formatReport, summarizeLedger } from '../report';
+
+function entry(overrides: Partial<LedgerEntry>): LedgerEntry {
+  return {
+    timestamp: '2025-01-02T00:00:00.000Z',
+    chainId: 1,
+    action: 'kick',
+    strategy: 'kick',
+    pool: 'WETH / USDC',
+    ...overrides,
+  };
+}
+
+describe('report', () => {
+  const entries: LedgerEntry[] = [
+    entry({ quoteDelta: -100, gasCost: 0.001 }),
+    entry({ action: 'bondWithdrawal', quoteDelta: 102, gasCost: 0.0005 }),
+    entry({
+      action: 'take',
+      strategy: 'take:uniswapv3',
+      collateralDelta: 1,
+      quoteDelta: -1900,
+      price: 2000,
+    }),
+    entry({
+      action: 'take',
+      strategy: 'take:uniswapv3',
+      collateralDelta: 2,
+      quoteDelta: -3800,
+    }),
+    entry({ action: 'arbTake', strategy: 'arbTake', lpDelta: 5 }),
+    entry({
+      action: 'rewardSwap',
+      strategy: 'swap:curve',
+      pool: undefined,
+      token: '0xtoken',
+      tokenDelta: -1,
+    }),
+    entry({ timestamp: '2025-01-10T00:00:00.000Z', quoteDelta: -50 }),
+  ];
+
+  it('sums realized PnL, LP and gas per pool and strategy', () => {
+    const summaries = summarizeLedger(entries, {
+      to: new Date('2025-01-05T00:00:00.000Z'),
+    });
+    expect(summaries.map(({ pool, strategy }) => `${pool}/${strategy}`)).to.deep.equal([
+      '(none)/swap:curve',
+      'WETH / USDC/arbTake',
+      'WETH / USDC/kick',
+      'WETH / USDC/take:uniswapv3',
+    ]);
+
+    const kick = summaries.find(({ strategy }) => strategy === 'kick')!;
+    expect(kick.actions).to.equal(2);
+    expect(kick.realizedPnl).to.equal(2);
+    expect(kick.gasCost).to.be.closeTo(0.0015, 1e-12);
+
+    const take = summaries.find(({ strategy }) => strategy === 'take:uniswapv3')!;
+    expect(take.realizedPnl).to.equal(100 - 3800);
+    expect(take.unpricedCollateral).to.equal(2);
+
+    const arbTake = summaries.find(({ strategy }) => strategy === 'arbTake')!;
+    expect(arbTake.lpDelta).to.equal(5);
+    expect(arbTake.realizedPnl).to.equal(0);
+  });
+
+  it('includes the start and excludes the end of the range', () => {
+    const summaries = summarizeLedger(entries, {
+      from: new Date('2025-01-10T00:00:00.000Z'),
+    });
+    expect(summaries).to.have.length(1);
+    expect(summaries[0].realizedPnl).to.equal(-50);
+    expect(
+      summarizeLedger(entries, { to: new Date('2025-01-02T00:00:00.000Z') })
+    ).to.be.empty;
+  });
+
+  it('formats a table with a subtotal per pool', () => {
+    const range = { to: new Date('2025-01-05T00:00:00.000Z') };
+    const lines = formatReport(summarizeLedger(entries, range), range).split('\n');
+    expect(lines[0]).to.contain('between start of ledger and 2025-01-05T00:00:00.000Z');
+    const total = lines.find((line) => line.includes('total'))!;
+    expect(total.split(/\s{2,}/)).to.deep.equal([
+      'WETH / USDC',
+      'total',
+      '5',
+      '-3698',
+      '2',
+      '5',
+      '0.0015',
+    ]);
+  });
+
+  it('says so when nothing is in range', () => {
+    expect(formatReport([], {})).to.equal(
+      'No keeper actions recorded between start of ledger and now.'
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import sinon from 'sinon';
+import { PriceOriginSource } from '../config-types';
+import * as erc20 from '../erc20';
+import { logger } from '../logging';
+import { getReservesToTake, handleReserveAuction } from '../reserve-auction';
+
+const POOL_UTILS = '0x30c5eF2997d6a882DE52c4ec01B6D0a5e5B4fAAE';
+const AJNA_TOKEN = '0x9a96ec9B57Fb64FbC60B423d1f4da7691Bd35079';
+const wad = (value: number) => utils.parseEther(value.toString());
+
+const poolInfoUtils = new utils.Interface([
+  'function poolReservesInfo(address ajnaPool_) view returns (uint256 reserves_, uint256 claimableReserves_, uint256 claimableReservesRemaining_, uint256 auctionPrice_, uint256 timeRemaining_)',
+]);
+
+interface ReservesInfo {
+  claimableReserves: number;
+  claimableReservesRemaining: number;
+  auctionPrice: number;
+  timeRemaining: number;
+}
+
+/** A signer answering PoolInfoUtils.poolReservesInfo with `info`. */
+const createSigner = (info: ReservesInfo): any => ({
+  _isSigner: true,
+  getAddress: async () => '0x000000000000000000000000000000000000beef',
+  getChainId: async () => 1,
+  call: async () =>
+    poolInfoUtils.encodeFunctionResult('poolReservesInfo', [
+      wad(info.claimableReserves),
+      wad(info.claimableReserves),
+      wad(info.claimableReservesRemaining),
+      wad(info.auctionPrice),
+      info.timeRemaining,
+    ]),
+});
+
+const createPool = (lastBurnTime: number): any => ({
+  name: 'Test Pool',
+  poolAddress: '0x000000000000000000000000000000000000a7a1',
+  contract: {
+    currentBurnEpoch: async () => BigNumber.from(1),
+    burnInfo: async () => ({ timestamp: BigNumber.from(lastBurnTime) }),
+  },
+});
+
+const poolConfig: any = {
+  name: 'Test Pool',
+  reserveAuction: {
+    minKickReserves: 100,
+    ajnaPrice: { source: PriceOriginSource.FIXED, value: 0.01 },
+    takePriceFactor: 0.9,
+  },
+};
+
+const config: any = {
+  dryRun: true,
+  ajna: { poolUtils: POOL_UTILS, ajnaToken: AJNA_TOKEN },
+};
+
+const dryRunMessages = (info: sinon.SinonStub) =>
+  info
+    .getCalls()
+    .map(({ args }) => String(args[0]))
+    .filter((message) => message.startsWith('DryRun'));
+
+describe('getReservesToTake', () => {
+  it('takes every remaining reserve the AJNA balance can pay for', () => {
+    const { amount, ajnaCost } = getReservesToTake(wad(10), wad(50), wad(1000));
+    expect(amount).to.deep.equal(wad(10));
+    expect(ajnaCost).to.deep.equal(wad(500));
+  });
+
+  it('limits the amount to the AJNA available', () => {
+    const { amount, ajnaCost } = getReservesToTake(wad(10), wad(3), wad(10));
+    expect(amount).to.deep.equal(BigNumber.from('3333333333333333333'));
+    expect(ajnaCost.lte(wad(10))).to.be.true;
+  });
+
+  it('rounds the AJNA cost up', () => {
+    const { ajnaCost } = getReservesToTake(
+      BigNumber.from(3),
+      wad(0.5),
+      wad(10)
+    );
+    expect(ajnaCost).to.deep.equal(BigNumber.from(2));
+  });
+});
+
+describe('handleReserveAuction', () => {
+  let info: sinon.SinonStub;
+
+  beforeEach(() => {
+    info = sinon.stub(logger, 'info');
+    sinon.stub(erc20, 'getBalanceOfErc20').resolves(wad(5000));
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('kicks once enough reserves are claimable', async () => {
+    await handleReserveAuction({
+      pool: createPool(0),
+      poolConfig,
+      signer: createSigner({
+        claimableReserves: 150,
+        claimableReservesRemaining: 0,
+        auctionPrice: 0,
+        timeRemaining: 0,
+      }),
+      config,
+    });
+
+    expect(dryRunMessages(info)).to.deep.equal([
+      'DryRun - Would kick reserve auction - pool: Test Pool, claimable reserves: 150',
+    ]);
+  });
+
+  it('does not kick below minKickReserves or within two weeks of the last burn', async () => {
+    const reserves = {
+      claimableReserves: 150,
+      claimableReservesRemaining: 0,
+      auctionPrice: 0,
+      timeRemaining: 0,
+    };
+    const aDayAgo = Math.floor(Date.now() / 1000) - 24 * 60 * 60;
+
+    await handleReserveAuction({
+      pool: createPool(0),
+      poolConfig,
+      signer: createSigner({ ...reserves, claimableReserves: 50 }),
+      config,
+    });
+    await handleReserveAuction({
+      pool: createPool(aDayAgo),
+      poolConfig,
+      signer: createSigner(reserves),
+      config,
+    });
+
+    expect(dryRunMessages(info)).to.deep.equal([]);
+  });
+
+  it('takes reserves once the AJNA burned is cheap enough', async () => {
+    const running = {
+      claimableReserves: 0,
+      claimableReservesRemaining: 100,
+      timeRemaining: 3600,
+    };
+
+    // 100 AJNA per quote token at 0.01 quote per AJNA costs the full value.
+    await handleReserveAuction({
+      pool: createPool(0),
+      poolConfig,
+      signer: createSigner({ ...running, auctionPrice: 100 }),
+      config,
+    });
+    expect(dryRunMessages(info)).to.deep.equal([]);
+
+    await handleReserveAuction({
+      pool: createPool(0),
+      poolConfig,
+      signer: createSigner({ ...running, auctionPrice: 80 }),
+      config,
+    });
+    expect(dryRunMessages(info)).to.deep.equal([
+      'DryRun - Would take reserves - pool: Test Pool, amount: 62.5, AJNA burned: 5000',
+    ]);
+  });
+});
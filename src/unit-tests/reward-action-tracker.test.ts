@@ -1,12 +1,17 @@
 import { FeeAmount } from '@uniswap/v3-sdk';
 import { expect } from 'chai';
 import { BigNumber, Wallet } from 'ethers';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import sinon, { SinonStub } from 'sinon';
 import { RewardAction, RewardActionLabel, KeeperConfig, PostAuctionDex } from '../config-types';
 import { DexRouter } from '../dex-router';
 import { MAINNET_CONFIG } from '../integration-tests/test-config';
 import {
   deterministicJsonStringify,
+  getRewardActionStatePath,
+  RewardActionState,
   RewardActionTracker,
 } from '../reward-action-tracker';
 import { decimaledToWei } from '../utils';
@@ -171,4 +176,101 @@ describe('RewardActionTracker', () => {
     // No more calls should happen since token should be removed
     expect(dexRouter.swap.called).to.be.false;
   });
+
+  describe('with stateDir', () => {
+    let stateDir: string;
+
+    beforeEach(async () => {
+      stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'reward-actions-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(stateDir, { recursive: true, force: true });
+    });
+
+    function createTracker(swap: SinonStub) {
+      const signer = Wallet.createRandom();
+      sinon.stub(signer, 'getChainId').resolves(1);
+      return new RewardActionTracker(
+        signer,
+        createMockKeeperConfig({
+          oneInchRouters: { 1: '0x1111111254EEB25477B68fb85Ed929f73A960582' },
+          tokenAddresses: { weth: MAINNET_CONFIG.WETH_ADDRESS },
+          stateDir,
+        }),
+        { swap } as unknown as DexRouter
+      );
+    }
+
+    const tokenToSwap = MAINNET_CONFIG.WBTC_USDC_POOL.collateralAddress;
+    const exchangeAction: RewardAction = {
+      action: RewardActionLabel.EXCHANGE,
+      address: tokenToSwap,
+      targetToken: 'weth',
+      slippage: 1,
+      dexProvider: PostAuctionDex.ONEINCH,
+    };
+
+    async function readState(): Promise<RewardActionState> {
+      const contents = await fs.readFile(
+        getRewardActionStatePath(stateDir, 1),
+        'utf-8'
+      );
+      return JSON.parse(contents);
+    }
+
+    it('restores the queue and retry counts after a restart', async () => {
+      const failingSwap = sinon
+        .stub()
+        .resolves({ success: false, error: 'Swap failed' });
+      const first = createTracker(failingSwap);
+      await first.loadState();
+      first.addToken(exchangeAction, tokenToSwap, decimaledToWei(1));
+      await first.handleAllTokens();
+      await first.flush();
+      sinon.restore();
+
+      const swap = sinon.stub().resolves({ success: true });
+      const second = createTracker(swap);
+      await second.loadState();
+      expect(second.getPendingTokens()).to.have.length(1);
+      expect(second.getPendingTokens()[0].amountWad).to.deep.equal(
+        decimaledToWei(1)
+      );
+
+      await second.handleAllTokens();
+      await second.flush();
+      expect(swap.calledOnce).to.be.true;
+      expect(await readState()).to.deep.equal({
+        pending: {},
+        retryCounts: {},
+        deadLetters: [],
+      });
+    });
+
+    it('moves tokens to dead letters after max retries instead of dropping them', async () => {
+      const swap = sinon.stub().resolves({ success: false, error: 'No route' });
+      const et = createTracker(swap);
+      await et.loadState();
+      et.addToken(exchangeAction, tokenToSwap, decimaledToWei(2));
+      for (let i = 0; i < 4; i++) {
+        await et.handleAllTokens();
+      }
+      await et.flush();
+
+      expect(swap.callCount).to.equal(3);
+      expect(et.getPendingTokens()).to.be.empty;
+      const [deadLetter] = et.getDeadLetters();
+      expect(deadLetter).to.include({
+        id: 1,
+        amountWad: decimaledToWei(2).toString(),
+        attempts: 3,
+        reason: 'Swap via oneinch failed: No route',
+      });
+      const state = await readState();
+      expect(state.pending).to.deep.equal({});
+      expect(state.retryCounts).to.deep.equal({});
+      expect(state.deadLetters).to.deep.equal(et.getDeadLetters());
+    });
+  });
 });
@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PostAuctionDex, RewardActionLabel } from '../config-types';
+import {
+  deterministicJsonStringify,
+  RewardActionState,
+} from '../reward-action-tracker';
+import {
+  formatRewardQueue,
+  readRewardQueues,
+  requeueDeadLetters,
+} from '../reward-queue';
+
+const TOKEN = '0x0000000000000000000000000000000000000001';
+const SWAP_KEY = deterministicJsonStringify({
+  token: TOKEN,
+  action: RewardActionLabel.EXCHANGE,
+  address: TOKEN,
+  targetToken: 'weth',
+  slippage: 1,
+  dexProvider: PostAuctionDex.UNISWAP_V3,
+});
+const TRANSFER_KEY = deterministicJsonStringify({
+  token: TOKEN,
+  action: RewardActionLabel.TRANSFER,
+  to: '0x0000000000000000000000000000000000000002',
+});
+
+function createState(): RewardActionState {
+  return {
+    pending: { [SWAP_KEY]: '1000000000000000000' },
+    retryCounts: { [SWAP_KEY]: 1 },
+    deadLetters: [
+      {
+        id: 1,
+        key: SWAP_KEY,
+        amountWad: '500000000000000000',
+        reason: 'Swap via uniswap_v3 failed: No route',
+        attempts: 3,
+        failedAt: '2024-01-01T00:00:00.000Z',
+      },
+      {
+        id: 2,
+        key: TRANSFER_KEY,
+        amountWad: '2000000000000000000',
+        reason: 'transfer reverted',
+        attempts: 3,
+        failedAt: '2024-01-02T00:00:00.000Z',
+      },
+    ],
+  };
+}
+
+describe('requeueDeadLetters', () => {
+  it('adds requeued amounts to the queue and resets retries', () => {
+    const state = createState();
+    const requeued = requeueDeadLetters(state, [1]);
+
+    expect(requeued.map(({ id }) => id)).to.deep.equal([1]);
+    expect(state.pending[SWAP_KEY]).to.equal('1500000000000000000');
+    expect(state.retryCounts).to.deep.equal({});
+    expect(state.deadLetters.map(({ id }) => id)).to.deep.equal([2]);
+  });
+
+  it('requeues every dead letter when no ids are given', () => {
+    const state = createState();
+    requeueDeadLetters(state);
+
+    expect(state.deadLetters).to.be.empty;
+    expect(state.pending[TRANSFER_KEY]).to.equal('2000000000000000000');
+  });
+
+  it('ignores unknown ids', () => {
+    const state = createState();
+    expect(requeueDeadLetters(state, [7])).to.be.empty;
+    expect(state).to.deep.equal(createState());
+  });
+});
+
+describe('readRewardQueues', () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'reward-queue-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it('reads the queue of each chain and ignores other state files', async () => {
+    await fs.writeFile(
+      path.join(stateDir, 'reward-actions-8453.json'),
+      JSON.stringify(createState())
+    );
+    await fs.writeFile(
+      path.join(stateDir, 'lp-rewards-8453-0xpool.json'),
+      '{}'
+    );
+
+    const queues = await readRewardQueues(stateDir);
+
+    expect(queues).to.have.length(1);
+    expect(queues[0].chainId).to.equal(8453);
+    expect(queues[0].state).to.deep.equal(createState());
+  });
+
+  it('returns nothing if the state directory does not exist', async () => {
+    expect(await readRewardQueues(path.join(stateDir, 'missing'))).to.be.empty;
+  });
+});
+
+describe('formatRewardQueue', () => {
+  it('lists pending rewards and dead letters', () => {
+    const output = formatRewardQueue({ chainId: 1, state: createState() });
+    expect(output).to.equal(
+      [
+        'Chain 1:',
+        '  Pending (1):',
+        `    ${TOKEN} exchange to weth via uniswap_v3, amount: 1, failed attempts: 1`,
+        '  Dead letters (2):',
+        `    #1 ${TOKEN} exchange to weth via uniswap_v3, amount: 0.5, attempts: 3, failed at: 2024-01-01T00:00:00.000Z`,
+        '        reason: Swap via uniswap_v3 failed: No route',
+        `    #2 ${TOKEN} transfer to 0x0000000000000000000000000000000000000002, amount: 2, attempts: 3, failed at: 2024-01-02T00:00:00.000Z`,
+        '        reason: transfer reverted',
+      ].join('\n')
+    );
+  });
+});
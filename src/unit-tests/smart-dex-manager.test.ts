@@ -1,4 +1,5 @@
 import { expect } from 'chai';
+import { constants, providers, utils } from 'ethers';
 import sinon from 'sinon';
 import { SmartDexManager } from '../smart-dex-manager';
 import { LiquiditySource } from '../config-types';
@@ -159,6 +160,73 @@ describe('SmartDexManager', () => {
     });
   });
 
+  describe('validateDeploymentOnChain()', () => {
+    const factoryAddress = '0xB6006B9e9696a0A097D4990964D5bDa6E940ba0D';
+    const uniswapTaker = '0x81D39B4A2Be43e5655608fCcE18A0edd8906D7c7';
+    const factoryInterface = new utils.Interface([
+      'function hasConfiguredTaker(uint8 source) external view returns (bool)',
+      'function takerContracts(uint8 source) external view returns (address)',
+    ]);
+
+    /** A provider whose factory has `registered` takers, by LiquiditySource. */
+    function fakeProvider(registered: { [source: number]: string }) {
+      const provider = new providers.JsonRpcProvider('http://localhost:1');
+      sinon.stub(provider, 'getCode').resolves('0x6080');
+      sinon.stub(provider, 'call').callsFake(async (tx: any) => {
+        const parsed = factoryInterface.parseTransaction({ data: tx.data });
+        const taker = registered[parsed.args.source] ?? constants.AddressZero;
+        const result =
+          parsed.name === 'hasConfiguredTaker' ? [taker !== constants.AddressZero] : [taker];
+        return factoryInterface.encodeFunctionResult(parsed.name, result);
+      });
+      return provider;
+    }
+
+    it('should pass when every taker is registered on the factory', async () => {
+      const provider = fakeProvider({ [LiquiditySource.UNISWAPV3]: uniswapTaker });
+      const manager = new SmartDexManager(mockSigner, {
+        keeperTakerFactory: factoryAddress,
+        takerContracts: { UniswapV3: uniswapTaker },
+      });
+
+      const result = await manager.validateDeploymentOnChain(provider);
+
+      expect(result.errors).to.be.empty;
+      expect(result.valid).to.be.true;
+    });
+
+    it('should report takers which are missing or differ from the factory', async () => {
+      const provider = fakeProvider({ [LiquiditySource.UNISWAPV3]: uniswapTaker });
+      const manager = new SmartDexManager(mockSigner, {
+        keeperTakerFactory: factoryAddress,
+        takerContracts: {
+          UniswapV3: '0x1f0d51a052aa79527fffaf3108fb4440d3f53ce6',
+          SushiSwap: uniswapTaker,
+          Balancer: uniswapTaker,
+        },
+      });
+
+      const result = await manager.validateDeploymentOnChain(provider);
+
+      expect(result.valid).to.be.false;
+      expect(result.errors).to.deep.equal([
+        `takerContracts.UniswapV3 is 0x1f0d51a052aa79527fffaf3108fb4440d3f53ce6, but keeperTakerFactory uses ${uniswapTaker}`,
+        `takerContracts.SushiSwap is not registered on keeperTakerFactory ${factoryAddress}`,
+        'takerContracts.Balancer is not a known source, expected one of UniswapV3, SushiSwap, Curve',
+      ]);
+    });
+
+    it('should report a keeperTaker without contract code', async () => {
+      const provider = fakeProvider({});
+      (provider.getCode as sinon.SinonStub).resolves('0x');
+      const manager = new SmartDexManager(mockSigner, { keeperTaker: uniswapTaker });
+
+      const result = await manager.validateDeploymentOnChain(provider);
+
+      expect(result.errors).to.deep.equal([`keeperTaker ${uniswapTaker} has no contract code`]);
+    });
+  });
+
   describe('canTakeLiquidation()', () => {
     it('should return true for single deployment with valid take config', async () => {
       const config = {
@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonStateStore } from '../state-store';
+
+describe('JsonStateStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'state-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('loads undefined before anything is saved', async () => {
+    const store = new JsonStateStore(path.join(dir, 'missing.json'));
+    expect(await store.load()).to.be.undefined;
+  });
+
+  it('round trips state, creating missing directories', async () => {
+    const store = new JsonStateStore<{ a: number }>(
+      path.join(dir, 'nested', 'state.json')
+    );
+    await store.save({ a: 1 });
+    expect(await store.load()).to.deep.equal({ a: 1 });
+    expect(await fs.readdir(path.join(dir, 'nested'))).to.deep.equal([
+      'state.json',
+    ]);
+  });
+
+  it('keeps the last of several concurrent saves', async () => {
+    const store = new JsonStateStore<{ a: number }>(
+      path.join(dir, 'state.json')
+    );
+    store.saveInBackground({ a: 1 });
+    store.saveInBackground({ a: 2 });
+    store.saveInBackground({ a: 3 });
+    await store.flush();
+    expect(await store.load()).to.deep.equal({ a: 3 });
+  });
+
+  it('throws on a corrupt file rather than starting empty', async () => {
+    const filePath = path.join(dir, 'state.json');
+    await fs.writeFile(filePath, '{not json');
+    const store = new JsonStateStore(filePath);
+    await store.load().then(
+      () => expect.fail('should have thrown'),
+      (error) => expect(error).to.be.instanceOf(SyntaxError)
+    );
+  });
+});
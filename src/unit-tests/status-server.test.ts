@@ -0,0 +1,112 @@
+import { FungiblePool, Signer } from '@ajna-finance/sdk';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import http from 'http';
+import sinon from 'sinon';
+import { KeeperStatus } from '../keeper-status';
+import { NonceTracker } from '../nonce';
+import { StatusServer } from '../status-server';
+import subgraph from '../subgraph';
+
+function get(port: number, path: string, method = 'GET') {
+  return new Promise<{ statusCode: number; body: any }>((resolve, reject) => {
+    const req = http.request({ port, path, method }, (res) => {
+      let data = '';
+      res.on('data', (chunk) => (data += chunk));
+      res.on('end', () =>
+        resolve({ statusCode: res.statusCode!, body: JSON.parse(data) })
+      );
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+describe('StatusServer', () => {
+  let now: number;
+  let status: KeeperStatus;
+  let server: StatusServer;
+  let port: number;
+
+  beforeEach(async () => {
+    NonceTracker.clearNonces();
+    now = Date.now();
+    status = new KeeperStatus(() => now);
+    const signer = {
+      getAddress: async () => '0xKeeper',
+      getBalance: async () => BigNumber.from('1500000000000000000'),
+      getTransactionCount: async () => 7,
+    } as unknown as Signer;
+    const pool = {
+      name: 'WETH / USDC',
+      poolAddress: '0xPool',
+    } as unknown as FungiblePool;
+    server = new StatusServer({
+      port: 0,
+      status,
+      poolMap: new Map([['0xPool', pool]]),
+      signer,
+      config: { subgraphUrl: 'http://subgraph', dryRun: true },
+    });
+    await server.start();
+    port = server.getPort();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    sinon.restore();
+  });
+
+  it('reports 200 from /healthz while loops are fresh', async () => {
+    status.registerLoop('kick', 10);
+    status.recordLoopIteration('kick');
+    const { statusCode, body } = await get(port, '/healthz');
+    expect(statusCode).to.equal(200);
+    expect(body.healthy).to.be.true;
+    expect(body.loops.kick.healthy).to.be.true;
+  });
+
+  it('reports 503 from /healthz when a loop is stale', async () => {
+    status.registerLoop('take', 10);
+    now += 61_000;
+    const { statusCode, body } = await get(port, '/healthz');
+    expect(statusCode).to.equal(503);
+    expect(body.loops.take.healthy).to.be.false;
+  });
+
+  it('reports signer and pool outcomes from /status', async () => {
+    status.recordPoolOutcome('0xPool', 'WETH / USDC', 'kick');
+    const { statusCode, body } = await get(port, '/status');
+    expect(statusCode).to.equal(200);
+    expect(body.dryRun).to.be.true;
+    expect(body.signer).to.deep.equal({
+      address: '0xKeeper',
+      balance: 1.5,
+      nonce: { tracked: null, pending: 7 },
+    });
+    expect(body.pools['0xpool'].outcomes.kick.success).to.be.true;
+  });
+
+  it('reports loan and auction counts from /pools and caches them', async () => {
+    const getLoans = sinon
+      .stub(subgraph, 'getLoans')
+      .resolves({ loans: [{}, {}] } as any);
+    sinon
+      .stub(subgraph, 'getUnsettledAuctions')
+      .resolves({ liquidationAuctions: [{}] } as any);
+
+    const { statusCode, body } = await get(port, '/pools');
+    expect(statusCode).to.equal(200);
+    expect(body.pools).to.deep.equal([
+      { name: 'WETH / USDC', address: '0xPool', loans: 2, activeAuctions: 1 },
+    ]);
+
+    await get(port, '/pools');
+    expect(getLoans.calledOnce).to.be.true;
+  });
+
+  it('rejects unknown paths and methods', async () => {
+    expect((await get(port, '/nope')).statusCode).to.equal(404);
+    expect((await get(port, '/healthz', 'POST')).statusCode).to.equal(405);
+  });
+});
@@ -0,0 +1,103 @@
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import * as graphqlRequest from 'graphql-request';
+import sinon from 'sinon';
+import { SubgraphEndpoints } from '../subgraph-endpoints';
+
+chai.use(chaiAsPromised);
+
+const STALE = 'https://stale.test/api/secret-key/subgraph';
+const FRESH = 'https://fresh.test/api/secret-key/subgraph';
+const DOWN = 'https://down.test/subgraph';
+
+describe('SubgraphEndpoints', () => {
+  let requestStub: sinon.SinonStub;
+  let indexedBlocks: { [url: string]: number };
+
+  beforeEach(() => {
+    indexedBlocks = { [STALE]: 900, [FRESH]: 1000 };
+    requestStub = sinon
+      .stub(graphqlRequest, 'request')
+      .callsFake(async (url: any, document: any) => {
+        if (!(url in indexedBlocks)) throw new Error('ECONNREFUSED');
+        if (String(document).includes('_meta')) {
+          return { _meta: { block: { number: indexedBlocks[url] } } };
+        }
+        return { url };
+      });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('sends queries to the endpoint which has indexed the most blocks', async () => {
+    const endpoints = new SubgraphEndpoints([STALE, FRESH]);
+
+    expect(await endpoints.request('{ loans { id } }')).to.deep.equal({
+      url: FRESH,
+    });
+    expect(await endpoints.getIndexedBlockNumber()).to.equal(1000);
+  });
+
+  it('fails over to the next endpoint when a query fails', async () => {
+    const endpoints = new SubgraphEndpoints([FRESH, STALE]);
+    await endpoints.getIndexedBlockNumber();
+    delete indexedBlocks[FRESH];
+
+    expect(await endpoints.request('{ loans { id } }')).to.deep.equal({
+      url: STALE,
+    });
+    const [fresh, stale] = endpoints.getStatus();
+    expect(fresh.healthy).to.be.false;
+    expect(fresh.lastError).to.contain('ECONNREFUSED');
+    expect(stale.inUse).to.be.true;
+  });
+
+  it('throws the last error when every endpoint fails', async () => {
+    const endpoints = new SubgraphEndpoints([DOWN, DOWN]);
+
+    await expect(endpoints.request('{ loans { id } }')).to.be.rejectedWith(
+      'ECONNREFUSED'
+    );
+    await expect(endpoints.getIndexedBlockNumber()).to.be.rejectedWith(
+      'No subgraph endpoint is reachable'
+    );
+  });
+
+  it('reports endpoint status without exposing urls', async () => {
+    const endpoints = new SubgraphEndpoints([STALE, DOWN, FRESH]);
+    await endpoints.request('{ loans { id } }');
+
+    const status = endpoints.getStatus();
+    expect(
+      status.map(({ name, inUse, healthy, indexedBlock }) => ({
+        name,
+        inUse,
+        healthy,
+        indexedBlock,
+      }))
+    ).to.deep.equal([
+      {
+        name: '#1 (stale.test)',
+        inUse: false,
+        healthy: true,
+        indexedBlock: 900,
+      },
+      {
+        name: '#2 (down.test)',
+        inUse: false,
+        healthy: false,
+        indexedBlock: null,
+      },
+      {
+        name: '#3 (fresh.test)',
+        inUse: true,
+        healthy: true,
+        indexedBlock: 1000,
+      },
+    ]);
+    expect(JSON.stringify(status)).not.to.contain('secret-key');
+    expect(requestStub.callCount).to.equal(4);
+  });
+});
@@ -0,0 +1,306 @@
+import { expect } from 'chai';
+import { BigNumber, constants, utils } from 'ethers';
+import * as graphqlRequest from 'graphql-request';
+import sinon from 'sinon';
+import { CollateralType } from '../config-types';
+import subgraph, { configureSubgraphFallback } from '../subgraph';
+import { SubgraphFallback } from '../subgraph-fallback';
+
+const POOL_ADDRESS = '0x1f0d51a052aa79527fffaf3108fb4440d3f53ce6';
+const [ALICE, BOB, CAROL, DAVE] = [
+  '0x0000000000000000000000000000000000000A11',
+  '0x0000000000000000000000000000000000000B0B',
+  '0x0000000000000000000000000000000000000CA1',
+  '0x0000000000000000000000000000000000000DA5',
+].map((address) => utils.getAddress(address.toLowerCase()));
+
+const poolInterface = new utils.Interface([
+  'event DrawDebt(address indexed borrower, uint256 amountBorrowed, uint256 collateralPledged, uint256 lup)',
+  'event Kick(address indexed borrower, uint256 debt, uint256 collateral, uint256 bond)',
+  'event Take(address indexed borrower, uint256 amount, uint256 collateral, uint256 bondChange, bool isReward)',
+  'event BucketTake(address indexed borrower, uint256 index, uint256 amount, uint256 collateral, uint256 bondChange, bool isReward)',
+  'event Settle(address indexed borrower, uint256 settledDebt)',
+  'event AuctionSettle(address indexed borrower, uint256 collateral)',
+]);
+
+const nftPoolInterface = new utils.Interface([
+  'event DrawDebtNFT(address indexed borrower, uint256 amountBorrowed, uint256[] tokenIdsPledged, uint256 lup)',
+  'event Kick(address indexed borrower, uint256 debt, uint256 collateral, uint256 bond)',
+  'event Take(address indexed borrower, uint256 amount, uint256 collateral, uint256 bondChange, bool isReward)',
+  'event BucketTake(address indexed borrower, uint256 index, uint256 amount, uint256 collateral, uint256 bondChange, bool isReward)',
+  'event Settle(address indexed borrower, uint256 settledDebt)',
+  'event AuctionNFTSettle(address indexed borrower, uint256 collateral, uint256 lp, uint256 index)',
+]);
+
+function makeLog(
+  name: string,
+  args: any[],
+  eventInterface: utils.Interface = poolInterface
+) {
+  return {
+    address: POOL_ADDRESS,
+    ...eventInterface.encodeEventLog(eventInterface.getEvent(name), args),
+  };
+}
+
+const wad = (value: number) => utils.parseEther(value.toString());
+
+describe('SubgraphFallback', () => {
+  let provider: { getBlockNumber: sinon.SinonStub; getLogs: sinon.SinonStub };
+  let pool: any;
+  let fallback: SubgraphFallback;
+
+  beforeEach(() => {
+    provider = {
+      getBlockNumber: sinon.stub().resolves(7000),
+      getLogs: sinon.stub().resolves([]),
+    };
+    pool = {
+      name: 'Test Pool',
+      poolAddress: POOL_ADDRESS,
+      contract: { interface: poolInterface, auctionInfo: sinon.stub() },
+      getLoans: sinon.stub().resolves(new Map()),
+      getLiquidation: sinon.stub(),
+      getPrices: sinon.stub().resolves({ hpb: wad(10), hpbIndex: 4000 }),
+    };
+    fallback = new SubgraphFallback(
+      provider as any,
+      new Map([[POOL_ADDRESS, pool]]),
+      { maxLagBlocks: 50, fromBlock: 0 }
+    );
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe('shouldUseFallback', () => {
+    it('switches when the subgraph lags the RPC head by more than maxLagBlocks', async () => {
+      sinon.stub(subgraph, 'getIndexedBlockNumber').resolves(6900);
+      expect(await fallback.shouldUseFallback('url')).to.be.true;
+    });
+
+    it('stays on the subgraph while it keeps up', async () => {
+      const indexed = sinon
+        .stub(subgraph, 'getIndexedBlockNumber')
+        .resolves(6950);
+      expect(await fallback.shouldUseFallback('url')).to.be.false;
+      expect(await fallback.shouldUseFallback('url')).to.be.false;
+      expect(indexed.calledOnce).to.be.true;
+    });
+
+    it('switches when the subgraph is unreachable', async () => {
+      sinon
+        .stub(subgraph, 'getIndexedBlockNumber')
+        .rejects(new Error('ECONNREFUSED'));
+      expect(await fallback.shouldUseFallback('url')).to.be.true;
+    });
+
+    it('stays on the subgraph when the RPC head cannot be read', async () => {
+      provider.getBlockNumber.rejects(new Error('RPC down'));
+      const indexed = sinon.stub(subgraph, 'getIndexedBlockNumber');
+      expect(await fallback.shouldUseFallback('url')).to.be.false;
+      expect(indexed.called).to.be.false;
+    });
+  });
+
+  describe('getLoans', () => {
+    it('reads loans of borrowers found in DrawDebt events which are not in auction', async () => {
+      provider.getLogs.resolves([
+        makeLog('DrawDebt', [ALICE, wad(1), wad(1), wad(1)]),
+        makeLog('DrawDebt', [BOB, wad(1), wad(1), wad(1)]),
+        makeLog('DrawDebt', [CAROL, wad(1), wad(1), wad(1)]),
+        makeLog('Kick', [BOB, wad(2), wad(1), wad(0.1)]),
+      ]);
+      pool.getLoans.resolves(
+        new Map([
+          [ALICE, { debt: wad(5), thresholdPrice: wad(1.5), isKicked: false }],
+          [CAROL, { debt: constants.Zero, thresholdPrice: constants.Zero }],
+        ])
+      );
+
+      const { loans } = await fallback.getLoans(POOL_ADDRESS);
+
+      expect(pool.getLoans.firstCall.args[0]).to.deep.equal([ALICE, CAROL]);
+      expect(loans).to.deep.equal([{ borrower: ALICE, thresholdPrice: 1.5 }]);
+      // Repaid borrowers are not read again.
+      await fallback.getLoans(POOL_ADDRESS);
+      expect(pool.getLoans.secondCall.args[0]).to.deep.equal([ALICE]);
+    });
+
+    it('scans new blocks only, in chunks', async () => {
+      await fallback.getLoans(POOL_ADDRESS);
+      provider.getBlockNumber.resolves(7100);
+      await fallback.getLoans(POOL_ADDRESS);
+
+      const ranges = provider.getLogs
+        .getCalls()
+        .map(({ args }) => [args[0].fromBlock, args[0].toBlock]);
+      expect(ranges).to.deep.equal([
+        [0, 4999],
+        [5000, 7000],
+        [7001, 7100],
+      ]);
+    });
+  });
+
+  describe('getUnsettledAuctions', () => {
+    it('returns indexed auctions which are still active on-chain', async () => {
+      provider.getLogs.resolves([
+        makeLog('Kick', [ALICE, wad(2), wad(1), wad(0.1)]),
+        // Kicked before fromBlock, so only seen through a take.
+        makeLog('Take', [BOB, wad(1), wad(0.5), wad(0), false]),
+        makeLog('Kick', [CAROL, wad(3), wad(1), wad(0.1)]),
+        makeLog('AuctionSettle', [CAROL, wad(0)]),
+        makeLog('Settle', [DAVE, wad(1)]),
+      ]);
+      pool.contract.auctionInfo.callsFake(async (borrower: string) => ({
+        kickTime_: BigNumber.from(borrower === DAVE ? 0 : 1700000000),
+        neutralPrice_: wad(2.5),
+      }));
+      pool.getLiquidation.returns({
+        getStatus: sinon
+          .stub()
+          .resolves({ collateral: wad(0.5), debtToCover: wad(1.25) }),
+      });
+
+      const { liquidationAuctions } =
+        await fallback.getUnsettledAuctions(POOL_ADDRESS);
+
+      expect(liquidationAuctions).to.deep.equal([
+        {
+          borrower: ALICE,
+          kickTime: '1700000000',
+          debtRemaining: '1.25',
+          collateralRemaining: '0.5',
+          neutralPrice: '2.5',
+          debt: '2',
+          collateral: '1',
+        },
+        {
+          borrower: BOB,
+          kickTime: '1700000000',
+          debtRemaining: '1.25',
+          collateralRemaining: '0.5',
+          neutralPrice: '2.5',
+          debt: '1.25',
+          collateral: '0.5',
+        },
+      ]);
+    });
+
+    it('filters liquidations by remaining collateral', async () => {
+      provider.getLogs.resolves([
+        makeLog('Kick', [ALICE, wad(2), wad(1), wad(0.1)]),
+        makeLog('Kick', [BOB, wad(2), wad(1), wad(0.1)]),
+      ]);
+      pool.contract.auctionInfo.resolves({
+        kickTime_: BigNumber.from(1),
+        neutralPrice_: wad(1),
+      });
+      pool.getLiquidation.callsFake((borrower: string) => ({
+        getStatus: async () => ({
+          collateral: wad(borrower === ALICE ? 0.01 : 1),
+          debtToCover: wad(1),
+        }),
+      }));
+
+      const result = await fallback.getLiquidations(POOL_ADDRESS, 0.1);
+
+      expect(result).to.deep.equal({
+        pool: {
+          hpb: 10,
+          hpbIndex: 4000,
+          liquidationAuctions: [{ borrower: BOB }],
+        },
+      });
+    });
+  });
+
+  describe('ERC721 pools', () => {
+    beforeEach(() => {
+      pool.contract.interface = nftPoolInterface;
+      fallback = new SubgraphFallback(
+        provider as any,
+        new Map([[POOL_ADDRESS, pool]]),
+        { maxLagBlocks: 50, fromBlock: 0 },
+        {
+          pools: [
+            {
+              name: 'Test Pool',
+              address: POOL_ADDRESS,
+              collateralType: CollateralType.ERC721,
+            } as any,
+          ],
+        }
+      );
+    });
+
+    it('indexes borrowers and auctions from the NFT events', async () => {
+      const nftLog = (name: string, args: any[]) =>
+        makeLog(name, args, nftPoolInterface);
+      provider.getLogs.resolves([
+        nftLog('DrawDebtNFT', [ALICE, wad(1), [1, 2], wad(1)]),
+        nftLog('DrawDebtNFT', [BOB, wad(1), [3], wad(1)]),
+        nftLog('Kick', [BOB, wad(2), wad(1), wad(0.1)]),
+        nftLog('AuctionNFTSettle', [BOB, wad(0), wad(0), 4000]),
+      ]);
+      pool.getLoans.resolves(
+        new Map([
+          [ALICE, { debt: wad(5), thresholdPrice: wad(1.5), isKicked: false }],
+        ])
+      );
+
+      const { loans } = await fallback.getLoans(POOL_ADDRESS);
+
+      const [topics] = provider.getLogs.firstCall.args[0].topics;
+      expect(topics).to.include(nftPoolInterface.getEventTopic('DrawDebtNFT'));
+      expect(topics).to.include(
+        nftPoolInterface.getEventTopic('AuctionNFTSettle')
+      );
+      // BOB's auction was settled, so the loan is read again.
+      expect(pool.getLoans.firstCall.args[0]).to.deep.equal([ALICE, BOB]);
+      expect(loans).to.deep.equal([{ borrower: ALICE, thresholdPrice: 1.5 }]);
+    });
+  });
+});
+
+describe('subgraph with a fallback configured', () => {
+  let fallback: any;
+
+  beforeEach(() => {
+    fallback = {
+      shouldUseFallback: sinon.stub().resolves(false),
+      markUnhealthy: sinon.stub(),
+      getLoans: sinon.stub().resolves({ loans: [{ borrower: ALICE }] }),
+    };
+    configureSubgraphFallback(fallback);
+  });
+
+  afterEach(() => {
+    configureSubgraphFallback(undefined);
+    sinon.restore();
+  });
+
+  it('queries the subgraph while it is healthy', async () => {
+    sinon.stub(graphqlRequest, 'request').resolves({ loans: [] });
+    const result = await subgraph.getLoans('url', POOL_ADDRESS);
+    expect(result).to.deep.equal({ loans: [] });
+    expect(fallback.getLoans.called).to.be.false;
+  });
+
+  it('answers from the chain while the subgraph is unhealthy', async () => {
+    const request = sinon.stub(graphqlRequest, 'request');
+    fallback.shouldUseFallback.resolves(true);
+    const result = await subgraph.getLoans('url', POOL_ADDRESS);
+    expect(result.loans[0].borrower).to.equal(ALICE);
+    expect(request.called).to.be.false;
+  });
+
+  it('retries a failed subgraph query on-chain', async () => {
+    sinon.stub(graphqlRequest, 'request').rejects(new Error('502'));
+    const result = await subgraph.getLoans('url', POOL_ADDRESS);
+    expect(result.loans[0].borrower).to.equal(ALICE);
+    expect(fallback.markUnhealthy.calledOnce).to.be.true;
+  });
+});
@@ -0,0 +1,162 @@
+import { expect } from 'chai';
+import * as graphqlRequest from 'graphql-request';
+import sinon from 'sinon';
+import subgraph, { PAGE_SIZE } from '../subgraph';
+
+const SUBGRAPH_URL = 'http://subgraph.test';
+const POOL_ADDRESS = '0xAbCdEf0000000000000000000000000000000001';
+
+function makeIds(count: number, offset = 0): string[] {
+  return Array.from(
+    { length: count },
+    (_, i) => '0x' + (offset + i).toString(16).padStart(8, '0')
+  );
+}
+
+describe('subgraph', () => {
+  let requestStub: sinon.SinonStub;
+
+  beforeEach(() => {
+    requestStub = sinon.stub(graphqlRequest, 'request');
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('declares variables with the subgraph schema types', async () => {
+    requestStub.resolves({
+      loans: [],
+      pool: { hpb: 10, hpbIndex: 4000, liquidationAuctions: [] },
+      liquidationAuctions: [],
+    });
+
+    await subgraph.getLoans(SUBGRAPH_URL, POOL_ADDRESS);
+    await subgraph.getLiquidations(SUBGRAPH_URL, POOL_ADDRESS, 0.5);
+    await subgraph.getUnsettledAuctions(SUBGRAPH_URL, POOL_ADDRESS);
+
+    const [loans, liquidations, unsettled] = requestStub
+      .getCalls()
+      .map(({ args }) => String(args[1]));
+    expect(loans).to.include('$lastId: Bytes!');
+    expect(liquidations).to.include('$poolId: ID!');
+    expect(liquidations).to.include('$lastId: Bytes!');
+    expect(unsettled).to.include('$lastId: Bytes!');
+  });
+
+  describe('getLoans', () => {
+    it('follows the id cursor until a page comes back short', async () => {
+      const firstPage = makeIds(PAGE_SIZE);
+      const secondPage = makeIds(3, PAGE_SIZE);
+      requestStub
+        .onFirstCall()
+        .resolves({
+          loans: firstPage.map((id) => ({
+            id,
+            borrower: id,
+            thresholdPrice: 1,
+          })),
+        })
+        .onSecondCall()
+        .resolves({
+          loans: secondPage.map((id) => ({
+            id,
+            borrower: id,
+            thresholdPrice: 1,
+          })),
+        });
+
+      const { loans } = await subgraph.getLoans(SUBGRAPH_URL, POOL_ADDRESS);
+
+      expect(loans).to.have.length(PAGE_SIZE + 3);
+      expect(requestStub.callCount).to.equal(2);
+      expect(requestStub.firstCall.args[2]).to.deep.equal({
+        poolAddress: POOL_ADDRESS.toLowerCase(),
+        first: PAGE_SIZE,
+        lastId: '0x',
+      });
+      expect(requestStub.secondCall.args[2].lastId).to.equal(
+        firstPage[PAGE_SIZE - 1]
+      );
+    });
+
+    it('makes one request when the first page is not full', async () => {
+      requestStub.resolves({ loans: [] });
+
+      const { loans } = await subgraph.getLoans(SUBGRAPH_URL, POOL_ADDRESS);
+
+      expect(loans).to.be.empty;
+      expect(requestStub.calledOnce).to.be.true;
+    });
+  });
+
+  describe('getLiquidations', () => {
+    it('pages through auctions and keeps the pool fields', async () => {
+      const firstPage = makeIds(PAGE_SIZE);
+      requestStub
+        .onFirstCall()
+        .resolves({
+          pool: {
+            hpb: 10,
+            hpbIndex: 4000,
+            liquidationAuctions: firstPage.map((id) => ({ id, borrower: id })),
+          },
+        })
+        .onSecondCall()
+        .resolves({
+          pool: {
+            hpb: 10,
+            hpbIndex: 4000,
+            liquidationAuctions: [{ id: '0xffffffff', borrower: '0xb' }],
+          },
+        });
+
+      const { pool } = await subgraph.getLiquidations(
+        SUBGRAPH_URL,
+        POOL_ADDRESS,
+        0.5
+      );
+
+      expect(pool.hpbIndex).to.equal(4000);
+      expect(pool.liquidationAuctions).to.have.length(PAGE_SIZE + 1);
+      expect(requestStub.secondCall.args[2]).to.deep.equal({
+        poolId: POOL_ADDRESS.toLowerCase(),
+        minCollateral: '0.5',
+        first: PAGE_SIZE,
+        lastId: firstPage[PAGE_SIZE - 1],
+      });
+    });
+  });
+
+  describe('getUnsettledAuctions', () => {
+    it('pages through unsettled auctions', async () => {
+      const ids = makeIds(PAGE_SIZE * 2 + 1);
+      const auction = (id: string) => ({
+        id,
+        borrower: id,
+        kickTime: '1',
+        debtRemaining: '1',
+        collateralRemaining: '1',
+        neutralPrice: '1',
+        debt: '1',
+        collateral: '1',
+      });
+      requestStub.callsFake(async (_url, _query, { lastId }) => ({
+        liquidationAuctions: ids
+          .filter((id) => id > lastId)
+          .slice(0, PAGE_SIZE)
+          .map(auction),
+      }));
+
+      const { liquidationAuctions } = await subgraph.getUnsettledAuctions(
+        SUBGRAPH_URL,
+        POOL_ADDRESS
+      );
+
+      expect(liquidationAuctions.map(({ borrower }) => borrower)).to.deep.equal(
+        ids
+      );
+      expect(requestStub.callCount).to.equal(3);
+    });
+  });
+});
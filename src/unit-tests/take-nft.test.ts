@@ -0,0 +1,150 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import sinon from 'sinon';
+import { CollateralType, PriceOriginSource } from '../config-types';
+import * as erc20 from '../erc20';
+import { logger } from '../logging';
+import subgraph from '../subgraph';
+import {
+  getNftsToTake,
+  getReceivedTokenIds,
+  handleNftTakes,
+} from '../take-nft';
+import * as transactions from '../transactions';
+
+const wad = (value: number) => utils.parseEther(value.toString());
+
+const COLLECTION = '0x0000000000000000000000000000000000000721';
+const KEEPER = '0x000000000000000000000000000000000000beef';
+const POOL = '0x000000000000000000000000000000000000a7a1';
+
+const transferEvents = new utils.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+]);
+
+const transferLog = (address: string, to: string, tokenId: number) => ({
+  address,
+  ...transferEvents.encodeEventLog(transferEvents.getEvent('Transfer'), [
+    POOL,
+    to,
+    tokenId,
+  ]),
+});
+
+describe('getNftsToTake', () => {
+  it('takes every whole NFT when the debt is larger than their value', () => {
+    expect(getNftsToTake(wad(3), wad(100), wad(10))).to.equal(3);
+  });
+
+  it('rounds the collateral covering the debt up to a whole NFT', () => {
+    // 1.2 NFTs cover the debt, the taker pays for 2.
+    expect(getNftsToTake(wad(3), wad(12), wad(10))).to.equal(2);
+    expect(getNftsToTake(wad(3), wad(20), wad(10))).to.equal(2);
+  });
+
+  it('leaves a fraction of an NFT to settlement', () => {
+    expect(getNftsToTake(wad(2.5), wad(100), wad(10))).to.equal(2);
+    expect(getNftsToTake(wad(0.5), wad(100), wad(10))).to.equal(0);
+  });
+});
+
+describe('getReceivedTokenIds', () => {
+  it('returns the ids of the NFTs transferred to the keeper', () => {
+    const erc20Transfer = {
+      address: COLLECTION,
+      topics: [
+        utils.id('Transfer(address,address,uint256)'),
+        utils.hexZeroPad(POOL, 32),
+        utils.hexZeroPad(KEEPER, 32),
+      ],
+      data: utils.hexZeroPad('0x01', 32),
+    };
+    const receipt: any = {
+      logs: [
+        transferLog(COLLECTION, KEEPER, 7),
+        transferLog(COLLECTION, POOL, 8),
+        transferLog(POOL, KEEPER, 9),
+        erc20Transfer,
+        transferLog(COLLECTION, KEEPER.toUpperCase().replace('0X', '0x'), 11),
+      ],
+    };
+
+    expect(getReceivedTokenIds(receipt, COLLECTION, KEEPER)).to.deep.equal([
+      '7',
+      '11',
+    ]);
+  });
+});
+
+describe('handleNftTakes', () => {
+  const BORROWER = '0x0000000000000000000000000000000000000b0b';
+  let approve: sinon.SinonStub;
+
+  beforeEach(() => {
+    sinon.stub(logger, 'info');
+    sinon.stub(subgraph, 'getLiquidations').resolves({
+      pool: {
+        hpb: 10,
+        hpbIndex: 4000,
+        liquidationAuctions: [{ borrower: BORROWER }],
+      },
+    } as any);
+    sinon.stub(erc20, 'getBalanceOfErc20').resolves(wad(1000));
+    sinon.stub(erc20, 'getDecimalsErc20').resolves(18);
+    sinon.stub(erc20, 'getAllowanceOfErc20').resolves(BigNumber.from(0));
+    approve = sinon.stub(transactions, 'poolQuoteApprove');
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('does not approve quote for a take which is unprofitable after gas', async () => {
+    const pool: any = {
+      name: 'Test Pool',
+      poolAddress: POOL,
+      quoteAddress: '0x00000000000000000000000000000000000000aa',
+      collateralAddress: COLLECTION,
+      contract: {
+        connect: () => ({ estimateGas: { take: sinon.stub().rejects() } }),
+      },
+      getLiquidation: () => ({
+        getStatus: async () => ({
+          price: wad(90),
+          collateral: wad(2),
+          debtToCover: wad(500),
+        }),
+      }),
+    };
+    // 2 NFTs at 90 against a price of 100 make 20, less than minProfit.
+    const poolConfig: any = {
+      name: 'Test Pool',
+      collateralType: CollateralType.ERC721,
+      price: { source: PriceOriginSource.FIXED, value: 100 },
+      take: {
+        marketPriceFactor: 0.95,
+        minProfit: 50,
+        nativeTokenPrice: { source: PriceOriginSource.FIXED, value: 1 },
+      },
+    };
+    const signer: any = {
+      getAddress: async () => KEEPER,
+      getChainId: async () => 1,
+      getGasPrice: async () => utils.parseUnits('50', 'gwei'),
+    };
+
+    await handleNftTakes({
+      pool,
+      poolConfig,
+      signer,
+      config: {
+        dryRun: false,
+        subgraphUrl: 'url',
+        delayBetweenActions: 0,
+        tokenAddresses: {},
+      } as any,
+    });
+
+    expect(approve.called).to.be.false;
+  });
+});
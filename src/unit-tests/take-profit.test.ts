@@ -0,0 +1,145 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import sinon from 'sinon';
+import { PriceOriginSource } from '../config-types';
+import {
+  findPartialTake,
+  getArbTakeCollateral,
+  getTakeProfit,
+  isProfitableAfterGas,
+} from '../take-profit';
+
+const WETH = '0x4200000000000000000000000000000000000006';
+const USDC = '0x833589fcd6edb6e08f4c3c32d4f71b54bda02913';
+const wad = (value: number) => utils.parseEther(value.toString());
+
+describe('take profit', () => {
+  let signer: any;
+  let estimateGas: sinon.SinonStub;
+
+  beforeEach(() => {
+    // 200k gas at 50 gwei costs 0.01 of the native token.
+    signer = {
+      getGasPrice: sinon.stub().resolves(utils.parseUnits('50', 'gwei')),
+      getChainId: sinon.stub().resolves(8453),
+    };
+    estimateGas = sinon.stub().resolves(BigNumber.from(200000));
+  });
+
+  const check = (take: object, quoteAddress: string, expectedProfit: number) =>
+    isProfitableAfterGas({
+      pool: { name: 'Test Pool', quoteAddress } as any,
+      poolConfig: { take } as any,
+      signer,
+      config: { tokenAddresses: { weth: WETH } },
+      action: 'take',
+      expectedProfit,
+      estimateGas,
+    });
+
+  it('values a take at the difference between market and auction price', () => {
+    expect(getTakeProfit(wad(2), wad(1.5), 1.6)).to.be.closeTo(0.2, 1e-9);
+  });
+
+  it('does not estimate gas without a minimum profit', async () => {
+    expect(await check({}, WETH, -1)).to.be.true;
+    expect(estimateGas.called).to.be.false;
+  });
+
+  it('subtracts gas paid in the quote token when it is the wrapped native token', async () => {
+    expect(await check({ minProfit: 0.005 }, WETH, 0.02)).to.be.true;
+    expect(await check({ minProfit: 0.005 }, WETH, 0.014)).to.be.false;
+  });
+
+  it('converts gas to quote token with the native token price', async () => {
+    const nativeTokenPrice = { source: PriceOriginSource.FIXED, value: 2000 };
+
+    // Gas costs 20 quote token.
+    expect(await check({ minProfit: 5, nativeTokenPrice }, USDC, 30)).to.be
+      .true;
+    expect(await check({ minProfit: 5, nativeTokenPrice }, USDC, 24)).to.be
+      .false;
+  });
+
+  it('checks the minimum profit in USD', async () => {
+    const take = {
+      minProfitUsd: 10,
+      quoteUsdPrice: { source: PriceOriginSource.FIXED, value: 2000 },
+    };
+
+    expect(await check(take, WETH, 0.016)).to.be.true;
+    expect(await check(take, WETH, 0.014)).to.be.false;
+  });
+
+  it('skips a take whose gas estimate fails', async () => {
+    estimateGas.rejects(new Error('execution reverted'));
+
+    expect(await check({ minProfit: 0 }, WETH, 1)).to.be.false;
+  });
+
+  it('skips a take when gas cannot be priced in the quote token', async () => {
+    expect(await check({ minProfit: 0 }, USDC, 100)).to.be.false;
+  });
+});
+
+describe('getArbTakeCollateral', () => {
+  const pool = (deposit: number): any => ({
+    getBucketByIndex: () => ({
+      price: wad(2000),
+      getStatus: async () => ({ deposit: wad(deposit) }),
+    }),
+  });
+
+  it("caps the collateral at what the bucket's deposit covers", async () => {
+    const collateral = await getArbTakeCollateral(pool(1000), 3000, wad(5));
+    expect(collateral.eq(wad(0.5))).to.be.true;
+  });
+
+  it('takes all the collateral from a deep bucket', async () => {
+    const collateral = await getArbTakeCollateral(pool(1e6), 3000, wad(5));
+    expect(collateral.eq(wad(5))).to.be.true;
+  });
+});
+
+describe('findPartialTake', () => {
+  // The quote for up to 30 collateral clears marketPriceFactor.
+  const isTakeable = sinon.spy(async (amount: BigNumber) => ({
+    isTakeable: amount.lte(wad(30)),
+    marketPrice: amount.lte(wad(30)) ? 2 : 1,
+  }));
+
+  afterEach(() => {
+    isTakeable.resetHistory();
+  });
+
+  it('binary searches for the largest takeable amount', async () => {
+    const partialTake = await findPartialTake(
+      { partialTakeSteps: 6 },
+      wad(100),
+      isTakeable
+    );
+
+    // 50, 25, 37.5, 31.25, 28.125, 29.6875
+    expect(isTakeable.callCount).to.equal(6);
+    expect(partialTake).to.deep.equal({
+      collateral: wad(29.6875),
+      marketPrice: 2,
+    });
+  });
+
+  it('does not try amounts below minCollateral', async () => {
+    const partialTake = await findPartialTake(
+      { partialTakeSteps: 6, minCollateral: 40 },
+      wad(100),
+      isTakeable
+    );
+
+    expect(isTakeable.callCount).to.equal(1);
+    expect(partialTake).to.be.undefined;
+  });
+
+  it('is off without partialTakeSteps', async () => {
+    expect(await findPartialTake({}, wad(100), isTakeable)).to.be.undefined;
+    expect(isTakeable.called).to.be.false;
+  });
+});
@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import sinon from 'sinon';
+import { logger } from '../logging';
+import {
+  getAuctionPrice,
+  getSecondsToReachPrice,
+  scheduleTake,
+  TakeSchedule,
+  takeSchedule,
+} from '../take-schedule';
+
+const POOL = '0x000000000000000000000000000000000000a7a1';
+const BORROWER = '0x0000000000000000000000000000000000000b0b';
+const HOUR = 60 * 60;
+
+describe('getAuctionPrice', () => {
+  it('follows the halving schedule from 256 times the reference price', () => {
+    expect(getAuctionPrice(10, 0)).to.equal(2560);
+    expect(getAuctionPrice(10, 20 * 60)).to.equal(1280);
+    expect(getAuctionPrice(10, 2 * HOUR)).to.equal(40);
+    expect(getAuctionPrice(10, 4 * HOUR)).to.equal(20);
+    expect(getAuctionPrice(10, 14 * HOUR)).to.equal(0.625);
+    expect(getAuctionPrice(10, 15 * HOUR)).to.equal(0.3125);
+  });
+});
+
+describe('getSecondsToReachPrice', () => {
+  it('inverts the auction price curve', () => {
+    for (const elapsed of [600, 3 * HOUR, 20 * HOUR]) {
+      const price = getAuctionPrice(10, elapsed);
+      expect(getSecondsToReachPrice(10, price)).to.be.closeTo(elapsed, 1);
+    }
+  });
+
+  it('is immediate above the starting price and never for a zero price', () => {
+    expect(getSecondsToReachPrice(10, 5000)).to.equal(0);
+    expect(getSecondsToReachPrice(10, 0)).to.equal(Infinity);
+  });
+});
+
+describe('TakeSchedule', () => {
+  it('hands out the pools of due checks once', () => {
+    const schedule = new TakeSchedule();
+    schedule.schedule(POOL, BORROWER, 100);
+    schedule.schedule(POOL, BORROWER, 200);
+    schedule.schedule('0xother', BORROWER, 150);
+
+    expect(schedule.nextTime).to.equal(150);
+    expect(Array.from(schedule.takeDue(160))).to.deep.equal(['0xother']);
+    expect(Array.from(schedule.takeDue(160))).to.deep.equal([]);
+    expect(schedule.nextTime).to.equal(200);
+    expect(Array.from(schedule.takeDue(200))).to.deep.equal([POOL]);
+    expect(schedule.nextTime).to.be.undefined;
+  });
+});
+
+describe('scheduleTake', () => {
+  const createPool = (kickTime: number): any => ({
+    name: 'Test Pool',
+    poolAddress: POOL,
+    contract: {
+      auctionInfo: async () => ({
+        kickTime_: BigNumber.from(kickTime),
+        referencePrice_: utils.parseEther('10'),
+      }),
+    },
+  });
+
+  beforeEach(() => {
+    sinon.stub(logger, 'debug');
+  });
+
+  afterEach(() => {
+    takeSchedule.takeDue(Infinity);
+    sinon.restore();
+  });
+
+  it('schedules a check for when the auction reaches the takeable price', async () => {
+    const kickTime = Math.floor(Date.now() / 1000) - HOUR;
+    await scheduleTake(createPool(kickTime), BORROWER, 20);
+
+    expect(takeSchedule.nextTime).to.equal(kickTime + 4 * HOUR);
+  });
+
+  it('does not schedule auctions ending before they get there', async () => {
+    const kickTime = Math.floor(Date.now() / 1000);
+    await scheduleTake(createPool(kickTime), BORROWER, 1e-30);
+    await scheduleTake(createPool(0), BORROWER, 20);
+
+    expect(takeSchedule.nextTime).to.be.undefined;
+  });
+});
@@ -0,0 +1,186 @@
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { BigNumber, utils } from 'ethers';
+import sinon from 'sinon';
+import { NonceTracker } from '../nonce';
+import {
+  manageTransactions,
+  TransactionCancelledError,
+  TransactionManager,
+  TransactionStuckError,
+} from '../transaction-manager';
+
+chai.use(chaiAsPromised);
+
+const KEEPER = '0x000000000000000000000000000000000000BEEF';
+const POOL = '0x1f0d51a052aa79527fffaf3108fb4440d3f53ce6';
+const gwei = (value: number) => utils.parseUnits(value.toString(), 'gwei');
+
+describe('TransactionManager', () => {
+  let mined: Set<string>;
+  let provider: any;
+  let signer: any;
+  let sent: number;
+
+  const original = {
+    hash: '0xoriginal',
+    from: KEEPER,
+    to: POOL,
+    nonce: 7,
+    type: 2,
+    data: '0x1234',
+    value: BigNumber.from(0),
+    gasLimit: BigNumber.from(300000),
+    maxFeePerGas: gwei(10),
+    maxPriorityFeePerGas: gwei(1),
+  } as any;
+
+  beforeEach(() => {
+    mined = new Set();
+    sent = 0;
+    provider = {
+      waitForTransaction: sinon.stub().callsFake(async (hash: string) => {
+        if (!mined.has(hash)) throw new Error('timeout exceeded');
+        return { transactionHash: hash, status: 1 };
+      }),
+      getFeeData: sinon.stub().resolves({
+        maxFeePerGas: gwei(5),
+        maxPriorityFeePerGas: gwei(2),
+        gasPrice: gwei(5),
+      }),
+    };
+    signer = {
+      provider,
+      getAddress: async () => KEEPER,
+      sendTransaction: sinon
+        .stub()
+        .callsFake(async () => ({ hash: `0xreplacement${++sent}` })),
+    };
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('returns the receipt of a transaction mined in time', async () => {
+    mined.add('0xoriginal');
+    const manager = new TransactionManager({ timeoutSeconds: 60 });
+
+    const receipt = await manager.wait(signer, original);
+
+    expect(receipt.transactionHash).to.equal('0xoriginal');
+    expect(signer.sendTransaction.called).to.be.false;
+    expect(provider.waitForTransaction.firstCall.args).to.deep.equal([
+      '0xoriginal',
+      1,
+      60000,
+    ]);
+  });
+
+  it('resends with bumped fees and returns whichever transaction is mined', async () => {
+    mined.add('0xreplacement1');
+    const manager = new TransactionManager({
+      timeoutSeconds: 60,
+      bumpPercent: 20,
+    });
+
+    const receipt = await manager.wait(signer, original);
+
+    expect(receipt.transactionHash).to.equal('0xreplacement1');
+    const replacement = signer.sendTransaction.firstCall.args[0];
+    expect(replacement).to.include({
+      to: POOL,
+      data: '0x1234',
+      nonce: 7,
+      type: 2,
+    });
+    expect(replacement.maxFeePerGas).to.deep.equal(gwei(12));
+    // The network's priority fee is higher than the bumped one.
+    expect(replacement.maxPriorityFeePerGas).to.deep.equal(gwei(2));
+    expect(manager.getPending()).to.be.empty;
+  });
+
+  it('cancels with a zero-value transfer to self after the last bump', async () => {
+    mined.add('0xreplacement2');
+    const manager = new TransactionManager({
+      timeoutSeconds: 60,
+      maxBumps: 1,
+    });
+
+    const error = await manager.wait(signer, original).catch((e) => e);
+
+    expect(error).to.be.instanceOf(TransactionCancelledError);
+    expect(error.nonce).to.equal(7);
+    const cancel = signer.sendTransaction.secondCall.args[0];
+    expect(cancel).to.include({ to: KEEPER, value: 0, nonce: 7 });
+    expect(cancel.maxFeePerGas).to.deep.equal(gwei(14.4));
+  });
+
+  it('gives up when not even the cancellation is mined', async () => {
+    const manager = new TransactionManager({
+      timeoutSeconds: 60,
+      maxBumps: 1,
+    });
+
+    const error = await manager.wait(signer, original).catch((e) => e);
+
+    expect(error).to.be.instanceOf(TransactionStuckError);
+    expect(error.hashes).to.deep.equal([
+      '0xoriginal',
+      '0xreplacement1',
+      '0xreplacement2',
+    ]);
+  });
+
+  it('throws like tx.wait() when the mined transaction reverted', async () => {
+    provider.waitForTransaction.resolves({
+      transactionHash: '0xoriginal',
+      status: 0,
+    });
+    const manager = new TransactionManager({ timeoutSeconds: 60 });
+
+    await expect(manager.wait(signer, original)).to.be.rejectedWith(
+      'transaction failed'
+    );
+  });
+
+  describe('manageTransactions', () => {
+    beforeEach(() => {
+      NonceTracker.clearNonces();
+    });
+
+    it('releases the nonce queue with the outcome of a cancelled transaction', async () => {
+      const sendTransaction = sinon.stub().callsFake(async (request: any) => ({
+        ...original,
+        hash: request.to === KEEPER ? '0xcancel' : '0xoriginal',
+        wait: async () => {
+          throw new Error('should not be called');
+        },
+      }));
+      signer.sendTransaction = sendTransaction;
+      // The cancellation consumes nonce 7.
+      signer.getTransactionCount = sinon
+        .stub()
+        .onFirstCall()
+        .resolves(7)
+        .resolves(8);
+      mined.add('0xcancel');
+      manageTransactions(
+        signer,
+        new TransactionManager({ timeoutSeconds: 60, maxBumps: 0 })
+      );
+
+      const first = NonceTracker.queueTransaction(signer, async (nonce) => {
+        const tx = await signer.sendTransaction({ to: POOL, nonce });
+        return tx.wait();
+      });
+      const second = NonceTracker.queueTransaction(
+        signer,
+        async (nonce) => nonce
+      );
+
+      await expect(first).to.be.rejectedWith(TransactionCancelledError);
+      expect(await second).to.equal(8);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import sinon from 'sinon';
+import { RateDirection } from '../config-types';
+import { logger } from '../logging';
+import {
+  getExpectedRateChange,
+  handleUpdateInterest,
+} from '../update-interest';
+
+const wad = (value: number) => utils.parseEther(value.toString());
+
+/** EMAs giving a meaningful actual utilization `mau` and a target utilization `tu`. */
+const emasFor = (mau: number, tu: number) => ({
+  debtEma: wad(mau * 1000),
+  depositEma: wad(1000),
+  debtColEma: wad(tu * 1000),
+  lupt0DebtEma: wad(1000),
+});
+
+describe('getExpectedRateChange', () => {
+  it('raises the rate when utilization is above target', () => {
+    expect(getExpectedRateChange(emasFor(0.9, 0.5))).to.equal(RateDirection.UP);
+  });
+
+  it('lowers the rate when utilization is below target', () => {
+    expect(getExpectedRateChange(emasFor(0.1, 0.9))).to.equal(
+      RateDirection.DOWN
+    );
+  });
+
+  it('keeps the rate when utilization is near target', () => {
+    expect(getExpectedRateChange(emasFor(0.5, 0.6))).to.equal('none');
+  });
+});
+
+describe('handleUpdateInterest', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const createPool = (lastUpdate: number): any => {
+    const { debtColEma, lupt0DebtEma, debtEma, depositEma } = emasFor(0.9, 0.5);
+    return {
+      name: 'Test Pool',
+      contract: {
+        interestRateInfo: async () => [wad(0.05), BigNumber.from(lastUpdate)],
+        emasInfo: async () => [debtColEma, lupt0DebtEma, debtEma, depositEma],
+      },
+    };
+  };
+  const params = (
+    lastUpdate: number,
+    updateInterest: { minAge?: number; direction?: RateDirection }
+  ) => ({
+    pool: createPool(lastUpdate),
+    poolConfig: { updateInterest } as any,
+    signer: {} as any,
+    config: { dryRun: true },
+  });
+  let info: sinon.SinonStub;
+
+  beforeEach(() => {
+    info = sinon.stub(logger, 'info');
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('updates a stale rate expected to move in the configured direction', async () => {
+    await handleUpdateInterest(
+      params(now - 13 * 3600, { direction: RateDirection.UP })
+    );
+
+    expect(info.calledOnce).to.be.true;
+    expect(info.firstCall.args[0]).to.match(
+      /^DryRun - Would update interest - pool: Test Pool, rate: 5.00%, expected: up/
+    );
+  });
+
+  it('leaves rates which are recent or expected to move the other way', async () => {
+    await handleUpdateInterest(params(now - 13 * 3600, { minAge: 86400 }));
+    await handleUpdateInterest(
+      params(now - 13 * 3600, { direction: RateDirection.DOWN })
+    );
+
+    expect(info.called).to.be.false;
+  });
+});
@@ -3,6 +3,7 @@
 import { Contract, BigNumber, Signer, providers, constants, ethers } from 'ethers';
 import { logger } from './logging';
 import { NonceTracker } from './nonce';
+import { preflight } from './preflight';
 import { weiToDecimaled } from './utils';
 import { getTokenFromAddress } from './uniswap';
 import { convertWadToTokenDecimals, getDecimalsErc20 } from './erc20';
@@ -118,6 +119,9 @@ export async function swapWithUniversalRouter(
     if (permit2Allowance.lt(amount)) {
       logger.info(`Approving Permit2 to spend ${tokenToSwap.symbol}`);
       await NonceTracker.queueTransaction(signer, async (nonce) => {
+        await preflight('approve', tokenAddress, () =>
+          tokenContract.callStatic.approve(permit2Address, ethers.constants.MaxUint256)
+        );
         const approveTx = await tokenContract.approve(permit2Address, ethers.constants.MaxUint256, { nonce });
         logger.info(`Permit2 approval transaction sent: ${approveTx.hash}`);
         const receipt = await approveTx.wait();
@@ -142,6 +146,9 @@ export async function swapWithUniversalRouter(
       // Set expiration to 24 hours from now
       const newExpiration = Math.floor(Date.now() / 1000) + 86400;
       await NonceTracker.queueTransaction(signer, async (nonce) => {
+        await preflight('approve', 'Permit2', () =>
+          permit2Contract.callStatic.approve(tokenAddress, universalRouterAddress, amount, newExpiration)
+        );
         const permit2Tx = await permit2Contract.approve(
           tokenAddress,
           universalRouterAddress,
@@ -198,6 +205,9 @@ export async function swapWithUniversalRouter(
     
     // Execute the swap using our queued transaction system (same as SushiSwap)
     const receipt = await NonceTracker.queueTransaction(signer, async (nonce) => {
+      await preflight('swap', 'Uniswap Universal Router', () =>
+        universalRouter.callStatic.execute(commands, inputs, deadline)
+      );
       const swapTx = await universalRouter.execute(
         commands,
         inputs,
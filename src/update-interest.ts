@@ -0,0 +1,124 @@
+import { Signer } from '@ajna-finance/sdk';
+import { BigNumber } from 'ethers';
+import { KeeperConfig, PoolConfig, RateDirection } from './config-types';
+import { recordLedgerEntry } from './ledger';
+import { logger } from './logging';
+import { recordGasSpent, recordInterestUpdate } from './metrics';
+import { poolUpdateInterest } from './transactions';
+import { AjnaPool, RequireFields, weiToDecimaled } from './utils';
+
+/** Ajna only moves a pool's rate once 12 hours passed since its last update. */
+const MIN_RATE_AGE_SECONDS = 12 * 60 * 60;
+
+export type ExpectedRateChange = RateDirection.UP | RateDirection.DOWN | 'none';
+
+/** The pool's EMAs, in WAD, as returned by `emasInfo`. */
+export interface PoolEmas {
+  debtColEma: BigNumber;
+  lupt0DebtEma: BigNumber;
+  debtEma: BigNumber;
+  depositEma: BigNumber;
+}
+
+interface HandleUpdateInterestParams {
+  pool: AjnaPool;
+  poolConfig: RequireFields<PoolConfig, 'updateInterest'>;
+  signer: Signer;
+  config: Pick<KeeperConfig, 'dryRun'>;
+}
+
+/**
+ * The way Ajna's rate rule would move the rate given the pool's EMAs. With
+ * meaningful actual utilization `mau = debtEma / depositEma` and target
+ * utilization `tu = debtColEma / lupt0DebtEma`, the rate goes up when
+ * `4 * (tu - 1.02 * mau) < (tu + 1.02 * mau - 1)^2 - 1`, and down when
+ * `4 * (tu - mau) > 1 - (tu + mau - 1)^2`. The EMAs are read before the
+ * update refreshes them, so this is an estimate.
+ */
+export function getExpectedRateChange({
+  debtColEma,
+  lupt0DebtEma,
+  debtEma,
+  depositEma,
+}: PoolEmas): ExpectedRateChange {
+  const mau = depositEma.isZero()
+    ? 0
+    : weiToDecimaled(debtEma) / weiToDecimaled(depositEma);
+  const mau102 = mau * 1.02;
+  const tu = lupt0DebtEma.isZero()
+    ? 1
+    : weiToDecimaled(debtColEma) / weiToDecimaled(lupt0DebtEma);
+
+  if (4 * (tu - mau102) < (tu + mau102 - 1) ** 2 - 1) {
+    return RateDirection.UP;
+  }
+  if (4 * (tu - mau) > 1 - (tu + mau - 1) ** 2) {
+    return RateDirection.DOWN;
+  }
+  return 'none';
+}
+
+/**
+ * Calls `updateInterest` on a pool whose rate was last updated more than
+ * `minAge` seconds ago, when the rate is expected to move in `direction`.
+ */
+export async function handleUpdateInterest({
+  pool,
+  poolConfig,
+  signer,
+  config,
+}: HandleUpdateInterestParams) {
+  const { minAge, direction = RateDirection.ANY } = poolConfig.updateInterest;
+  const [[interestRate, interestRateUpdate], emas] = await Promise.all([
+    pool.contract.interestRateInfo(),
+    pool.contract.emasInfo(),
+  ]);
+  const age = Math.floor(Date.now() / 1000) - interestRateUpdate.toNumber();
+  if (age <= Math.max(minAge ?? 0, MIN_RATE_AGE_SECONDS)) {
+    logger.debug(
+      `Not updating interest of pool ${pool.name}, last updated ${age}s ago`
+    );
+    return;
+  }
+
+  const [debtColEma, lupt0DebtEma, debtEma, depositEma] = emas;
+  const change = getExpectedRateChange({
+    debtColEma,
+    lupt0DebtEma,
+    debtEma,
+    depositEma,
+  });
+  const rate = `${(weiToDecimaled(interestRate) * 100).toFixed(2)}%`;
+  if (
+    change === 'none' ||
+    (direction !== RateDirection.ANY && change !== direction)
+  ) {
+    logger.debug(
+      `Not updating interest of pool ${pool.name}, rate ${rate}, expected change: ${change}`
+    );
+    return;
+  }
+
+  if (config.dryRun) {
+    logger.info(
+      `DryRun - Would update interest - pool: ${pool.name}, rate: ${rate}, expected: ${change}, last updated ${age}s ago`
+    );
+    return;
+  }
+
+  try {
+    recordInterestUpdate(pool.name, change, 'attempted');
+    const receipt = await poolUpdateInterest(pool, signer);
+    recordInterestUpdate(pool.name, change, 'confirmed');
+    recordGasSpent(pool.name, 'updateInterest', receipt);
+    await recordLedgerEntry({
+      action: 'updateInterest',
+      strategy: 'updateInterest',
+      pool,
+      receipt,
+    });
+  } catch (error) {
+    recordInterestUpdate(pool.name, change, 'failed');
+    logger.error(`Failed to update interest. pool: ${pool.name}`, error);
+  }
+}
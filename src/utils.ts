@@ -1,12 +1,21 @@
 import { BigNumber, providers, Wallet } from 'ethers';
 import { promises as fs } from 'fs';
 import { password } from '@inquirer/prompts';
-import { FungiblePool } from '@ajna-finance/sdk';
-import { KeeperConfig } from './config-types';
+import { AjnaSDK, FungiblePool, NonfungiblePool } from '@ajna-finance/sdk';
+import {
+  CollateralType,
+  KeeperConfig,
+  PoolConfig,
+  RpcFailoverSettings,
+} from './config-types';
+import { FailoverJsonRpcProvider } from './failover-provider';
 import { logger } from './logging';
 import { JsonRpcProvider } from './provider';
 
 export type RequireFields<T, K extends keyof T> = T & Required<Pick<T, K>>;
+
+/** An ERC20 or ERC721 pool. Kicks, arbTakes, settlement and bonds work the same in both. */
+export type AjnaPool = FungiblePool | NonfungiblePool;
 interface UtilsType {
   addAccountFromKeystore: (
     keystorePath: string,
@@ -14,7 +23,8 @@ interface UtilsType {
   ) => Promise<Wallet>;
   getProviderAndSigner: (
     keystorePath: string,
-    rpcUrl: string
+    rpcUrl: string,
+    rpcFailover?: RpcFailoverSettings
   ) => Promise<{ provider: providers.JsonRpcProvider; signer: Wallet }>;
   askPassword: () => Promise<string>;
 }
@@ -54,15 +64,25 @@ export async function addAccountFromKeystore(
   }
 }
 
+/** Loads a configured pool from the factory matching its collateral type. */
+export async function loadPool(
+  ajna: AjnaSDK,
+  { address, collateralType }: Pick<PoolConfig, 'address' | 'collateralType'>
+): Promise<AjnaPool> {
+  return collateralType === CollateralType.ERC721
+    ? await ajna.nonfungiblePoolFactory.getPoolByAddress(address)
+    : await ajna.fungiblePoolFactory.getPoolByAddress(address);
+}
+
 export function overrideMulticall(
-  fungiblePool: FungiblePool,
+  pool: AjnaPool,
   chainConfig: KeeperConfig
 ): void {
   if (
     chainConfig?.multicallAddress &&
     chainConfig?.multicallBlock !== undefined
   ) {
-    fungiblePool.ethcallProvider.multicall3 = {
+    pool.ethcallProvider.multicall3 = {
       address: chainConfig.multicallAddress,
       block: chainConfig.multicallBlock,
     };
@@ -135,9 +155,15 @@ export function tokenChangeDecimals(
 
 export async function getProviderAndSigner(
   keystorePath: string,
-  rpcUrl: string
+  rpcUrl: string,
+  rpcFailover?: RpcFailoverSettings
 ) {
-  const provider = new JsonRpcProvider(rpcUrl);
+  const provider = rpcFailover
+    ? new FailoverJsonRpcProvider(
+        [rpcUrl, ...rpcFailover.fallbackUrls],
+        rpcFailover
+      )
+    : new JsonRpcProvider(rpcUrl);
   const signer = await Utils.addAccountFromKeystore(keystorePath, provider);
 
   return { provider, signer };